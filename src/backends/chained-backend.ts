@@ -0,0 +1,242 @@
+/**
+ * ChainedBackend - Composes several backends in order
+ *
+ * Typical setup: a cache, the network, then a bundled copy.
+ * Strategies:
+ * - 'first-success': use the first backend that returns translations
+ * - 'cache-then-revalidate': like 'first-success', but when a backend answers
+ *   before the last one, the remaining backends are read in the background
+ *   to refresh the earlier layers
+ * - 'merge': read all backends and deep-merge the results
+ *   (backends listed first take precedence)
+ *
+ * Successful results are written back to the writable backends (those with a
+ * `write` method) listed before the backend that provided them. Revalidated
+ * translations are also passed to the `onRevalidate` listeners, which is how
+ * TranslationStore picks them up.
+ */
+
+import { TranslationLoadError } from '../types';
+import { mergeTranslations } from '../utils/resources';
+import type {
+  RevalidateListener,
+  RevalidatingTranslationBackend,
+  TranslationNamespace,
+  TranslationBackend,
+  WritableTranslationBackend,
+} from '../types';
+
+/**
+ * Strategy used by ChainedBackend
+ */
+export type ChainedBackendStrategy = 'first-success' | 'cache-then-revalidate' | 'merge';
+
+/**
+ * ChainedBackend options
+ */
+export interface ChainedBackendOptions {
+  /** Backends in priority order */
+  backends: TranslationBackend[];
+  /** Strategy for combining backends. Default: 'first-success' */
+  strategy?: ChainedBackendStrategy;
+  /** Called when a background revalidation returned fresh translations */
+  onRevalidate?: RevalidateListener;
+  /** Enable debug logging */
+  debug?: boolean;
+}
+
+export class ChainedBackend implements RevalidatingTranslationBackend {
+  private readonly backends: TranslationBackend[];
+  private readonly strategy: ChainedBackendStrategy;
+  private readonly revalidateListeners: Set<RevalidateListener> = new Set();
+  private readonly debug: boolean;
+
+  constructor(options: ChainedBackendOptions) {
+    this.backends = options.backends;
+    this.strategy = options.strategy ?? 'first-success';
+    if (options.onRevalidate) {
+      this.revalidateListeners.add(options.onRevalidate);
+    }
+    this.debug = options.debug ?? false;
+  }
+
+  /**
+   * Subscribe to translations refreshed by background revalidation
+   *
+   * @param listener - Called with the fresh translations
+   * @returns Unsubscribe function
+   */
+  onRevalidate(listener: RevalidateListener): () => void {
+    this.revalidateListeners.add(listener);
+    return () => {
+      this.revalidateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Read translations using the configured strategy
+   *
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param signal - Optional abort signal passed to every backend
+   * @returns Promise resolving to the translation data
+   * @throws {TranslationLoadError} If every backend fails
+   */
+  async read(locale: string, namespace: string, signal?: AbortSignal): Promise<TranslationNamespace> {
+    if (this.strategy === 'merge') {
+      return this.readMerged(locale, namespace, signal);
+    }
+
+    const { translations, index } = await this.readFirst(locale, namespace, 0, signal);
+
+    if (this.strategy === 'cache-then-revalidate' && index < this.backends.length - 1) {
+      // Revalidate in the background; failures keep the cached copy
+      void this.revalidate(locale, namespace, index);
+    }
+
+    return translations;
+  }
+
+  /**
+   * Read from the backends starting at an index until one succeeds,
+   * then write the result back to the earlier writable backends
+   *
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param start - Index of the first backend to try
+   * @param signal - Optional abort signal
+   * @returns The translations and the index of the backend that provided them
+   * @throws {TranslationLoadError} If every backend fails
+   */
+  private async readFirst(
+    locale: string,
+    namespace: string,
+    start: number,
+    signal?: AbortSignal
+  ): Promise<{ translations: TranslationNamespace; index: number }> {
+    let lastError: unknown;
+
+    for (let index = start; index < this.backends.length; index++) {
+      const backend = this.backends[index]!;
+      try {
+        const translations = await backend.read(locale, namespace, signal);
+        await this.writeBack(locale, namespace, translations, index);
+        return { translations, index };
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        lastError = error;
+        if (this.debug) {
+          console.warn(`[i18n] Backend ${index} failed for ${locale}/${namespace}, trying next`, error);
+        }
+      }
+    }
+
+    throw toLoadError(locale, namespace, lastError);
+  }
+
+  /**
+   * Read the backends after the one that answered and refresh the earlier layers
+   *
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param answered - Index of the backend that answered the initial read
+   */
+  private async revalidate(locale: string, namespace: string, answered: number): Promise<void> {
+    try {
+      // readFirst writes the fresh copy back to every earlier writable layer
+      const { translations } = await this.readFirst(locale, namespace, answered + 1);
+      this.revalidateListeners.forEach((listener) => listener(locale, namespace, translations));
+    } catch (error) {
+      if (this.debug) {
+        console.warn(`[i18n] Background revalidation failed for ${locale}/${namespace}`, error);
+      }
+    }
+  }
+
+  /**
+   * Read every backend and deep-merge the successful results
+   *
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param signal - Optional abort signal
+   * @returns The merged translations
+   * @throws {TranslationLoadError} If every backend fails
+   */
+  private async readMerged(locale: string, namespace: string, signal?: AbortSignal): Promise<TranslationNamespace> {
+    const results = await Promise.allSettled(
+      this.backends.map((backend) => backend.read(locale, namespace, signal))
+    );
+
+    let merged: TranslationNamespace | undefined;
+    let lastError: unknown;
+
+    // Merge from lowest to highest priority so earlier backends win
+    for (let index = results.length - 1; index >= 0; index--) {
+      const result = results[index]!;
+      if (result.status === 'fulfilled') {
+        merged = mergeTranslations(merged ?? {}, result.value);
+      } else {
+        lastError = result.reason;
+      }
+    }
+
+    if (!merged) {
+      throw toLoadError(locale, namespace, lastError);
+    }
+
+    await this.writeBack(locale, namespace, merged, this.backends.length);
+    return merged;
+  }
+
+  /**
+   * Write translations to the writable backends before an index
+   * Write failures are logged and otherwise ignored
+   *
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param translations - The translation data
+   * @param before - Index of the backend that provided the translations
+   */
+  private async writeBack(
+    locale: string,
+    namespace: string,
+    translations: TranslationNamespace,
+    before: number
+  ): Promise<void> {
+    for (const backend of this.backends.slice(0, before)) {
+      if (!isWritable(backend)) {
+        continue;
+      }
+      try {
+        await backend.write(locale, namespace, translations);
+      } catch (error) {
+        if (this.debug) {
+          console.warn(`[i18n] Failed to write ${locale}/${namespace} to cache`, error);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Check whether a backend can store translations
+ */
+function isWritable(backend: TranslationBackend): backend is WritableTranslationBackend {
+  return typeof (backend as Partial<WritableTranslationBackend>).write === 'function';
+}
+
+/**
+ * Wrap the last backend error in a TranslationLoadError
+ */
+function toLoadError(locale: string, namespace: string, error: unknown): TranslationLoadError {
+  if (error instanceof TranslationLoadError) {
+    return error;
+  }
+  return new TranslationLoadError(
+    locale,
+    namespace,
+    error instanceof Error ? error : new Error('No backend configured')
+  );
+}
@@ -0,0 +1,181 @@
+/**
+ * FetchBackend - Loads translation files over HTTP with fetch
+ *
+ * This is the default backend: files are served as static assets from
+ * the path built from `loadPath`.
+ *
+ * Conditional requests: the ETag / Last-Modified of each response are
+ * remembered per URL and sent as If-None-Match / If-Modified-Since on the
+ * next read. A 304 response returns the previously loaded data unchanged
+ * (the same object), so callers can detect that nothing changed.
+ *
+ * With a manifest, catalog URLs come from the manifest (e.g. content-hashed
+ * file names); catalogs missing from the manifest use `loadPath`.
+ */
+
+import { TranslationLoadError } from '../types';
+import type { TranslationBackend, TranslationNamespace } from '../types';
+import type { TranslationManifest } from '../core/translation-manifest';
+import { DEFAULT_LOAD_PATH, resolveLoadPath } from './load-path';
+
+// Delay before loading a failed manifest again, doubled per failure
+const MANIFEST_RETRY_DELAY = 1000;
+const MAX_MANIFEST_RETRY_DELAY = 60000;
+
+/**
+ * FetchBackend options
+ */
+export interface FetchBackendOptions {
+  /** Path template, e.g. '/locales/{{locale}}/{{namespace}}.json' */
+  loadPath?: string;
+  /** Request options passed to fetch (headers, credentials, etc.) */
+  requestInit?: RequestInit;
+  /** Custom fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch;
+  /** Send conditional requests using ETag / Last-Modified. Default: true */
+  conditionalRequests?: boolean;
+  /** Manifest that maps locales and namespaces to catalog URLs */
+  manifest?: TranslationManifest;
+}
+
+/**
+ * Validators and data of the last successful response for a URL
+ */
+interface CachedResponse {
+  etag: string | null;
+  lastModified: string | null;
+  data: TranslationNamespace;
+}
+
+export class FetchBackend implements TranslationBackend {
+  private readonly loadPath: string;
+  private readonly requestInit?: RequestInit;
+  private readonly fetchImpl?: typeof fetch;
+  private readonly conditionalRequests: boolean;
+  private readonly manifest?: TranslationManifest;
+  private readonly responses = new Map<string, CachedResponse>();
+  // Consecutive manifest load failures and when to try again
+  private manifestFailures = 0;
+  private manifestRetryAt = 0;
+
+  constructor(options: FetchBackendOptions = {}) {
+    this.loadPath = options.loadPath ?? DEFAULT_LOAD_PATH;
+    this.requestInit = options.requestInit;
+    this.fetchImpl = options.fetch;
+    this.conditionalRequests = options.conditionalRequests ?? true;
+    this.manifest = options.manifest;
+  }
+
+  /**
+   * Get the URL for a locale and namespace
+   * Uses the manifest URL when the manifest is loaded and lists the catalog;
+   * relative paths are resolved from the public root
+   *
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @returns The URL to fetch
+   */
+  getUrl(locale: string, namespace: string): string {
+    const manifestUrl = this.manifest?.getUrl(locale, namespace);
+    if (manifestUrl) {
+      return manifestUrl;
+    }
+
+    const path = resolveLoadPath(this.loadPath, locale, namespace);
+    return /^([a-z][a-z\d+.-]*:)?\/\//i.test(path) || path.startsWith('/') ? path : `/${path}`;
+  }
+
+  /**
+   * Fetch a translation file
+   *
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param signal - Optional abort signal
+   * @returns Promise resolving to the translation data (the previous data on 304)
+   * @throws {TranslationLoadError} If the request fails
+   */
+  async read(locale: string, namespace: string, signal?: AbortSignal): Promise<TranslationNamespace> {
+    await this.loadManifest();
+    const url = this.getUrl(locale, namespace);
+    // Resolve fetch at call time so a replaced global fetch is used
+    const fetchImpl = this.fetchImpl ?? fetch;
+    const cached = this.conditionalRequests ? this.responses.get(url) : undefined;
+
+    const init = this.getRequestInit(cached, signal);
+    const response = init ? await fetchImpl(url, init) : await fetchImpl(url);
+
+    if (response.status === 304 && cached) {
+      return cached.data;
+    }
+
+    if (!response.ok) {
+      throw new TranslationLoadError(
+        locale,
+        namespace,
+        new Error(`HTTP ${response.status}: ${response.statusText}`),
+        response.status
+      );
+    }
+
+    const data: TranslationNamespace = await response.json();
+
+    if (this.conditionalRequests) {
+      const etag = response.headers?.get('ETag') ?? null;
+      const lastModified = response.headers?.get('Last-Modified') ?? null;
+      if (etag || lastModified) {
+        this.responses.set(url, { etag, lastModified, data });
+      } else {
+        this.responses.delete(url);
+      }
+    }
+
+    return data;
+  }
+
+  /**
+   * Load the manifest before the first read
+   * If it cannot be loaded, catalogs are fetched from `loadPath` and the
+   * manifest is tried again after a delay that grows with each failure
+   */
+  private async loadManifest(): Promise<void> {
+    if (!this.manifest || this.manifest.isLoaded() || Date.now() < this.manifestRetryAt) {
+      return;
+    }
+
+    try {
+      await this.manifest.load();
+      this.manifestFailures = 0;
+    } catch (error) {
+      // Back off so reads do not refetch a failing manifest every time
+      this.manifestFailures++;
+      this.manifestRetryAt =
+        Date.now() + Math.min(MANIFEST_RETRY_DELAY * 2 ** (this.manifestFailures - 1), MAX_MANIFEST_RETRY_DELAY);
+      if (process.env.NODE_ENV !== 'production') {
+        console.warn('[i18n] Failed to load translation manifest, using loadPath', error);
+      }
+    }
+  }
+
+  /**
+   * Build the request options, adding conditional headers when validators are known
+   *
+   * @param cached - The last response for the URL
+   * @param signal - Optional abort signal
+   * @returns The request options, or undefined if none are needed
+   */
+  private getRequestInit(cached: CachedResponse | undefined, signal?: AbortSignal): RequestInit | undefined {
+    if (!cached) {
+      return this.requestInit || signal ? { ...this.requestInit, signal } : undefined;
+    }
+
+    const headers = new Headers(this.requestInit?.headers);
+    if (cached.etag) {
+      headers.set('If-None-Match', cached.etag);
+    }
+    if (cached.lastModified) {
+      headers.set('If-Modified-Since', cached.lastModified);
+    }
+
+    return { ...this.requestInit, headers, signal };
+  }
+}
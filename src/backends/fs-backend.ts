@@ -0,0 +1,63 @@
+/**
+ * FsBackend - Reads translation files from the filesystem (Node.js only)
+ *
+ * `node:fs/promises` is imported lazily so the backend can be part of
+ * browser bundles without being used there.
+ */
+
+import { TranslationLoadError } from '../types';
+import type { TranslationBackend, TranslationNamespace } from '../types';
+import { DEFAULT_LOAD_PATH, resolveLoadPath } from './load-path';
+
+/**
+ * FsBackend options
+ */
+export interface FsBackendOptions {
+  /** Path template, e.g. './public/locales/{{locale}}/{{namespace}}.json' */
+  loadPath?: string;
+}
+
+// Module name kept in a variable so bundlers do not try to resolve it
+const FS_MODULE = 'node:fs/promises';
+
+export class FsBackend implements TranslationBackend {
+  private readonly loadPath: string;
+
+  constructor(options: FsBackendOptions = {}) {
+    this.loadPath = options.loadPath ?? DEFAULT_LOAD_PATH;
+  }
+
+  /**
+   * Get the file path for a locale and namespace
+   *
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @returns The file path
+   */
+  getPath(locale: string, namespace: string): string {
+    return resolveLoadPath(this.loadPath, locale, namespace);
+  }
+
+  /**
+   * Read and parse a translation file
+   *
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param signal - Optional abort signal
+   * @returns Promise resolving to the translation data
+   * @throws {TranslationLoadError} If the file cannot be read or parsed
+   */
+  async read(locale: string, namespace: string, signal?: AbortSignal): Promise<TranslationNamespace> {
+    const path = this.getPath(locale, namespace);
+
+    try {
+      const fs = (await import(/* @vite-ignore */ /* webpackIgnore: true */ FS_MODULE)) as typeof import('node:fs/promises');
+      const content = await fs.readFile(path, { encoding: 'utf-8', signal });
+      return JSON.parse(content);
+    } catch (error) {
+      // A missing file is reported as 404 so the loader does not retry
+      const status = (error as NodeJS.ErrnoException | null)?.code === 'ENOENT' ? 404 : undefined;
+      throw new TranslationLoadError(locale, namespace, error instanceof Error ? error : new Error(String(error)), status);
+    }
+  }
+}
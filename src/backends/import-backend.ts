@@ -0,0 +1,75 @@
+/**
+ * ImportBackend - Loads translations bundled with dynamic import()
+ *
+ * Accepts either a map of lazy imports (e.g. the result of Vite's
+ * `import.meta.glob`) or a function returning an import for a locale
+ * and namespace. Modules may export the translations as default export.
+ */
+
+import { TranslationLoadError } from '../types';
+import type { TranslationBackend, TranslationNamespace } from '../types';
+import { resolveLoadPath } from './load-path';
+
+/**
+ * Module returned by a translation import
+ */
+export type TranslationModule = TranslationNamespace | { default: TranslationNamespace };
+
+/**
+ * Lazy import of a translation module
+ */
+export type TranslationImport = () => Promise<TranslationModule>;
+
+/**
+ * Function returning the import for a locale and namespace
+ */
+export type TranslationImportFn = (locale: string, namespace: string) => Promise<TranslationModule>;
+
+/**
+ * ImportBackend options
+ */
+export interface ImportBackendOptions {
+  /** Key template used to look up imports in a map. Default: '{{locale}}/{{namespace}}' */
+  keyPath?: string;
+}
+
+export class ImportBackend implements TranslationBackend {
+  private readonly keyPath: string;
+
+  constructor(
+    private readonly imports: Record<string, TranslationImport> | TranslationImportFn,
+    options: ImportBackendOptions = {}
+  ) {
+    this.keyPath = options.keyPath ?? '{{locale}}/{{namespace}}';
+  }
+
+  /**
+   * Import the translations for a locale and namespace
+   *
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @returns Promise resolving to the translation data
+   * @throws {TranslationLoadError} If no import exists or the import fails
+   */
+  async read(locale: string, namespace: string): Promise<TranslationNamespace> {
+    let module: TranslationModule;
+
+    if (typeof this.imports === 'function') {
+      module = await this.imports(locale, namespace);
+    } else {
+      const key = resolveLoadPath(this.keyPath, locale, namespace);
+      const load = this.imports[key];
+
+      if (!load) {
+        // Reported as 404 so the loader does not retry
+        throw new TranslationLoadError(locale, namespace, new Error(`No import registered for: ${key}`), 404);
+      }
+
+      module = await load();
+    }
+
+    return 'default' in module && typeof module.default === 'object'
+      ? (module.default as TranslationNamespace)
+      : (module as TranslationNamespace);
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Load path template resolution shared by path-based backends
+ */
+
+/**
+ * Default load path template
+ */
+export const DEFAULT_LOAD_PATH = 'locales/{{locale}}/{{namespace}}.json';
+
+/**
+ * Resolve a load path template for a locale and namespace
+ * Supports {{locale}} / {{lng}} and {{namespace}} / {{ns}} placeholders
+ *
+ * @param template - The load path template
+ * @param locale - The locale code
+ * @param namespace - The namespace
+ * @returns The resolved path
+ */
+export function resolveLoadPath(template: string, locale: string, namespace: string): string {
+  return template
+    .replace('{{locale}}', locale)
+    .replace('{{namespace}}', namespace)
+    .replace('{{lng}}', locale) // Alternative placeholder
+    .replace('{{ns}}', namespace); // Alternative placeholder
+}
@@ -0,0 +1,63 @@
+/**
+ * MemoryBackend - Serves translations from an in-memory object
+ *
+ * Useful for tests, server rendering with preloaded catalogs, and
+ * translations embedded in the application bundle.
+ */
+
+import { TranslationLoadError } from '../types';
+import type { TranslationNamespace, WritableTranslationBackend } from '../types';
+
+/**
+ * Translations keyed by locale, then namespace
+ */
+export type TranslationResources = Record<string, Record<string, TranslationNamespace>>;
+
+export class MemoryBackend implements WritableTranslationBackend {
+  private readonly resources: TranslationResources;
+
+  constructor(resources: TranslationResources = {}) {
+    this.resources = resources;
+  }
+
+  /**
+   * Add or replace the translations of a namespace
+   *
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param translations - The translation data
+   */
+  set(locale: string, namespace: string, translations: TranslationNamespace): void {
+    this.resources[locale] = { ...this.resources[locale], [namespace]: translations };
+  }
+
+  /**
+   * Store translations, allowing the backend to act as a cache layer
+   *
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param translations - The translation data
+   */
+  write(locale: string, namespace: string, translations: TranslationNamespace): void {
+    this.set(locale, namespace, translations);
+  }
+
+  /**
+   * Read the translations of a namespace
+   *
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @returns Promise resolving to the translation data
+   * @throws {TranslationLoadError} If the namespace does not exist
+   */
+  async read(locale: string, namespace: string): Promise<TranslationNamespace> {
+    const translations = this.resources[locale]?.[namespace];
+
+    if (!translations) {
+      // Reported as 404 so the loader does not retry
+      throw new TranslationLoadError(locale, namespace, new Error('Namespace not found in memory backend'), 404);
+    }
+
+    return translations;
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * IndexedDBCacheStorage - IndexedDB storage for the translation cache
+ *
+ * Entries are stored in a single object store. The database is opened
+ * lazily on first use.
+ */
+
+import type { CachedTranslation, TranslationCacheStorage } from '../types';
+
+const DEFAULT_DB_NAME = 'i18n-translations';
+const STORE_NAME = 'translations';
+
+export class IndexedDBCacheStorage implements TranslationCacheStorage {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly dbName: string = DEFAULT_DB_NAME) {}
+
+  /**
+   * Check if IndexedDB is available
+   */
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async get(key: string): Promise<CachedTranslation | undefined> {
+    const entry = await this.request('readonly', (store) => store.get(key));
+    return entry as CachedTranslation | undefined;
+  }
+
+  async set(key: string, entry: CachedTranslation): Promise<void> {
+    await this.request('readwrite', (store) => store.put(entry, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request('readwrite', (store) => store.delete(key));
+  }
+
+  async clear(): Promise<void> {
+    await this.request('readwrite', (store) => store.clear());
+  }
+
+  /**
+   * Open the database, creating the object store on first use
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry if opening failed
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  /**
+   * Run a request against the object store
+   */
+  private async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
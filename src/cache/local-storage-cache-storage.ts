@@ -0,0 +1,50 @@
+/**
+ * LocalStorageCacheStorage - localStorage storage for the translation cache
+ *
+ * Entries are stored as JSON under a key prefix. Used when IndexedDB is
+ * not available.
+ */
+
+import type { CachedTranslation, TranslationCacheStorage } from '../types';
+
+const KEY_PREFIX = 'i18n_translations:';
+
+export class LocalStorageCacheStorage implements TranslationCacheStorage {
+  /**
+   * Check if localStorage is available
+   */
+  static isAvailable(): boolean {
+    try {
+      const testKey = '__storage_test__';
+      localStorage.setItem(testKey, 'test');
+      localStorage.removeItem(testKey);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async get(key: string): Promise<CachedTranslation | undefined> {
+    const value = localStorage.getItem(KEY_PREFIX + key);
+    return value ? (JSON.parse(value) as CachedTranslation) : undefined;
+  }
+
+  async set(key: string, entry: CachedTranslation): Promise<void> {
+    localStorage.setItem(KEY_PREFIX + key, JSON.stringify(entry));
+  }
+
+  async delete(key: string): Promise<void> {
+    localStorage.removeItem(KEY_PREFIX + key);
+  }
+
+  async clear(): Promise<void> {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(KEY_PREFIX)) {
+        keys.push(key);
+      }
+    }
+    keys.forEach((key) => localStorage.removeItem(key));
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * MemoryCacheStorage - In-memory storage for the translation cache
+ *
+ * Entries live as long as the instance. Used in tests and in Node.js,
+ * and as the last fallback when no persistent storage is available.
+ */
+
+import type { CachedTranslation, TranslationCacheStorage } from '../types';
+
+export class MemoryCacheStorage implements TranslationCacheStorage {
+  private readonly entries = new Map<string, CachedTranslation>();
+
+  async get(key: string): Promise<CachedTranslation | undefined> {
+    return this.entries.get(key);
+  }
+
+  async set(key: string, entry: CachedTranslation): Promise<void> {
+    this.entries.set(key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * TranslationCache - Versioned, expiring persistent cache for translations
+ *
+ * Wraps a TranslationCacheStorage and keys entries by locale and namespace.
+ * Entries stored for another catalog version or older than `maxAge` are
+ * discarded on read. Storage errors and reads that take longer than
+ * `readTimeout` are logged and treated as cache misses.
+ */
+
+import type { CacheConfig, TranslationCacheStorage, TranslationNamespace } from '../types';
+import { IndexedDBCacheStorage } from './indexeddb-cache-storage';
+import { LocalStorageCacheStorage } from './local-storage-cache-storage';
+import { MemoryCacheStorage } from './memory-cache-storage';
+
+// Default maximum age: 7 days
+const DEFAULT_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+// Default time to wait for a cache read
+const DEFAULT_READ_TIMEOUT = 500;
+
+/**
+ * Create the storage for a cache configuration
+ * 'auto' uses IndexedDB, then localStorage, then memory
+ *
+ * @param storage - The configured storage
+ * @returns The storage implementation
+ */
+export function createCacheStorage(storage: CacheConfig['storage'] = 'auto'): TranslationCacheStorage {
+  if (typeof storage === 'object') {
+    return storage;
+  }
+
+  if ((storage === 'auto' || storage === 'indexeddb') && IndexedDBCacheStorage.isAvailable()) {
+    return new IndexedDBCacheStorage();
+  }
+
+  if ((storage === 'auto' || storage === 'indexeddb' || storage === 'localstorage') && LocalStorageCacheStorage.isAvailable()) {
+    return new LocalStorageCacheStorage();
+  }
+
+  return new MemoryCacheStorage();
+}
+
+export class TranslationCache {
+  private readonly storage: TranslationCacheStorage;
+  private readonly version: string;
+  private readonly maxAge: number;
+  private readonly readTimeout: number;
+
+  constructor(config: CacheConfig, private readonly debug: boolean = false) {
+    this.storage = createCacheStorage(config.storage);
+    this.version = config.version ?? '';
+    this.maxAge = config.maxAge ?? DEFAULT_MAX_AGE;
+    this.readTimeout = config.readTimeout ?? DEFAULT_READ_TIMEOUT;
+  }
+
+  /**
+   * Read cached translations
+   *
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @returns The translations, or undefined if missing, outdated, expired or not read in time
+   */
+  async get(locale: string, namespace: string): Promise<TranslationNamespace | undefined> {
+    const key = this.getKey(locale, namespace);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Read timed out after ${this.readTimeout}ms`)), this.readTimeout);
+      });
+      const entry = await Promise.race([this.storage.get(key), timeout]);
+      if (!entry) {
+        return undefined;
+      }
+
+      const expired = this.maxAge > 0 && Date.now() - entry.timestamp > this.maxAge;
+      if (entry.version !== this.version || expired) {
+        await this.storage.delete(key);
+        return undefined;
+      }
+
+      return entry.translations;
+    } catch (error) {
+      this.logError(`Failed to read cached translations: ${key}`, error);
+      return undefined;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Store translations for the current catalog version
+   *
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param translations - The translation data
+   */
+  async set(locale: string, namespace: string, translations: TranslationNamespace): Promise<void> {
+    const key = this.getKey(locale, namespace);
+
+    try {
+      await this.storage.set(key, { translations, version: this.version, timestamp: Date.now() });
+    } catch (error) {
+      this.logError(`Failed to cache translations: ${key}`, error);
+    }
+  }
+
+  /**
+   * Remove cached translations of a namespace
+   *
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   */
+  async delete(locale: string, namespace: string): Promise<void> {
+    try {
+      await this.storage.delete(this.getKey(locale, namespace));
+    } catch (error) {
+      this.logError('Failed to remove cached translations', error);
+    }
+  }
+
+  /**
+   * Remove all cached translations
+   */
+  async clear(): Promise<void> {
+    try {
+      await this.storage.clear();
+    } catch (error) {
+      this.logError('Failed to clear translation cache', error);
+    }
+  }
+
+  /**
+   * Get the storage key for a locale and namespace
+   */
+  private getKey(locale: string, namespace: string): string {
+    return `${locale}:${namespace}`;
+  }
+
+  /**
+   * Log a storage error in debug mode
+   */
+  private logError(message: string, error: unknown): void {
+    if (this.debug) {
+      console.warn(`[i18n] ${message}`, error);
+    }
+  }
+}
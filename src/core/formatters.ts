@@ -0,0 +1,86 @@
+/**
+ * Built-in interpolation formatters
+ *
+ * Used in placeholders as {{value, name(args)}} and chained with commas:
+ * - number, number(2), number(compact)
+ * - currency(EUR)
+ * - percent, percent(1)
+ * - unit(kilometer)
+ * - date(long), time(short), datetime(full), relativetime
+ * - list, list(disjunction)
+ * - uppercase, lowercase, capitalize
+ *
+ * Formatters delegate to the locale's FormatService.
+ */
+
+import type {
+  DateFormat,
+  DateTimeFormat,
+  InterpolationFormatter,
+  ListFormatType,
+  TimeFormat,
+  UnitType,
+} from '../types';
+
+/**
+ * Convert a value to a Date (Date instances, timestamps and date strings)
+ */
+function toDate(value: unknown): Date {
+  return value instanceof Date ? value : new Date(value as string | number);
+}
+
+/**
+ * Parse an optional numeric argument
+ */
+function toDigits(arg: string | undefined): number | undefined {
+  if (arg === undefined || arg === '') {
+    return undefined;
+  }
+  const digits = parseInt(arg, 10);
+  return Number.isNaN(digits) ? undefined : digits;
+}
+
+/**
+ * Built-in formatters keyed by name
+ */
+export const builtInFormatters: Record<string, InterpolationFormatter> = {
+  number: (value, [style], { format }) => {
+    if (style === 'compact') {
+      return format.number(Number(value), { notation: 'compact' } as Intl.NumberFormatOptions);
+    }
+    const digits = toDigits(style);
+    return format.number(
+      Number(value),
+      digits === undefined ? undefined : { minimumFractionDigits: digits, maximumFractionDigits: digits }
+    );
+  },
+
+  currency: (value, [currency = 'USD'], { format }) => format.currency(Number(value), currency.toUpperCase()),
+
+  percent: (value, [decimals], { format }) => format.percentage(Number(value), { decimals: toDigits(decimals) }),
+
+  unit: (value, [unit = ''], { format }) => format.unit(Number(value), unit as UnitType),
+
+  date: (value, [style], { format }) => format.date(toDate(value), (style || 'medium') as DateFormat),
+
+  time: (value, [style], { format }) => format.time(toDate(value), (style || 'medium') as TimeFormat),
+
+  datetime: (value, [style], { format }) => format.dateTime(toDate(value), (style || 'medium') as DateTimeFormat),
+
+  relativetime: (value, _args, { format }) => format.relativeTime(toDate(value)),
+
+  list: (value, [type], { format }) =>
+    format.list(
+      (Array.isArray(value) ? value : [value]).map(String),
+      (type || 'conjunction') as ListFormatType
+    ),
+
+  uppercase: (value, _args, { locale }) => String(value).toLocaleUpperCase(locale),
+
+  lowercase: (value, _args, { locale }) => String(value).toLocaleLowerCase(locale),
+
+  capitalize: (value, _args, { locale }) => {
+    const text = String(value);
+    return text.charAt(0).toLocaleUpperCase(locale) + text.slice(1);
+  },
+};
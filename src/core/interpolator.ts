@@ -6,19 +6,57 @@
  * - Nested object access using dot notation
  * - HTML escaping for security
  * - Missing variable warnings in development mode
+ * - ICU MessageFormat evaluation when configured with syntax: 'icu'
+ * - Formatter pipes such as {{price, currency(EUR)}} or {{name, trim, uppercase}}
  */
 
-import type { InterpolationConfig } from '../types';
+import {
+  MessageFormatError,
+  type InterpolationConfig,
+  type InterpolationFormatter,
+  type MessageSyntax,
+} from '../types';
+import { MessageFormatter } from './message-format';
+import { FormatService } from './format-service';
+import { builtInFormatters } from './formatters';
+
+/**
+ * Formatter call parsed from a placeholder
+ */
+interface FormatterCall {
+  name: string;
+  args: string[];
+}
 
 export class Interpolator {
+  readonly syntax: MessageSyntax;
   private readonly prefix: string;
   private readonly suffix: string;
   private readonly escapeValue: boolean;
+  private readonly messageFormatter: MessageFormatter;
+  private readonly formatters: Map<string, InterpolationFormatter>;
+
+  // Cache of FormatService instances per locale
+  private readonly formatServices: Map<string, FormatService> = new Map();
 
   constructor(config: InterpolationConfig = {}) {
+    this.syntax = config.syntax ?? 'default';
     this.prefix = config.prefix ?? '{{';
     this.suffix = config.suffix ?? '}}';
     this.escapeValue = config.escapeValue ?? true;
+    this.messageFormatter = new MessageFormatter();
+    this.formatters = new Map(Object.entries({ ...builtInFormatters, ...config.formatters }));
+  }
+
+  /**
+   * Register a formatter for use in placeholders ({{value, name(args)}})
+   * Replaces a built-in or previously registered formatter with the same name
+   * 
+   * @param name - The formatter name
+   * @param formatter - The formatter function
+   */
+  registerFormatter(name: string, formatter: InterpolationFormatter): void {
+    this.formatters.set(name, formatter);
   }
 
   /**
@@ -26,15 +64,57 @@ export class Interpolator {
    * 
    * @param template - The translation string with placeholders
    * @param values - Object containing values to interpolate
+   * @param locale - The locale used for ICU plural rules and formatting
+   * @param escapeValue - Escape HTML in values (default: interpolation.escapeValue)
    * @returns The interpolated string
    */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  interpolate(template: string, values: Record<string, any> = {}): string {
+  interpolate(
+    template: string,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    values: Record<string, any> = {},
+    locale: string = 'en',
+    escapeValue: boolean = this.escapeValue
+  ): string {
     if (!template) {
       return template;
     }
 
-    return this.replaceVariables(template, values);
+    if (this.syntax === 'icu') {
+      return this.formatMessage(template, values, locale, escapeValue);
+    }
+
+    return this.replaceVariables(template, values, locale, escapeValue);
+  }
+
+  /**
+   * Evaluate an ICU message, returning the template unchanged if it is malformed
+   * 
+   * @param template - The ICU message
+   * @param values - Argument values
+   * @param locale - The locale code
+   * @param escapeValue - Escape HTML in values
+   * @returns The formatted string
+   */
+  private formatMessage(
+    template: string,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    values: Record<string, any>,
+    locale: string,
+    escapeValue: boolean
+  ): string {
+    try {
+      return this.messageFormatter.format(locale, template, values, (value) =>
+        escapeValue ? this.escapeHtml(value) : value
+      );
+    } catch (error) {
+      if (!(error instanceof MessageFormatError)) {
+        throw error;
+      }
+      if (process.env.NODE_ENV !== 'production') {
+        console.warn(`[i18n] ${error.message}`);
+      }
+      return template;
+    }
   }
 
   /**
@@ -42,10 +122,17 @@ export class Interpolator {
    * 
    * @param template - The translation string with placeholders
    * @param values - Object containing values to interpolate
+   * @param locale - The locale used by formatters
+   * @param escapeValue - Escape HTML in values
    * @returns The string with variables replaced
    */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private replaceVariables(template: string, values: Record<string, any>): string {
+  private replaceVariables(
+    template: string,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    values: Record<string, any>,
+    locale: string,
+    escapeValue: boolean
+  ): string {
     const regex = new RegExp(
       `${this.escapeRegex(this.prefix)}\\s*([^${this.escapeRegex(this.suffix)}]+?)\\s*${this.escapeRegex(this.suffix)}`,
       'g'
@@ -53,7 +140,8 @@ export class Interpolator {
 
     const missingVariables: string[] = [];
 
-    const result = template.replace(regex, (match, variablePath: string) => {
+    const result = template.replace(regex, (match, placeholder: string) => {
+      const [variablePath = '', ...formatterSpecs] = this.splitPlaceholder(placeholder);
       const trimmedPath = variablePath.trim();
       const value = this.resolveNestedValue(values, trimmedPath);
 
@@ -63,8 +151,8 @@ export class Interpolator {
         return match;
       }
 
-      const stringValue = String(value);
-      return this.escapeValue ? this.escapeHtml(stringValue) : stringValue;
+      const stringValue = String(this.applyFormatters(value, formatterSpecs, locale));
+      return escapeValue ? this.escapeHtml(stringValue) : stringValue;
     });
 
     // Log warnings in development mode for missing variables
@@ -77,6 +165,106 @@ export class Interpolator {
     return result;
   }
 
+  /**
+   * Split placeholder content on commas that are not inside parentheses
+   * "price, currency(EUR)" -> ["price", "currency(EUR)"]
+   * 
+   * @param placeholder - The placeholder content
+   * @returns The variable path followed by the formatter specs
+   */
+  private splitPlaceholder(placeholder: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of placeholder) {
+      if (char === '(') {
+        depth++;
+      } else if (char === ')') {
+        depth = Math.max(0, depth - 1);
+      } else if (char === ',' && depth === 0) {
+        parts.push(current);
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+    parts.push(current);
+
+    return parts;
+  }
+
+  /**
+   * Parse a formatter spec such as "currency(EUR)" or "uppercase"
+   * 
+   * @param spec - The formatter spec
+   * @returns The formatter call or null if the spec is malformed
+   */
+  private parseFormatter(spec: string): FormatterCall | null {
+    const match = /^([\w-]+)\s*(?:\((.*)\))?$/.exec(spec.trim());
+    if (!match) {
+      return null;
+    }
+
+    const args = match[2] !== undefined && match[2].trim() !== ''
+      ? match[2].split(',').map((arg) => arg.trim().replace(/^(['"])(.*)\1$/, '$2'))
+      : [];
+
+    return { name: match[1]!, args };
+  }
+
+  /**
+   * Apply the formatters of a placeholder to a value, in order
+   * Unknown or failing formatters are skipped with a warning in development mode
+   * 
+   * @param value - The interpolated value
+   * @param specs - The formatter specs
+   * @param locale - The locale code
+   * @returns The formatted value
+   */
+  private applyFormatters(value: unknown, specs: string[], locale: string): unknown {
+    let result = value;
+
+    for (const spec of specs) {
+      const call = this.parseFormatter(spec);
+      const formatter = call ? this.formatters.get(call.name) : undefined;
+
+      if (!call || !formatter) {
+        if (process.env.NODE_ENV !== 'production') {
+          console.warn(`[i18n] Unknown interpolation formatter: ${spec.trim()}`);
+        }
+        continue;
+      }
+
+      try {
+        result = formatter(result, call.args, { locale, format: this.getFormatService(locale) });
+      } catch (error) {
+        if (process.env.NODE_ENV !== 'production') {
+          console.warn(`[i18n] Interpolation formatter "${call.name}" failed:`, error);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the cached FormatService for a locale
+   * 
+   * @param locale - The locale code
+   * @returns The FormatService
+   */
+  private getFormatService(locale: string): FormatService {
+    let formatService = this.formatServices.get(locale);
+
+    if (!formatService) {
+      formatService = new FormatService(locale);
+      this.formatServices.set(locale, formatService);
+    }
+
+    return formatService;
+  }
+
   /**
    * Resolve a nested value from an object using dot notation
    * 
@@ -11,8 +11,17 @@
  */
 
 import { LocaleInfo, I18nConfig, InvalidLocaleError, TextDirection } from '../types';
-import { detectBrowserLocale, isLocaleSupported, normalizeLocale } from '../utils/locale-detector';
+import {
+  detectBrowserLocale,
+  getLanguageCode,
+  isLocaleSupported,
+  normalizeLocale,
+  resolveSupportedLocale,
+} from '../utils/locale-detector';
 import { getPersistedLocale, persistLocale } from '../utils/storage';
+import { getPrimaryFallbackLocale } from '../utils/fallback-chain';
+import { DisplayNamesService } from './display-names-service';
+import type { TranslationManifest } from './translation-manifest';
 
 /**
  * Locale change listener function
@@ -133,6 +142,9 @@ const LOCALE_METADATA: Record<string, Omit<LocaleInfo, 'code'>> = {
 export class LocaleManager {
   private currentLocale: string;
   private readonly supportedLocales: string[];
+  // Canonical codes of the configured locales, to merge with the manifest's
+  private readonly configuredLocales: Set<string>;
+  private readonly manifest?: TranslationManifest;
   private readonly fallbackLocale: string;
   private readonly listeners: Set<LocaleChangeListener>;
   private readonly debug: boolean;
@@ -144,7 +156,9 @@ export class LocaleManager {
    */
   constructor(config: I18nConfig, initialLocale?: string) {
     this.supportedLocales = config.supportedLocales;
-    this.fallbackLocale = config.fallbackLocale || config.defaultLocale;
+    this.configuredLocales = new Set(config.supportedLocales.map(normalizeLocale));
+    this.manifest = config.manifest;
+    this.fallbackLocale = getPrimaryFallbackLocale(config);
     this.listeners = new Set();
     this.debug = config.debug || false;
 
@@ -169,9 +183,9 @@ export class LocaleManager {
   private determineInitialLocale(initialLocale: string | undefined, defaultLocale: string): string {
     // Priority 1: Explicitly provided initial locale
     if (initialLocale) {
-      const normalized = normalizeLocale(initialLocale);
-      if (this.isLocaleSupported(normalized)) {
-        return normalized;
+      const resolved = resolveSupportedLocale(initialLocale, this.getSupportedLocaleCodes());
+      if (resolved) {
+        return resolved;
       }
       if (this.debug) {
         console.warn(`[i18n] Provided initial locale "${initialLocale}" is not supported. Falling back.`);
@@ -181,17 +195,17 @@ export class LocaleManager {
     // Priority 2: Persisted locale from localStorage
     const persistedLocale = getPersistedLocale();
     if (persistedLocale) {
-      const normalized = normalizeLocale(persistedLocale);
-      if (this.isLocaleSupported(normalized)) {
+      const resolved = resolveSupportedLocale(persistedLocale, this.getSupportedLocaleCodes());
+      if (resolved) {
         if (this.debug) {
-          console.warn('[i18n] Using persisted locale:', normalized);
+          console.warn('[i18n] Using persisted locale:', resolved);
         }
-        return normalized;
+        return resolved;
       }
     }
 
     // Priority 3: Detected browser locale
-    const detectedLocale = detectBrowserLocale(this.supportedLocales, defaultLocale);
+    const detectedLocale = detectBrowserLocale(this.getSupportedLocaleCodes(), defaultLocale);
     if (detectedLocale !== defaultLocale) {
       if (this.debug) {
         console.warn('[i18n] Using detected browser locale:', detectedLocale);
@@ -216,20 +230,64 @@ export class LocaleManager {
 
   /**
    * Get information about all supported locales
+   * Includes the locales discovered in the manifest, with their completeness
+   * and last update
    * @returns Array of locale information objects
    */
   getSupportedLocales(): LocaleInfo[] {
-    return this.supportedLocales.map((code) => this.getLocaleInfo(code));
+    return this.getSupportedLocaleCodes().map((code) => {
+      const info = this.getLocaleInfo(code);
+      if (!this.manifest?.isLoaded()) {
+        return info;
+      }
+
+      const { completeness, updatedAt } = this.manifest.getLocaleMetadata(code);
+      return {
+        ...info,
+        ...(completeness !== undefined && { completeness }),
+        ...(updatedAt !== undefined && { updatedAt }),
+      };
+    });
+  }
+
+  /**
+   * Get the supported locale codes: the configured locales followed by the
+   * locales listed in the manifest once it is loaded
+   * Cheaper than getSupportedLocales, which builds the locale metadata
+   * @returns Canonical locale codes
+   */
+  getSupportedLocaleCodes(): string[] {
+    if (!this.manifest?.isLoaded()) {
+      return this.supportedLocales;
+    }
+
+    const discovered = this.manifest.getLocales().filter((locale) => !this.configuredLocales.has(locale));
+    return discovered.length > 0 ? [...this.supportedLocales, ...discovered] : this.supportedLocales;
   }
 
   /**
    * Get information about a specific locale
+   * Regional tags (e.g. "en-GB") inherit the metadata of their base language
+   * and get their names from Intl.DisplayNames when available
    * @param locale - The locale code
    * @returns Locale information object
    */
   getLocaleInfo(locale: string): LocaleInfo {
     const normalized = normalizeLocale(locale);
     const metadata = LOCALE_METADATA[normalized];
+    const baseMetadata = LOCALE_METADATA[getLanguageCode(normalized)];
+
+    if (!metadata && baseMetadata) {
+      const name = new DisplayNamesService('en').language(normalized);
+      const nativeName = new DisplayNamesService(normalized).language(normalized);
+
+      return {
+        code: normalized,
+        name: name !== normalized ? name : baseMetadata.name,
+        nativeName: nativeName !== normalized ? nativeName : baseMetadata.nativeName,
+        direction: baseMetadata.direction,
+      };
+    }
 
     if (!metadata) {
       // Return default metadata for unknown locales
@@ -247,18 +305,31 @@ export class LocaleManager {
     };
   }
 
+  /**
+   * Resolve a requested locale to the supported locale that serves it
+   * Example: "en-us" resolves to "en-US" if supported, otherwise to "en"
+   * @param locale - The requested locale code
+   * @returns The canonical supported locale code
+   * @throws {InvalidLocaleError} If the locale is not supported
+   */
+  resolveLocale(locale: string): string {
+    const resolved = resolveSupportedLocale(locale, this.getSupportedLocaleCodes());
+
+    if (!resolved) {
+      throw new InvalidLocaleError(normalizeLocale(locale) || locale, this.getSupportedLocaleCodes());
+    }
+
+    return resolved;
+  }
+
   /**
    * Set the current locale
    * @param locale - The locale code to set
    * @throws {InvalidLocaleError} If the locale is not supported
    */
   async setLocale(locale: string): Promise<void> {
-    const normalized = normalizeLocale(locale);
-
     // Validate locale
-    if (!this.isLocaleSupported(normalized)) {
-      throw new InvalidLocaleError(normalized, this.supportedLocales);
-    }
+    const normalized = this.resolveLocale(locale);
 
     // Check if locale is already current
     if (normalized === this.currentLocale) {
@@ -287,7 +358,7 @@ export class LocaleManager {
    * @returns The detected locale code
    */
   detectBrowserLocale(): string {
-    return detectBrowserLocale(this.supportedLocales, this.fallbackLocale);
+    return detectBrowserLocale(this.getSupportedLocaleCodes(), this.fallbackLocale);
   }
 
   /**
@@ -296,7 +367,7 @@ export class LocaleManager {
    * @returns true if the locale is supported, false otherwise
    */
   isLocaleSupported(locale: string): boolean {
-    return isLocaleSupported(locale, this.supportedLocales);
+    return isLocaleSupported(locale, this.getSupportedLocaleCodes());
   }
 
   /**
@@ -0,0 +1,590 @@
+/**
+ * ICU MessageFormat support
+ *
+ * Handles:
+ * - Parsing ICU message syntax into an AST
+ * - Simple arguments ({name}) and typed arguments ({n, number}, {d, date, long})
+ * - plural, selectordinal and select arguments with nesting
+ * - '#' substitution inside plural branches
+ * - Apostrophe escaping ('' and quoted literals like '{braces}')
+ * - Caching of parsed messages
+ */
+
+import { MessageFormatError, PluralForm } from '../types';
+import { getPluralForm } from '../utils/cldr-rules';
+import { FormatService } from './format-service';
+
+// ============================================================================
+// AST Types
+// ============================================================================
+
+/**
+ * Literal text segment
+ */
+export interface TextNode {
+  type: 'text';
+  value: string;
+}
+
+/**
+ * Simple argument: {name}
+ */
+export interface ArgumentNode {
+  type: 'argument';
+  name: string;
+}
+
+/**
+ * Formatted argument: {name, number}, {name, date, short}, {name, time}
+ */
+export interface FormattedArgumentNode {
+  type: 'number' | 'date' | 'time';
+  name: string;
+  style?: string;
+}
+
+/**
+ * Plural or selectordinal argument
+ */
+export interface PluralNode {
+  type: 'plural';
+  name: string;
+  ordinal: boolean;
+  offset: number;
+  options: Record<string, MessageNode[]>;
+}
+
+/**
+ * Select argument: {gender, select, male {...} other {...}}
+ */
+export interface SelectNode {
+  type: 'select';
+  name: string;
+  options: Record<string, MessageNode[]>;
+}
+
+/**
+ * '#' placeholder inside a plural branch
+ */
+export interface PoundNode {
+  type: 'pound';
+}
+
+/**
+ * Any node of a parsed message
+ */
+export type MessageNode =
+  | TextNode
+  | ArgumentNode
+  | FormattedArgumentNode
+  | PluralNode
+  | SelectNode
+  | PoundNode;
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+const PLURAL_KEYWORDS: PluralForm[] = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+/**
+ * Recursive-descent parser for ICU message syntax
+ */
+class MessageParser {
+  private pos = 0;
+
+  constructor(private readonly message: string) {}
+
+  /**
+   * Parse the whole message
+   */
+  parse(): MessageNode[] {
+    const nodes = this.parseMessage(false);
+
+    if (this.pos < this.message.length) {
+      throw this.error(`Unexpected "${this.message[this.pos]}"`);
+    }
+
+    return nodes;
+  }
+
+  /**
+   * Parse a message until the end of input or a closing brace
+   *
+   * @param inPlural - Whether '#' should be treated as a placeholder
+   */
+  private parseMessage(inPlural: boolean): MessageNode[] {
+    const nodes: MessageNode[] = [];
+    let text = '';
+
+    const flushText = () => {
+      if (text) {
+        nodes.push({ type: 'text', value: text });
+        text = '';
+      }
+    };
+
+    while (this.pos < this.message.length) {
+      const char = this.message[this.pos]!;
+
+      if (char === '}') {
+        break;
+      }
+
+      if (char === '{') {
+        flushText();
+        nodes.push(this.parseArgument(inPlural));
+        continue;
+      }
+
+      if (char === '#' && inPlural) {
+        flushText();
+        nodes.push({ type: 'pound' });
+        this.pos++;
+        continue;
+      }
+
+      if (char === "'") {
+        text += this.parseApostrophe(inPlural);
+        continue;
+      }
+
+      text += char;
+      this.pos++;
+    }
+
+    flushText();
+    return nodes;
+  }
+
+  /**
+   * Parse apostrophe escaping
+   * - '' is a literal apostrophe
+   * - '{...}' quotes syntax characters until the next single apostrophe
+   * - Any other apostrophe is a literal apostrophe
+   */
+  private parseApostrophe(inPlural: boolean): string {
+    const next = this.message[this.pos + 1];
+
+    if (next === "'") {
+      this.pos += 2;
+      return "'";
+    }
+
+    const startsQuote = next === '{' || next === '}' || next === '|' || (inPlural && next === '#');
+    if (!startsQuote) {
+      this.pos++;
+      return "'";
+    }
+
+    // Quoted literal
+    this.pos++;
+    let quoted = '';
+    while (this.pos < this.message.length) {
+      const char = this.message[this.pos]!;
+      if (char === "'") {
+        if (this.message[this.pos + 1] === "'") {
+          quoted += "'";
+          this.pos += 2;
+          continue;
+        }
+        this.pos++;
+        return quoted;
+      }
+      quoted += char;
+      this.pos++;
+    }
+
+    // Unterminated quote runs to the end of the message
+    return quoted;
+  }
+
+  /**
+   * Parse an argument starting at '{'
+   *
+   * @param inPlural - Whether the argument is nested inside a plural branch
+   */
+  private parseArgument(inPlural: boolean): MessageNode {
+    this.expect('{');
+    this.skipWhitespace();
+
+    const name = this.parseIdentifier();
+    if (!name) {
+      throw this.error('Expected argument name');
+    }
+
+    this.skipWhitespace();
+
+    if (this.peek() === '}') {
+      this.pos++;
+      return { type: 'argument', name };
+    }
+
+    this.expect(',');
+    this.skipWhitespace();
+    const argType = this.parseIdentifier();
+    this.skipWhitespace();
+
+    switch (argType) {
+      case 'number':
+      case 'date':
+      case 'time':
+        return this.parseFormattedArgument(argType, name);
+      case 'plural':
+      case 'selectordinal':
+        return this.parsePlural(name, argType === 'selectordinal');
+      case 'select':
+        return this.parseSelect(name, inPlural);
+      default:
+        throw this.error(`Unknown argument type "${argType}"`);
+    }
+  }
+
+  /**
+   * Parse {name, number|date|time[, style]}
+   */
+  private parseFormattedArgument(
+    type: FormattedArgumentNode['type'],
+    name: string
+  ): FormattedArgumentNode {
+    if (this.peek() === '}') {
+      this.pos++;
+      return { type, name };
+    }
+
+    this.expect(',');
+    const start = this.pos;
+    while (this.pos < this.message.length && this.peek() !== '}') {
+      this.pos++;
+    }
+    const style = this.message.slice(start, this.pos).trim();
+    this.expect('}');
+
+    return style ? { type, name, style } : { type, name };
+  }
+
+  /**
+   * Parse {name, plural|selectordinal, [offset:n] selector {message} ...}
+   */
+  private parsePlural(name: string, ordinal: boolean): PluralNode {
+    this.expect(',');
+    this.skipWhitespace();
+
+    let offset = 0;
+    if (this.message.startsWith('offset:', this.pos)) {
+      this.pos += 'offset:'.length;
+      this.skipWhitespace();
+      const value = this.parseIdentifier();
+      offset = Number(value);
+      if (!value || Number.isNaN(offset)) {
+        throw this.error('Invalid plural offset');
+      }
+    }
+
+    const options = this.parseOptions(true, (selector) =>
+      /^=-?\d+(\.\d+)?$/.test(selector) || PLURAL_KEYWORDS.includes(selector as PluralForm)
+    );
+
+    return { type: 'plural', name, ordinal, offset, options };
+  }
+
+  /**
+   * Parse {name, select, key {message} ...}
+   */
+  private parseSelect(name: string, inPlural: boolean): SelectNode {
+    this.expect(',');
+    const options = this.parseOptions(inPlural, () => true);
+    return { type: 'select', name, options };
+  }
+
+  /**
+   * Parse the selector/message pairs of a plural or select argument
+   */
+  private parseOptions(
+    inPlural: boolean,
+    isValidSelector: (selector: string) => boolean
+  ): Record<string, MessageNode[]> {
+    const options: Record<string, MessageNode[]> = {};
+
+    this.skipWhitespace();
+    while (this.peek() !== '}') {
+      if (this.pos >= this.message.length) {
+        throw this.error('Unterminated argument');
+      }
+
+      const selector = this.parseIdentifier();
+      if (!selector || !isValidSelector(selector)) {
+        throw this.error(`Invalid selector "${selector}"`);
+      }
+      if (options[selector]) {
+        throw this.error(`Duplicate selector "${selector}"`);
+      }
+
+      this.skipWhitespace();
+      this.expect('{');
+      options[selector] = this.parseMessage(inPlural);
+      this.expect('}');
+      this.skipWhitespace();
+    }
+    this.expect('}');
+
+    if (!options.other) {
+      throw this.error('Missing "other" option');
+    }
+
+    return options;
+  }
+
+  /**
+   * Read an identifier (argument name, type, selector)
+   */
+  private parseIdentifier(): string {
+    const start = this.pos;
+    while (this.pos < this.message.length && !/[\s,{}#']/.test(this.message[this.pos]!)) {
+      this.pos++;
+    }
+    return this.message.slice(start, this.pos);
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.message.length && /\s/.test(this.message[this.pos]!)) {
+      this.pos++;
+    }
+  }
+
+  private peek(): string | undefined {
+    return this.message[this.pos];
+  }
+
+  private expect(char: string): void {
+    if (this.message[this.pos] !== char) {
+      throw this.error(`Expected "${char}"`);
+    }
+    this.pos++;
+  }
+
+  private error(reason: string): MessageFormatError {
+    return new MessageFormatError(this.message, `${reason} at position ${this.pos}`);
+  }
+}
+
+/**
+ * Parse an ICU message into an AST
+ *
+ * @param message - The ICU message string
+ * @returns The parsed message nodes
+ * @throws {MessageFormatError} If the message is malformed
+ */
+export function parseMessage(message: string): MessageNode[] {
+  return new MessageParser(message).parse();
+}
+
+// ============================================================================
+// Formatter
+// ============================================================================
+
+/**
+ * Options for the MessageFormatter
+ */
+export interface MessageFormatterOptions {
+  /** Transform applied to argument values (e.g. HTML escaping) */
+  escape?: (value: string) => string;
+  /** Maximum number of parsed messages to keep. Default: 1000 */
+  cacheSize?: number;
+}
+
+const DEFAULT_CACHE_SIZE = 1000;
+
+/**
+ * Formats ICU messages with a per-message AST cache
+ */
+export class MessageFormatter {
+  private readonly cache: Map<string, MessageNode[]> = new Map();
+  private readonly cacheSize: number;
+  private readonly escape: (value: string) => string;
+
+  // Cache of FormatService instances per locale
+  private readonly formatServices: Map<string, FormatService> = new Map();
+
+  constructor(options: MessageFormatterOptions = {}) {
+    this.escape = options.escape ?? ((value) => value);
+    this.cacheSize = options.cacheSize ?? DEFAULT_CACHE_SIZE;
+  }
+
+  /**
+   * Format a message with the given values
+   *
+   * @param locale - The locale used for plural rules and number/date formatting
+   * @param message - The ICU message string
+   * @param values - Argument values
+   * @param escape - Transform applied to argument values (default: options.escape)
+   * @returns The formatted string
+   * @throws {MessageFormatError} If the message is malformed
+   */
+  format(
+    locale: string,
+    message: string,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    values: Record<string, any> = {},
+    escape: (value: string) => string = this.escape
+  ): string {
+    const missing: string[] = [];
+    const result = this.formatNodes(this.getAst(message), locale, values, missing, null, escape);
+
+    if (missing.length > 0 && process.env.NODE_ENV !== 'production') {
+      console.warn(`[i18n] Missing interpolation values: ${missing.join(', ')}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the cached AST for a message, parsing it on first use
+   * When the cache is full, the oldest message is dropped
+   */
+  getAst(message: string): MessageNode[] {
+    let ast = this.cache.get(message);
+    if (!ast) {
+      ast = parseMessage(message);
+      if (this.cache.size >= this.cacheSize) {
+        const oldest = this.cache.keys().next();
+        if (!oldest.done) {
+          this.cache.delete(oldest.value);
+        }
+      }
+      this.cache.set(message, ast);
+    }
+    return ast;
+  }
+
+  /**
+   * Clear the parsed message cache
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Get the cached FormatService for a locale
+   */
+  private getFormatService(locale: string): FormatService {
+    let formatService = this.formatServices.get(locale);
+
+    if (!formatService) {
+      formatService = new FormatService(locale);
+      this.formatServices.set(locale, formatService);
+    }
+
+    return formatService;
+  }
+
+  private formatNodes(
+    nodes: MessageNode[],
+    locale: string,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    values: Record<string, any>,
+    missing: string[],
+    pluralValue: number | null,
+    escape: (value: string) => string
+  ): string {
+    let result = '';
+
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          result += node.value;
+          break;
+
+        case 'pound':
+          result += pluralValue === null ? '#' : new Intl.NumberFormat(locale).format(pluralValue);
+          break;
+
+        case 'argument': {
+          const value = values[node.name];
+          if (value === undefined || value === null) {
+            missing.push(node.name);
+            result += `{${node.name}}`;
+          } else {
+            result += escape(String(value));
+          }
+          break;
+        }
+
+        case 'number':
+        case 'date':
+        case 'time': {
+          const value = values[node.name];
+          if (value === undefined || value === null) {
+            missing.push(node.name);
+            result += `{${node.name}}`;
+          } else {
+            result += escape(this.formatValue(node, locale, value));
+          }
+          break;
+        }
+
+        case 'plural': {
+          const raw = values[node.name];
+          if (raw === undefined || raw === null) {
+            missing.push(node.name);
+          }
+          const value = Number(raw ?? 0);
+          const branch = this.selectPluralBranch(node, locale, value);
+          result += this.formatNodes(branch, locale, values, missing, value - node.offset, escape);
+          break;
+        }
+
+        case 'select': {
+          const value = values[node.name];
+          const branch = node.options[String(value)] ?? node.options.other!;
+          result += this.formatNodes(branch, locale, values, missing, pluralValue, escape);
+          break;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Pick the branch of a plural argument: exact '=n' matches win over categories
+   */
+  private selectPluralBranch(node: PluralNode, locale: string, value: number): MessageNode[] {
+    const exact = node.options[`=${value}`];
+    if (exact) {
+      return exact;
+    }
+
+    const form = getPluralForm(locale, value - node.offset, node.ordinal);
+    return node.options[form] ?? node.options.other!;
+  }
+
+  /**
+   * Format a typed number/date/time argument
+   */
+  private formatValue(
+    node: FormattedArgumentNode,
+    locale: string,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    value: any
+  ): string {
+    const formatter = this.getFormatService(locale);
+
+    if (node.type === 'number') {
+      const number = Number(value);
+      switch (node.style) {
+        case 'integer':
+          return formatter.number(number, { maximumFractionDigits: 0 });
+        case 'percent':
+          return formatter.percentage(number);
+        default:
+          return formatter.number(number);
+      }
+    }
+
+    const date = value instanceof Date ? value : new Date(value);
+    const style = (node.style ?? 'medium') as 'short' | 'medium' | 'long' | 'full';
+
+    return node.type === 'date' ? formatter.date(date, style) : formatter.time(date, style);
+  }
+}
@@ -7,32 +7,43 @@
  * - Contextual pluralization (gender, formality)
  * - Interval-based pluralization
  * - Fallback to 'other' form when specific form is missing
+ * - Decimal-aware selection using the CLDR operands of the displayed count
+ * - Plural ranges ("3–5 days") using CLDR plural range rules
  */
 
-import { PluralForm } from "../types";
-import { getPluralForm } from "../utils/cldr-rules";
+import { PluralForm, PluralOperands } from "../types";
+import { getPluralForm, getPluralOperands, getPluralRangeForm } from "../utils/cldr-rules";
 
 export class Pluralizer {
+  // Cached number formats, keyed by locale and options
+  private numberFormats: Map<string, Intl.NumberFormat> = new Map();
+
   /**
    * Pluralize a translation based on count and locale
    * 
    * @param locale - The current locale
-   * @param count - The count to determine plural form
+   * @param count - The count (a number, or a pre-formatted number such as "1.0")
    * @param translations - Object containing plural translations
    * @param ordinal - Whether to use ordinal pluralization
    * @param context - Optional context for contextual pluralization
+   * @param format - Number format used to display the count
    * @returns The appropriate plural translation
    */
   pluralize(
     locale: string,
-    count: number,
+    count: number | string,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     translations: Record<string, any>,
     ordinal: boolean = false,
-    context?: string
+    context?: string,
+    format?: Intl.NumberFormatOptions
   ): string {
+    const decimal = this.getDisplayedDecimal(locale, count, format);
+    const operands = getPluralOperands(decimal);
+    const value = parseFloat(decimal);
+
     // Handle interval-based pluralization first
-    const intervalResult = this.tryIntervalPluralization(count, translations);
+    const intervalResult = this.tryIntervalPluralization(value, translations);
     if (intervalResult !== null) {
       return intervalResult;
     }
@@ -43,7 +54,7 @@ export class Pluralizer {
       if (typeof contextualTranslations === 'object') {
         const contextualResult = this.selectPluralTranslation(
           locale,
-          count,
+          operands,
           contextualTranslations,
           ordinal
         );
@@ -54,40 +65,218 @@ export class Pluralizer {
     }
 
     // Standard pluralization
-    return this.selectPluralTranslation(locale, count, translations, ordinal) || String(count);
+    return this.selectPluralTranslation(locale, operands, translations, ordinal) || String(count);
+  }
+
+  /**
+   * Pluralize a translation for a numeric range
+   * 
+   * @param locale - The current locale
+   * @param range - The start and end of the range
+   * @param translations - Object containing plural translations
+   * @param context - Optional context for contextual pluralization
+   * @param format - Number format used to display the range ends
+   * @returns The appropriate plural translation
+   */
+  pluralizeRange(
+    locale: string,
+    range: [number, number],
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    translations: Record<string, any>,
+    context?: string,
+    format?: Intl.NumberFormatOptions
+  ): string {
+    const [start, end] = range;
+    const form = getPluralRangeForm(
+      locale,
+      this.getCountOperands(locale, start, format),
+      this.getCountOperands(locale, end, format)
+    );
+
+    // Handle contextual pluralization
+    const contextualTranslations = context ? translations[context] : undefined;
+    if (typeof contextualTranslations === 'object' && contextualTranslations !== null) {
+      const contextualResult = this.selectFormTranslation(form, contextualTranslations);
+      if (contextualResult !== null) {
+        return contextualResult;
+      }
+    }
+
+    return this.selectFormTranslation(form, translations) || `${start}–${end}`;
   }
 
   /**
    * Get the plural form for a given count and locale
    * 
    * @param locale - The locale code
-   * @param count - The count to determine plural form for
+   * @param count - The count (or its plural operands) to determine plural form for
    * @param ordinal - Whether to use ordinal rules
    * @returns The plural form (zero, one, two, few, many, other)
    */
-  getPluralForm(locale: string, count: number, ordinal: boolean = false): PluralForm {
+  getPluralForm(locale: string, count: number | PluralOperands, ordinal: boolean = false): PluralForm {
     return getPluralForm(locale, count, ordinal);
   }
 
+  /**
+   * Get the CLDR plural operands of a count as it will be displayed
+   * 
+   * @param locale - The locale code
+   * @param count - The count (a number, or a pre-formatted number such as "1.0")
+   * @param format - Number format used to display the count
+   * @returns The plural operands of the displayed count
+   */
+  getCountOperands(locale: string, count: number | string, format?: Intl.NumberFormatOptions): PluralOperands {
+    return getPluralOperands(this.getDisplayedDecimal(locale, count, format));
+  }
+
+  /**
+   * Format a count for substitution into {{count}}
+   * Numbers are left as-is unless a format is given; strings are already formatted
+   * 
+   * @param locale - The locale code
+   * @param count - The count
+   * @param format - Number format used to display the count
+   * @returns The count to substitute
+   */
+  formatCount(locale: string, count: number | string, format?: Intl.NumberFormatOptions): number | string {
+    if (typeof count === 'string' || !format) {
+      return count;
+    }
+    return this.getNumberFormat(locale, format).format(count);
+  }
+
+  /**
+   * Format a numeric range for substitution into {{count}} ("3–5")
+   * 
+   * @param locale - The locale code
+   * @param range - The start and end of the range
+   * @param format - Number format used to display the range ends
+   * @returns The formatted range
+   */
+  formatCountRange(locale: string, range: [number, number], format: Intl.NumberFormatOptions = {}): string {
+    const [start, end] = range;
+    // formatRange is not part of the ES2020 typings
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const numberFormat = this.getNumberFormat(locale, format) as any;
+
+    if (typeof numberFormat.formatRange === 'function') {
+      try {
+        return numberFormat.formatRange(start, end);
+      } catch {
+        // Fall through for runtimes that reject the range
+      }
+    }
+
+    return `${numberFormat.format(start)}–${numberFormat.format(end)}`;
+  }
+
+  /**
+   * Get the displayed value of a count as a plain decimal string ("-1.50")
+   * 
+   * @param locale - The locale code
+   * @param count - The count
+   * @param format - Number format used to display the count
+   * @returns The decimal string, keeping visible trailing zeros
+   */
+  private getDisplayedDecimal(locale: string, count: number | string, format?: Intl.NumberFormatOptions): string {
+    if (typeof count === 'string') {
+      return this.parseFormattedCount(locale, count);
+    }
+
+    if (!format) {
+      return String(count);
+    }
+
+    // Read the digits from the formatted parts, in Latin digits
+    const latinFormat = { ...format, numberingSystem: 'latn' } as Intl.NumberFormatOptions;
+    const parts = this.getNumberFormat(locale, latinFormat).formatToParts(count);
+    let decimal = '';
+    for (const part of parts) {
+      if (part.type === 'minusSign') {
+        decimal += '-';
+      } else if (part.type === 'integer' || part.type === 'fraction') {
+        decimal += part.value;
+      } else if (part.type === 'decimal') {
+        decimal += '.';
+      }
+    }
+    return decimal;
+  }
+
+  /**
+   * Extract the number from a pre-formatted count ("1.0 stars", "1,5")
+   * using the locale's decimal and grouping separators
+   * 
+   * @param locale - The locale code
+   * @param count - The formatted count
+   * @returns The decimal string, or an empty string if no number is found
+   */
+  private parseFormattedCount(locale: string, count: string): string {
+    const parts = this.getNumberFormat(locale, {}).formatToParts(10000.5);
+    const groupSeparator = parts.find(part => part.type === 'group')?.value;
+    const decimalSeparator = parts.find(part => part.type === 'decimal')?.value ?? '.';
+
+    let normalized = count.replace(/\u2212/g, '-');
+    if (groupSeparator) {
+      normalized = normalized.split(groupSeparator).join('');
+    }
+    normalized = normalized.split(decimalSeparator).join('.');
+
+    return /-?\d+(?:\.\d+)?/.exec(normalized)?.[0] ?? '';
+  }
+
+  /**
+   * Get a cached number format
+   * 
+   * @param locale - The locale code
+   * @param format - Number format options
+   * @returns The number format
+   */
+  private getNumberFormat(locale: string, format: Intl.NumberFormatOptions): Intl.NumberFormat {
+    const cacheKey = `${locale}:${JSON.stringify(format)}`;
+    let numberFormat = this.numberFormats.get(cacheKey);
+
+    if (!numberFormat) {
+      numberFormat = new Intl.NumberFormat(locale, format);
+      this.numberFormats.set(cacheKey, numberFormat);
+    }
+
+    return numberFormat;
+  }
+
   /**
    * Select the appropriate plural translation based on CLDR rules
    * 
    * @param locale - The current locale
-   * @param count - The count to determine plural form
+   * @param operands - The plural operands of the displayed count
    * @param translations - Object containing plural translations
    * @param ordinal - Whether to use ordinal pluralization
    * @returns The selected translation or null if not found
    */
   private selectPluralTranslation(
     locale: string,
-    count: number,
+    operands: PluralOperands,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     translations: Record<string, any>,
     ordinal: boolean
   ): string | null {
     // Get the plural form for this count and locale
-    const form = this.getPluralForm(locale, count, ordinal);
+    const form = this.getPluralForm(locale, operands, ordinal);
+    return this.selectFormTranslation(form, translations);
+  }
 
+  /**
+   * Select the translation for a plural form
+   * 
+   * @param form - The plural form
+   * @param translations - Object containing plural translations
+   * @returns The selected translation or null if not found
+   */
+  private selectFormTranslation(
+    form: PluralForm,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    translations: Record<string, any>
+  ): string | null {
     // Try to get the translation for the specific form
     if (translations[form] !== undefined) {
       return String(translations[form]);
@@ -0,0 +1,126 @@
+/**
+ * Rich text parsing for translations containing tag placeholders
+ *
+ * Handles:
+ * - Paired tags: "Read the <link>terms</link>"
+ * - Self-closing tags: "Line one<br/>Line two"
+ * - Nested tags: "<bold>Very <italic>important</italic></bold>"
+ * - Unmatched tags are kept as literal text
+ *
+ * The parser is framework-agnostic; the React renderer maps the
+ * resulting nodes to elements.
+ */
+
+/**
+ * Element node produced by a tag placeholder
+ */
+export interface RichTextElement {
+  /** Tag name used to look up the component */
+  tag: string;
+  /** Child nodes between the opening and closing tag */
+  children: RichTextNode[];
+}
+
+/**
+ * Node of a parsed rich text translation (plain text or element)
+ */
+export type RichTextNode = string | RichTextElement;
+
+/**
+ * Open tag awaiting its closing tag
+ */
+interface OpenTag {
+  tag: string;
+  raw: string;
+  children: RichTextNode[];
+}
+
+/**
+ * Parse a translated string containing tag placeholders
+ *
+ * @param text - The translated string
+ * @returns The parsed nodes
+ */
+export function parseRichText(text: string): RichTextNode[] {
+  const root: RichTextNode[] = [];
+  const stack: OpenTag[] = [];
+  const current = () => stack[stack.length - 1]?.children ?? root;
+
+  const tagRegex = /<(\/?)([A-Za-z0-9_-]+)\s*(\/?)>/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagRegex.exec(text)) !== null) {
+    const [raw, closing, tag, selfClosing] = match;
+    appendText(current(), text.slice(lastIndex, match.index));
+    lastIndex = match.index + raw.length;
+
+    if (selfClosing) {
+      current().push({ tag: tag!, children: [] });
+    } else if (!closing) {
+      stack.push({ tag: tag!, raw, children: [] });
+    } else if (stack[stack.length - 1]?.tag === tag) {
+      const open = stack.pop()!;
+      current().push({ tag: open.tag, children: open.children });
+    } else {
+      // Closing tag without a matching opening tag
+      appendText(current(), raw);
+    }
+  }
+
+  appendText(current(), text.slice(lastIndex));
+
+  // Unclosed tags are kept as literal text
+  while (stack.length > 0) {
+    const open = stack.pop()!;
+    const parent = current();
+    appendText(parent, open.raw);
+    for (const child of open.children) {
+      if (typeof child === 'string') {
+        appendText(parent, child);
+      } else {
+        parent.push(child);
+      }
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Append text to a node list, merging with a preceding text node
+ */
+function appendText(nodes: RichTextNode[], text: string): void {
+  if (!text) {
+    return;
+  }
+
+  const last = nodes[nodes.length - 1];
+  if (typeof last === 'string') {
+    nodes[nodes.length - 1] = last + text;
+  } else {
+    nodes.push(text);
+  }
+}
+
+/**
+ * Reverse the HTML escaping applied by the Interpolator
+ *
+ * Rich text is rendered as text nodes (which React escapes itself), so the
+ * entities produced by interpolation must be decoded after tags are parsed.
+ *
+ * @param value - The escaped string
+ * @returns The unescaped string
+ */
+export function unescapeHtml(value: string): string {
+  const htmlUnescapeMap: Record<string, string> = {
+    '&amp;': '&',
+    '&lt;': '<',
+    '&gt;': '>',
+    '&quot;': '"',
+    '&#39;': "'",
+    '&#x2F;': '/',
+  };
+
+  return value.replace(/&(amp|lt|gt|quot|#39|#x2F);/g, (entity) => htmlUnescapeMap[entity] || entity);
+}
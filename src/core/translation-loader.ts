@@ -1,103 +1,198 @@
 /**
- * TranslationLoader class for dynamically loading translation files
+ * TranslationLoader class for loading translation files
  * 
  * Handles:
- * - Dynamic imports of translation files
+ * - Reading translation files through the configured backend
  * - Path resolution for translation files
- * - Graceful error handling
- * - Custom load paths from configuration
+ * - Retries with exponential backoff and per-attempt timeouts
+ * - Cancellation through AbortSignal
+ * - Custom load paths and manifest URLs from configuration
  */
 
-import { I18nConfig, TranslationNamespace } from "../types";
+import { I18nConfig, TranslationBackend, TranslationLoadError, TranslationNamespace } from "../types";
+import { FetchBackend } from "../backends/fetch-backend";
+import { DEFAULT_LOAD_PATH, resolveLoadPath } from "../backends/load-path";
+import type { TranslationManifest } from "./translation-manifest";
 
 export class TranslationLoader {
   private readonly loadPath: string;
   private readonly debug: boolean;
+  private readonly backend: TranslationBackend;
+  private readonly manifest?: TranslationManifest;
+  private readonly retries: number;
+  private readonly retryDelay: number;
+  private readonly maxRetryDelay: number;
+  private readonly timeout: number;
 
   constructor(config: I18nConfig) {
     // Default load path: locales/{{locale}}/{{namespace}}.json
-    this.loadPath = config.loadPath ?? 'locales/{{locale}}/{{namespace}}.json';
+    this.loadPath = config.loadPath ?? DEFAULT_LOAD_PATH;
     this.debug = config.debug ?? false;
+    // Default backend: fetch translation files as static assets
+    this.manifest = config.manifest;
+    this.backend = config.backend ?? new FetchBackend({ loadPath: this.loadPath, manifest: this.manifest });
+    this.retries = Math.max(0, config.loading?.retries ?? 2);
+    this.retryDelay = config.loading?.retryDelay ?? 300;
+    this.maxRetryDelay = config.loading?.maxRetryDelay ?? 5000;
+    this.timeout = config.loading?.timeout ?? 10000;
   }
 
   /**
    * Load a translation file for a specific locale and namespace
+   * Failed attempts are retried with exponential backoff, except for
+   * client errors such as 404 that will not succeed on retry
    * 
    * @param locale - The locale code (e.g., 'en', 'es', 'fr')
    * @param namespace - The namespace (e.g., 'common', 'auth')
+   * @param signal - Optional abort signal; aborting cancels the request and pending retries
    * @returns Promise resolving to the translation namespace object
-   * @throws TranslationLoadError if loading fails
+   * @throws {TranslationLoadError} If every attempt fails
+   * @throws The abort reason if the signal is aborted
    */
-  async loadTranslation(locale: string, namespace: string): Promise<TranslationNamespace> {
-    try {
-      const path = this.getLoadPath(locale, namespace);
-      
+  async loadTranslation(locale: string, namespace: string, signal?: AbortSignal): Promise<TranslationNamespace> {
+    const path = this.getLoadPath(locale, namespace);
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= this.retries; attempt++) {
+      if (attempt > 0) {
+        const delay = Math.min(this.retryDelay * 2 ** (attempt - 1), this.maxRetryDelay);
+        if (this.debug) {
+          console.warn(`[i18n] Retrying ${path} in ${delay}ms (attempt ${attempt + 1}/${this.retries + 1})`);
+        }
+        await wait(delay, signal);
+      }
+
       if (this.debug) {
         console.warn(`[i18n] Loading translation: ${path}`);
       }
 
-      const translation = await this.resolveTranslationFile(locale, namespace);
+      try {
+        const translation = await this.readWithTimeout(locale, namespace, signal);
 
-      if (this.debug) {
-        console.warn(`[i18n] Successfully loaded: ${path}`);
-      }
+        if (this.debug) {
+          console.warn(`[i18n] Successfully loaded: ${path}`);
+        }
 
-      return translation;
-    } catch (error) {
-      if (this.debug) {
-        console.error(
-          `[i18n] Failed to load translation: ${locale}/${namespace}`,
-          error
-        );
+        return translation;
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        lastError = error;
+
+        if (!isRetryable(error)) {
+          break;
+        }
       }
+    }
 
-      // Return empty object instead of throwing to allow graceful degradation
-      // The TranslationStore will track missing keys
-      return {};
+    if (this.debug) {
+      console.error(
+        `[i18n] Failed to load translation: ${locale}/${namespace}`,
+        lastError
+      );
     }
+
+    throw lastError instanceof TranslationLoadError
+      ? lastError
+      : new TranslationLoadError(
+          locale,
+          namespace,
+          lastError instanceof Error ? lastError : new Error(String(lastError))
+        );
   }
 
   /**
    * Get the resolved load path for a locale and namespace
+   * The manifest URL takes precedence once the manifest is loaded
    * 
    * @param locale - The locale code
    * @param namespace - The namespace
    * @returns The resolved file path
    */
   getLoadPath(locale: string, namespace: string): string {
-    return this.loadPath
-      .replace('{{locale}}', locale)
-      .replace('{{namespace}}', namespace)
-      .replace('{{lng}}', locale) // Alternative placeholder
-      .replace('{{ns}}', namespace); // Alternative placeholder
+    return this.manifest?.getUrl(locale, namespace) ?? resolveLoadPath(this.loadPath, locale, namespace);
   }
 
   /**
-   * Dynamically import a translation file
+   * Read from the backend, aborting the attempt when the timeout elapses
    * 
    * @param locale - The locale code
    * @param namespace - The namespace
+   * @param signal - Optional abort signal of the caller
    * @returns Promise resolving to the translation data
    */
-  private async resolveTranslationFile(
+  private async readWithTimeout(
     locale: string,
-    namespace: string
+    namespace: string,
+    signal?: AbortSignal
   ): Promise<TranslationNamespace> {
-    // Construct the path relative to the project root
-    const path = this.getLoadPath(locale, namespace);
-    
-    // Ensure path starts with / for absolute path from public root
-    const fetchPath = path.startsWith('/') ? path : `/${path}`;
-    
-    // Use fetch to load translation files as static assets
-    // This works in both development and production
-    const response = await fetch(fetchPath);
-    
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    if (this.timeout <= 0) {
+      return this.backend.read(locale, namespace, signal);
+    }
+
+    // Attempt-scoped controller, aborted by the caller's signal or the timeout
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
+    if (signal?.aborted) {
+      controller.abort();
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new TranslationLoadError(locale, namespace, new Error(`Timed out after ${this.timeout}ms`)));
+      }, this.timeout);
+    });
+
+    try {
+      // Race the timeout so backends that ignore the signal are cut off too
+      return await Promise.race([this.backend.read(locale, namespace, controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
     }
-    
-    const data = await response.json();
-    return data;
   }
 }
+
+/**
+ * Check whether a failed load may succeed when retried
+ * Client errors other than timeouts and rate limiting (e.g. 404) are final
+ */
+function isRetryable(error: unknown): boolean {
+  const status = error instanceof TranslationLoadError ? error.status : undefined;
+  return status === undefined || status < 400 || status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * Wait for a delay, rejecting early if the signal is aborted
+ */
+function wait(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Create the error used for aborted loads
+ */
+function createAbortError(): Error {
+  const error = new Error('Translation load aborted');
+  error.name = 'AbortError';
+  return error;
+}
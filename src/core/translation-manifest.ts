@@ -0,0 +1,295 @@
+/**
+ * TranslationManifest class for content-hashed catalog URLs
+ * 
+ * Handles:
+ * - Loading a manifest JSON (locale -> namespace -> URL and metadata)
+ * - Resolving catalog URLs relative to the manifest URL
+ * - Listing the locales and namespaces the manifest provides
+ * - Refreshing the manifest to pick up new deployments
+ * 
+ * Manifest format:
+ * ```json
+ * {
+ *   "version": "2025-01-15",
+ *   "locales": {
+ *     "en": { "common": { "url": "en/common.3f2a1b.json", "completeness": 1, "updatedAt": "2025-01-15T10:00:00Z" } },
+ *     "de": { "common": "de/common.9c8d7e.json" }
+ *   }
+ * }
+ * ```
+ */
+
+import { ManifestLoadError } from '../types';
+import type { ManifestChange, ManifestEntry, TranslationManifestData } from '../types';
+import { normalizeLocale } from '../utils/locale-detector';
+
+/**
+ * TranslationManifest options
+ */
+export interface TranslationManifestOptions {
+  /** URL of the manifest JSON */
+  url?: string;
+  /** Inline manifest data (used instead of fetching `url` until refreshed) */
+  data?: TranslationManifestData;
+  /** Request options passed to fetch */
+  requestInit?: RequestInit;
+  /** Custom fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Listener for manifest changes
+ */
+export type ManifestChangeListener = (changes: ManifestChange[]) => void;
+
+export class TranslationManifest {
+  private readonly url?: string;
+  private readonly requestInit?: RequestInit;
+  private readonly fetchImpl?: typeof fetch;
+
+  // Catalog entries keyed by canonical locale, then namespace
+  private entries: Map<string, Map<string, ManifestEntry>> = new Map();
+  private data: TranslationManifestData | null = null;
+  private loading: Promise<TranslationManifestData> | null = null;
+  private readonly listeners: Set<ManifestChangeListener> = new Set();
+
+  constructor(options: TranslationManifestOptions) {
+    this.url = options.url;
+    this.requestInit = options.requestInit;
+    this.fetchImpl = options.fetch;
+
+    if (options.data) {
+      this.apply(options.data);
+    }
+  }
+
+  /**
+   * Check if the manifest data is available
+   */
+  isLoaded(): boolean {
+    return this.data !== null;
+  }
+
+  /**
+   * Load the manifest if it is not loaded yet
+   * Concurrent calls share one request
+   * 
+   * @returns Promise resolving to the manifest data
+   * @throws {ManifestLoadError} If the manifest cannot be loaded
+   */
+  async load(): Promise<TranslationManifestData> {
+    if (this.data) {
+      return this.data;
+    }
+
+    if (!this.loading) {
+      this.loading = this.fetchManifest()
+        .then((data) => {
+          const changes = this.apply(data);
+          this.notify(changes);
+          return data;
+        })
+        .finally(() => {
+          this.loading = null;
+        });
+    }
+
+    return this.loading;
+  }
+
+  /**
+   * Fetch the manifest again, bypassing the HTTP cache
+   * Listeners are notified of catalogs that were added, removed or changed
+   * 
+   * @returns Promise resolving to the changed catalogs
+   * @throws {ManifestLoadError} If the manifest cannot be loaded
+   */
+  async refresh(): Promise<ManifestChange[]> {
+    const data = await this.fetchManifest('no-cache');
+    const changes = this.apply(data);
+    this.notify(changes);
+    return changes;
+  }
+
+  /**
+   * Get the manifest entry of a catalog
+   * 
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @returns The entry, or undefined if the manifest has no such catalog
+   */
+  getEntry(locale: string, namespace: string): ManifestEntry | undefined {
+    return this.entries.get(normalizeLocale(locale))?.get(namespace);
+  }
+
+  /**
+   * Get the URL of a catalog
+   * Relative URLs are resolved against the directory of the manifest URL
+   * 
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @returns The catalog URL, or undefined if the manifest has no such catalog
+   */
+  getUrl(locale: string, namespace: string): string | undefined {
+    const entry = this.getEntry(locale, namespace);
+    if (!entry) {
+      return undefined;
+    }
+
+    const isAbsolute = /^([a-z][a-z\d+.-]*:)?\/\//i.test(entry.url) || entry.url.startsWith('/');
+    if (isAbsolute || !this.url) {
+      return entry.url;
+    }
+
+    return this.url.slice(0, this.url.lastIndexOf('/') + 1) + entry.url;
+  }
+
+  /**
+   * Get the locales listed in the manifest
+   * 
+   * @returns Canonical locale codes
+   */
+  getLocales(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  /**
+   * Get the namespaces listed for a locale
+   * 
+   * @param locale - The locale code
+   * @returns Namespace names
+   */
+  getNamespaces(locale: string): string[] {
+    return Array.from(this.entries.get(normalizeLocale(locale))?.keys() ?? []);
+  }
+
+  /**
+   * Get the metadata of a locale: average completeness and latest update
+   * 
+   * @param locale - The locale code
+   * @returns The metadata (empty if the manifest has none)
+   */
+  getLocaleMetadata(locale: string): { completeness?: number; updatedAt?: string } {
+    const entries = Array.from(this.entries.get(normalizeLocale(locale))?.values() ?? []);
+    const completeness = entries
+      .map((entry) => entry.completeness)
+      .filter((value): value is number => typeof value === 'number');
+    const updatedAt = entries
+      .map((entry) => entry.updatedAt)
+      .filter((value): value is string => typeof value === 'string')
+      .sort();
+
+    return {
+      completeness: completeness.length > 0
+        ? completeness.reduce((sum, value) => sum + value, 0) / completeness.length
+        : undefined,
+      updatedAt: updatedAt[updatedAt.length - 1],
+    };
+  }
+
+  /**
+   * Subscribe to manifest changes (initial load and refreshes)
+   * 
+   * @param listener - Function called with the changed catalogs
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: ManifestChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Fetch and parse the manifest JSON
+   * 
+   * @param cache - Optional request cache mode
+   * @returns Promise resolving to the manifest data
+   * @throws {ManifestLoadError} If the request fails
+   */
+  private async fetchManifest(cache?: RequestCache): Promise<TranslationManifestData> {
+    if (!this.url) {
+      throw new ManifestLoadError('(inline)', new Error('No manifest URL configured'));
+    }
+
+    // Resolve fetch at call time so a replaced global fetch is used
+    const fetchImpl = this.fetchImpl ?? fetch;
+    let response: Response;
+
+    try {
+      response = await fetchImpl(this.url, { ...this.requestInit, ...(cache && { cache }) });
+    } catch (error) {
+      throw new ManifestLoadError(this.url, error instanceof Error ? error : new Error(String(error)));
+    }
+
+    if (!response.ok) {
+      throw new ManifestLoadError(
+        this.url,
+        new Error(`HTTP ${response.status}: ${response.statusText}`),
+        response.status
+      );
+    }
+
+    const data = (await response.json()) as TranslationManifestData;
+    if (!data || typeof data.locales !== 'object') {
+      throw new ManifestLoadError(this.url, new Error('Manifest has no "locales" object'));
+    }
+
+    return data;
+  }
+
+  /**
+   * Replace the manifest data
+   * 
+   * @param data - The new manifest data
+   * @returns The catalogs that were added, removed or changed
+   */
+  private apply(data: TranslationManifestData): ManifestChange[] {
+    const entries = new Map<string, Map<string, ManifestEntry>>();
+
+    for (const [locale, namespaces] of Object.entries(data.locales)) {
+      const code = normalizeLocale(locale) || locale;
+      const localeEntries = entries.get(code) ?? new Map<string, ManifestEntry>();
+      for (const [namespace, entry] of Object.entries(namespaces)) {
+        localeEntries.set(namespace, typeof entry === 'string' ? { url: entry } : entry);
+      }
+      entries.set(code, localeEntries);
+    }
+
+    const changes: ManifestChange[] = [];
+    const locales = new Set([...this.entries.keys(), ...entries.keys()]);
+    for (const locale of locales) {
+      const previous = this.entries.get(locale);
+      const next = entries.get(locale);
+      const namespaces = new Set([...(previous?.keys() ?? []), ...(next?.keys() ?? [])]);
+      for (const namespace of namespaces) {
+        if (previous?.get(namespace)?.url !== next?.get(namespace)?.url) {
+          changes.push({ locale, namespace });
+        }
+      }
+    }
+
+    this.entries = entries;
+    this.data = data;
+    return changes;
+  }
+
+  /**
+   * Notify listeners of changed catalogs
+   * 
+   * @param changes - The changed catalogs
+   */
+  private notify(changes: ManifestChange[]): void {
+    if (changes.length === 0) {
+      return;
+    }
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(changes);
+      } catch (error) {
+        console.error('[i18n] Error in manifest change listener:', error);
+      }
+    });
+  }
+}
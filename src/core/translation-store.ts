@@ -4,60 +4,216 @@
  * Handles:
  * - Map-based caching of loaded translations
  * - Namespace loading with deduplication of concurrent requests
+ * - Cancellation of loads through AbortSignal
+ * - Per-namespace load states and load error reporting
+ * - Optional persistent cache (IndexedDB / localStorage / memory)
+ * - Background revalidation with change notifications
+ * - Runtime resource API (add, merge and remove translations)
+ * - Override layers on top of the base catalogs (e.g. white-label tenants)
+ * - Optional memory limits with LRU eviction and cache statistics
+ * - Snapshots and hydration for server-side rendering
  * - Tracking of missing translation keys
- * - Preloading functionality for specific locales
+ * - Preloading functionality for specific locales (including their fallback chain)
  * - Cache management
  */
 
-import type { TranslationNamespace } from '../types';
-import type { TranslationLoader } from './translation-loader';
+import { TranslationLoadError } from '../types';
+import type {
+  I18nConfig,
+  MemoryConfig,
+  NamespaceLoadState,
+  OverrideLayerApi,
+  OverrideLayerConfig,
+  ResourceApi,
+  RevalidatingTranslationBackend,
+  ResourceBundleOptions,
+  TranslationCacheStats,
+  TranslationLoadErrorListener,
+  TranslationNamespace,
+  TranslationBackend,
+  TranslationUpdateListener,
+} from '../types';
+import { TranslationLoader } from './translation-loader';
+import { getFallbackChain } from '../utils/fallback-chain';
+import { TranslationCache } from '../cache/translation-cache';
+import { mergeTranslations, setTranslationValue } from '../utils/resources';
 
-export class TranslationStore {
+/**
+ * Layer name reported for translations from the base catalogs
+ */
+export const BASE_LAYER = 'base';
+
+/**
+ * An override layer and its translations
+ */
+interface OverrideLayer {
+  config: OverrideLayerConfig;
+  // Reads the layer's files; null for layers with inline resources only
+  loader: TranslationLoader | null;
+  // Map structure: locale -> namespace -> translations
+  translations: Map<string, Map<string, TranslationNamespace>>;
+}
+
+/**
+ * A namespace load shared by concurrent callers
+ */
+interface PendingLoad {
+  promise: Promise<void>;
+  controller: AbortController;
+  // Callers still interested in the result
+  waiting: number;
+}
+
+/**
+ * A change made through the resource API, applied to a namespace's translations
+ */
+type ResourceAddition = (data: TranslationNamespace) => TranslationNamespace;
+
+export class TranslationStore implements ResourceApi, OverrideLayerApi {
   // Map structure: locale -> namespace -> translations
   private translations: Map<string, Map<string, TranslationNamespace>>;
   
-  // Track ongoing loading promises to prevent duplicate requests
-  private loadingPromises: Map<string, Promise<void>>;
+  // Track ongoing loads to prevent duplicate requests
+  private loadingPromises: Map<string, PendingLoad>;
   
   // Track missing translation keys for debugging
   private missingKeys: Set<string>;
 
-  constructor(private loader: TranslationLoader) {
+  // Last load failure per locale:namespace, cleared when the namespace loads
+  private loadErrors: Map<string, TranslationLoadError>;
+
+  // Listeners notified when a namespace fails to load
+  private loadErrorListeners: Set<TranslationLoadErrorListener>;
+
+  // Persistent cache, enabled by config.cache
+  private persistentCache: TranslationCache | null;
+
+  // Listeners notified when revalidated translations changed
+  private updateListeners: Set<TranslationUpdateListener>;
+
+  // Revalidations in progress, keyed by locale:namespace
+  private revalidations: Map<string, Promise<void>>;
+
+  // Override layers, highest priority first
+  private layers: OverrideLayer[];
+
+  // Memory limits, enabled by config.memory
+  private memory: MemoryConfig | null;
+
+  // Approximate size per locale:namespace, least recently used first (tracked with memory limits only)
+  private usage: Map<string, number>;
+
+  // Changes made through the resource API per locale:namespace; these
+  // namespaces cannot be loaded again, and the changes are re-applied when
+  // fetched translations replace the namespace
+  private pinned: Map<string, ResourceAddition[]>;
+
+  // Locale whose fallback chain is never evicted
+  private activeLocale: string | null;
+
+  // Retained locales (with the number of holders), not evicted until released
+  private retained: Map<string, number>;
+
+  // Cache statistics
+  private stats: Pick<TranslationCacheStats, 'hits' | 'misses' | 'evictions'>;
+
+  // Unsubscribe functions of the manifest and backend subscriptions, null until the first load
+  private unsubscribers: Array<() => void> | null;
+
+  constructor(private loader: TranslationLoader, private config?: I18nConfig) {
     this.translations = new Map();
     this.loadingPromises = new Map();
     this.missingKeys = new Set();
+    this.loadErrors = new Map();
+    this.loadErrorListeners = new Set();
+    this.persistentCache = config?.cache ? new TranslationCache(config.cache, config.debug) : null;
+    this.updateListeners = new Set();
+    this.revalidations = new Map();
+    this.layers = [];
+    config?.layers?.forEach((layer) => this.addLayer(layer));
+    this.memory = config?.memory ?? null;
+    this.usage = new Map();
+    this.pinned = new Map();
+    this.activeLocale = null;
+    this.retained = new Map();
+    this.stats = { hits: 0, misses: 0, evictions: 0 };
+    this.unsubscribers = null;
+  }
+
+  /**
+   * Release the store's subscriptions to shared sources (the manifest and
+   * a revalidating backend)
+   * so the store can be garbage collected. The store subscribes again
+   * when it loads a namespace.
+   */
+  dispose(): void {
+    this.unsubscribers?.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = null;
   }
 
   /**
    * Load a namespace for a specific locale
    * Deduplicates concurrent requests for the same namespace
    * 
+   * A shared request is aborted only once every caller waiting on it has
+   * aborted its signal. Failed and aborted loads are not cached, so the
+   * next call tries again.
+   * 
    * @param locale - The locale code
    * @param namespace - The namespace to load
-   * @returns Promise that resolves when the namespace is loaded
+   * @param signal - Optional abort signal
+   * @returns Promise that resolves when the namespace is loaded (or the load failed)
    */
-  async loadNamespace(locale: string, namespace: string): Promise<void> {
+  async loadNamespace(locale: string, namespace: string, signal?: AbortSignal): Promise<void> {
     const key = `${locale}:${namespace}`;
+    this.subscribeToSources();
 
     // If already loaded, return immediately
     if (this.hasNamespace(locale, namespace)) {
+      this.stats.hits++;
+      this.touch(key);
       return;
     }
+    if (signal?.aborted) {
+      return;
+    }
+    this.stats.misses++;
 
-    // If currently loading, return the existing promise
-    if (this.loadingPromises.has(key)) {
-      return this.loadingPromises.get(key);
+    // If currently loading, join the existing request; otherwise start loading
+    let pending = this.loadingPromises.get(key);
+    if (!pending) {
+      const controller = new AbortController();
+      pending = {
+        promise: this.performLoad(locale, namespace, key, controller.signal),
+        controller,
+        waiting: 0,
+      };
+      this.loadingPromises.set(key, pending);
     }
 
-    // Start loading
-    const loadingPromise = this.performLoad(locale, namespace, key);
-    this.loadingPromises.set(key, loadingPromise);
+    const load = pending;
+    load.waiting++;
+
+    const onAbort = () => {
+      load.waiting--;
+      if (load.waiting === 0) {
+        load.controller.abort();
+        // Later callers start a new request instead of joining the aborted one
+        if (this.loadingPromises.get(key) === load) {
+          this.loadingPromises.delete(key);
+        }
+      }
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
 
     try {
-      await loadingPromise;
+      await load.promise;
     } finally {
+      signal?.removeEventListener('abort', onAbort);
       // Clean up the loading promise
-      this.loadingPromises.delete(key);
+      if (this.loadingPromises.get(key) === load) {
+        this.loadingPromises.delete(key);
+      }
     }
   }
 
@@ -67,21 +223,683 @@ export class TranslationStore {
    * @param locale - The locale code
    * @param namespace - The namespace to load
    * @param key - The cache key
+   * @param signal - Abort signal of the shared request
    */
-  private async performLoad(locale: string, namespace: string, key: string): Promise<void> {
+  private async performLoad(locale: string, namespace: string, key: string, signal: AbortSignal): Promise<void> {
+    // Layers load alongside the base catalog, which counts as loaded once they finish
+    const layersLoaded = this.loadLayers(locale, namespace, signal);
+
+    try {
+      // Serve from the persistent cache when a valid entry exists, then
+      // revalidate in the background (applied once this load has finished)
+      const cached = this.persistentCache ? await this.persistentCache.get(locale, namespace) : undefined;
+      if (cached && !signal.aborted) {
+        if (layersLoaded) {
+          await layersLoaded;
+        }
+        this.loadErrors.delete(key);
+        this.cacheFetched(locale, namespace, cached);
+        if (this.config?.cache?.revalidate !== false) {
+          void this.revalidateNamespace(locale, namespace);
+        }
+        return;
+      }
+
+      const data = await this.loader.loadTranslation(locale, namespace, signal);
+      if (layersLoaded) {
+        await layersLoaded;
+      }
+      this.loadErrors.delete(key);
+      this.cacheFetched(locale, namespace, data);
+
+      // Write to the persistent cache without delaying the load
+      void this.persistentCache?.set(locale, namespace, data);
+    } catch (error) {
+      // Failed loads are not cached so the namespace can be loaded again later
+      if (signal.aborted) {
+        return;
+      }
+
+      const loadError = toLoadError(locale, namespace, error);
+      this.loadErrors.set(key, loadError);
+
+      if (process.env.NODE_ENV !== 'production') {
+        console.error(`[i18n] Failed to load namespace: ${key}`, loadError);
+      }
+
+      this.notifyLoadError(loadError);
+    }
+  }
+
+  /**
+   * Reload loaded namespaces and replace their translations when the content changed
+   * The cached translations stay in use until the new ones arrive, and are kept
+   * if the reload fails. Backends that support conditional requests make
+   * unchanged namespaces cheap to revalidate (HTTP 304).
+   * 
+   * @param locale - Only revalidate this locale (default: all loaded locales)
+   * @param namespace - Only revalidate this namespace (default: all loaded namespaces)
+   * @returns Promise that resolves when every revalidation has finished
+   */
+  async revalidate(locale?: string, namespace?: string): Promise<void> {
+    const targets = getNamespaceKeys(this.translations).filter(([loadedLocale, loadedNamespace]) =>
+      (locale === undefined || loadedLocale === locale) &&
+      (namespace === undefined || loadedNamespace === namespace)
+    );
+
+    await Promise.all(targets.map(([targetLocale, targetNamespace]) =>
+      this.revalidateNamespace(targetLocale, targetNamespace)
+    ));
+  }
+
+  /**
+   * Push an override layer on top of the existing layers
+   * Keys are looked up in the layers (highest priority first), then in the base
+   * catalogs, before moving on to the next locale in the fallback chain.
+   * The layer's namespaces are loaded for every loaded base namespace and
+   * together with base namespaces loaded later. A missing layer file is not an
+   * error: the base catalogs are used for that namespace.
+   * 
+   * @param config - The layer; replaces an existing layer with the same name
+   * @returns Promise that resolves when the layer's namespaces are loaded
+   * @throws {Error} If the layer is named 'base'
+   */
+  async pushLayer(config: OverrideLayerConfig): Promise<void> {
+    const layer = this.addLayer(config);
+    const loaded = getNamespaceKeys(this.translations);
+
+    await Promise.all(loaded.map(([locale, namespace]) =>
+      this.loadLayerNamespace(layer, locale, namespace)
+    ));
+
+    // The layer may have been removed while loading
+    if (!this.layers.includes(layer)) {
+      return;
+    }
+
+    const changed = new Set(loaded.map(([locale, namespace]) => `${locale}:${namespace}`));
+    getNamespaceKeys(layer.translations).forEach(([locale, namespace]) => changed.add(`${locale}:${namespace}`));
+    changed.forEach((key) => this.notifyUpdate(...splitKey(key)));
+  }
+
+  /**
+   * Remove an override layer
+   * 
+   * @param name - The layer name
+   * @returns false if there is no layer with that name
+   */
+  removeLayer(name: string): boolean {
+    const layer = this.layers.find((candidate) => candidate.config.name === name);
+    if (!layer) {
+      return false;
+    }
+
+    this.layers = this.layers.filter((candidate) => candidate !== layer);
+    getNamespaceKeys(layer.translations).forEach(([locale, namespace]) => this.notifyUpdate(locale, namespace));
+    return true;
+  }
+
+  /**
+   * Get the names of the override layers
+   * 
+   * @returns Layer names, highest priority first
+   */
+  getLayers(): string[] {
+    return this.layers.map((layer) => layer.config.name);
+  }
+
+  /**
+   * Get the layer that provides a key for a locale
+   * 
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param key - The translation key (supports dot notation)
+   * @returns The layer name, 'base' for the base catalogs, or undefined if no layer has the key
+   */
+  getLayer(locale: string, namespace: string, key: string): string | undefined {
+    for (const layer of this.layers) {
+      const layerData = layer.translations.get(locale)?.get(namespace);
+      if (layerData && lookupPath(layerData, key) !== undefined) {
+        return layer.config.name;
+      }
+    }
+
+    const namespaceData = this.getNamespaceData(locale, namespace);
+    return namespaceData && lookupPath(namespaceData, key) !== undefined ? BASE_LAYER : undefined;
+  }
+
+  /**
+   * Add a layer on top without loading its namespaces
+   * 
+   * @param config - The layer
+   * @returns The added layer
+   * @throws {Error} If the layer is named 'base'
+   */
+  private addLayer(config: OverrideLayerConfig): OverrideLayer {
+    if (config.name === BASE_LAYER) {
+      throw new Error(`[i18n] The layer name "${BASE_LAYER}" is reserved for the base catalogs`);
+    }
+
+    const loader = config.backend || config.loadPath
+      ? new TranslationLoader({
+          defaultLocale: this.config?.defaultLocale ?? '',
+          supportedLocales: this.config?.supportedLocales ?? [],
+          debug: this.config?.debug,
+          loading: this.config?.loading,
+          loadPath: config.loadPath,
+          backend: config.backend,
+        })
+      : null;
+    const layer: OverrideLayer = { config, loader, translations: new Map() };
+    this.resetLayer(layer);
+
+    this.layers = [layer, ...this.layers.filter((existing) => existing.config.name !== config.name)];
+    return layer;
+  }
+
+  /**
+   * Reset a layer to its inline resources, dropping loaded translations
+   * 
+   * @param layer - The layer
+   * @param locale - Only reset this locale (default: all locales)
+   */
+  private resetLayer(layer: OverrideLayer, locale?: string): void {
+    if (locale === undefined) {
+      layer.translations.clear();
+    } else {
+      layer.translations.delete(locale);
+    }
+
+    for (const [resourceLocale, namespaces] of Object.entries(layer.config.resources ?? {})) {
+      if (locale === undefined || resourceLocale === locale) {
+        layer.translations.set(resourceLocale, new Map(Object.entries(namespaces)));
+      }
+    }
+  }
+
+  /**
+   * Load a namespace for every layer that reads files
+   * 
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param signal - Abort signal of the base load
+   * @returns Promise that resolves when the layers are loaded, or undefined if no layer reads files
+   */
+  private loadLayers(locale: string, namespace: string, signal: AbortSignal): Promise<void> | undefined {
+    const layers = this.layers.filter((layer) => layer.loader);
+    if (layers.length === 0) {
+      return undefined;
+    }
+
+    return Promise.all(layers.map((layer) => this.loadLayerNamespace(layer, locale, namespace, signal)))
+      .then(() => undefined);
+  }
+
+  /**
+   * Load a namespace for a layer
+   * A failed load leaves the namespace empty, so the base catalogs are used
+   * 
+   * @param layer - The layer
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param signal - Optional abort signal
+   */
+  private async loadLayerNamespace(
+    layer: OverrideLayer,
+    locale: string,
+    namespace: string,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (!layer.loader || layer.translations.get(locale)?.has(namespace)) {
+      return;
+    }
+
+    let data: TranslationNamespace = {};
+    try {
+      data = await layer.loader.loadTranslation(locale, namespace, signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        return;
+      }
+
+      // Layers usually override a few namespaces only; other failures are worth a warning
+      const status = error instanceof TranslationLoadError ? error.status : undefined;
+      if (status !== 404 && process.env.NODE_ENV !== 'production') {
+        console.warn(`[i18n] Failed to load layer "${layer.config.name}" for ${locale}:${namespace}`, error);
+      }
+    }
+
+    if (!layer.translations.has(locale)) {
+      layer.translations.set(locale, new Map());
+    }
+    layer.translations.get(locale)!.set(namespace, data);
+  }
+
+  /**
+   * Add translations to a namespace
+   * A namespace that was not loaded yet counts as loaded afterwards and is not fetched
+   * The additions are kept when fetched translations replace the namespace
+   * (a load in progress or a revalidation)
+   * 
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param data - The translations to add
+   * @param options - deep: merge nested objects (default: false);
+   *   overwrite: replace existing values (default: true)
+   */
+  addResourceBundle(
+    locale: string,
+    namespace: string,
+    data: TranslationNamespace,
+    options: ResourceBundleOptions = {}
+  ): void {
+    const { deep = false, overwrite = true } = options;
+
+    this.addToNamespace(locale, namespace, (existing) =>
+      deep
+        ? mergeTranslations(existing, data, overwrite)
+        : overwrite
+          ? { ...existing, ...data }
+          : { ...data, ...existing }
+    );
+  }
+
+  /**
+   * Add or replace a single translation
+   * 
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param key - The translation key (supports dot notation)
+   * @param value - The translation string or nested translations
+   */
+  addResource(locale: string, namespace: string, key: string, value: string | TranslationNamespace): void {
+    this.addToNamespace(locale, namespace, (existing) => setTranslationValue(existing, key, value));
+  }
+
+  /**
+   * Remove all translations of a namespace
+   * The namespace is fetched again on the next load
+   * 
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   */
+  removeResourceBundle(locale: string, namespace: string): void {
+    if (this.deleteNamespace(locale, namespace)) {
+      this.notifyUpdate(locale, namespace);
+    }
+  }
+
+  /**
+   * Get the translations of a namespace
+   * 
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @returns The translations, or undefined if the namespace is not loaded
+   */
+  getResourceBundle(locale: string, namespace: string): TranslationNamespace | undefined {
+    return this.getNamespaceData(locale, namespace);
+  }
+
+  /**
+   * Check if a translation exists, without tracking it as missing
+   * 
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param key - The translation key (supports dot notation)
+   * @returns true if the key has a value (string or nested translations)
+   */
+  hasResource(locale: string, namespace: string, key: string): boolean {
+    return this.getRawData(locale, namespace, key) !== undefined;
+  }
+
+  /**
+   * Subscribe to translation updates from revalidation and the resource API
+   * 
+   * @param listener - Function called with the locale and namespace that changed
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: TranslationUpdateListener): () => void {
+    this.updateListeners.add(listener);
+    return () => {
+      this.updateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to shared sources unless subscribed (see dispose)
+   */
+  private subscribeToSources(): void {
+    if (this.unsubscribers) {
+      return;
+    }
+    this.unsubscribers = [];
+
+    // Reload loaded catalogs whose manifest URL changed (e.g. a new deployment)
+    const manifest = this.config?.manifest;
+    if (manifest) {
+      this.unsubscribers.push(
+        manifest.subscribe((changes) => {
+          changes
+            .filter(({ locale, namespace }) => this.hasNamespace(locale, namespace))
+            .forEach(({ locale, namespace }) => void this.revalidateNamespace(locale, namespace));
+        })
+      );
+    }
+
+    // Apply translations a backend refreshed in the background
+    const backend = this.config?.backend;
+    if (backend && isRevalidatingBackend(backend)) {
+      this.unsubscribers.push(
+        backend.onRevalidate((locale, namespace, data) => this.applyRevalidated(locale, namespace, data))
+      );
+    }
+  }
+
+  /**
+   * Replace a loaded namespace with translations a backend refreshed
+   * Waits for a load in progress, which may still hold the previous copy
+   * 
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param data - The fresh translations
+   */
+  private applyRevalidated(locale: string, namespace: string, data: TranslationNamespace): void {
+    const pending = this.loadingPromises.get(`${locale}:${namespace}`);
+    if (pending) {
+      void pending.promise.then(() => this.applyRevalidated(locale, namespace, data));
+      return;
+    }
+
+    // Not loaded (or cleared meanwhile): the next load picks up the fresh copy
+    if (!this.hasNamespace(locale, namespace)) {
+      return;
+    }
+
+    // Unchanged: same object (HTTP 304) or same content
+    const current = this.getNamespaceData(locale, namespace);
+    const next = this.withAdditions(locale, namespace, data);
+    if (next === current || JSON.stringify(next) === JSON.stringify(current)) {
+      return;
+    }
+
+    this.cacheTranslation(locale, namespace, next);
+    void this.persistentCache?.set(locale, namespace, data);
+    this.notifyUpdate(locale, namespace);
+  }
+
+  /**
+   * Revalidate a single namespace, deduplicating concurrent revalidations
+   * 
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   */
+  private revalidateNamespace(locale: string, namespace: string): Promise<void> {
+    const key = `${locale}:${namespace}`;
+    const existing = this.revalidations.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const revalidation = this.performRevalidation(locale, namespace, key).finally(() => {
+      this.revalidations.delete(key);
+    });
+    this.revalidations.set(key, revalidation);
+    return revalidation;
+  }
+
+  /**
+   * Reload a namespace and notify subscribers if its content changed
+   * 
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param key - The cache key
+   */
+  private async performRevalidation(locale: string, namespace: string, key: string): Promise<void> {
     try {
       const data = await this.loader.loadTranslation(locale, namespace);
-      this.cacheTranslation(locale, namespace, data);
+      this.applyRevalidated(locale, namespace, data);
     } catch (error) {
-      // Even if loading fails, cache an empty object to prevent repeated attempts
-      this.cacheTranslation(locale, namespace, {});
-      
+      // Keep the current translations; report the failure
+      const loadError = toLoadError(locale, namespace, error);
+
       if (process.env.NODE_ENV !== 'production') {
-        console.error(`[i18n] Failed to load namespace: ${key}`, error);
+        console.warn(`[i18n] Failed to revalidate namespace: ${key}`, loadError);
+      }
+
+      this.notifyLoadError(loadError);
+    }
+  }
+
+  /**
+   * Notify update listeners
+   * 
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   */
+  private notifyUpdate(locale: string, namespace: string): void {
+    this.updateListeners.forEach((listener) => {
+      try {
+        listener(locale, namespace);
+      } catch (error) {
+        console.error('[i18n] Error in translation update listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Get a snapshot of the loaded translations, e.g. to serialize after server rendering
+   * Override layers are not included
+   * 
+   * @returns Translations by locale and namespace
+   */
+  getSnapshot(): Record<string, Record<string, TranslationNamespace>> {
+    const snapshot: Record<string, Record<string, TranslationNamespace>> = {};
+
+    for (const [locale, namespaces] of this.translations) {
+      snapshot[locale] = Object.fromEntries(namespaces);
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Add translations from a snapshot, replacing loaded namespaces
+   * Subscribers are not notified, so hydration can run before the first render
+   * 
+   * @param resources - Translations by locale and namespace
+   */
+  hydrate(resources: Record<string, Record<string, TranslationNamespace>>): void {
+    for (const [locale, namespaces] of Object.entries(resources)) {
+      for (const [namespace, data] of Object.entries(namespaces)) {
+        this.loadErrors.delete(`${locale}:${namespace}`);
+        this.cacheFetched(locale, namespace, data);
+      }
+    }
+  }
+
+  /**
+   * Set the active locale, whose fallback chain is never evicted
+   * Applies the memory limits, so namespaces of the previous locale can be evicted
+   * 
+   * @param locale - The active locale code
+   */
+  setActiveLocale(locale: string): void {
+    this.activeLocale = locale;
+    this.enforceMemoryLimits();
+  }
+
+  /**
+   * Get statistics of the in-memory cache
+   * 
+   * @returns Hits, misses and evictions, and the current size of the cache
+   */
+  getCacheStats(): TranslationCacheStats {
+    let namespaces = 0;
+    let bytes = 0;
+    this.translations.forEach((localeData, locale) => {
+      namespaces += localeData.size;
+      // Sizes are only tracked with memory limits; otherwise measure on request
+      localeData.forEach((data, namespace) => {
+        bytes += this.usage.get(`${locale}:${namespace}`) ?? estimateSize(data);
+      });
+    });
+
+    return {
+      ...this.stats,
+      locales: this.translations.size,
+      namespaces,
+      bytes,
+    };
+  }
+
+  /**
+   * Mark a namespace as recently used
+   * 
+   * @param key - The locale:namespace key
+   */
+  private touch(key: string): void {
+    const size = this.memory ? this.usage.get(key) : undefined;
+    if (size !== undefined) {
+      this.usage.delete(key);
+      this.usage.set(key, size);
+    }
+  }
+
+  /**
+   * Evict least recently used namespaces until the memory limits are met
+   * Whole locales are evicted for maxLocales; single namespaces for
+   * maxNamespaces and maxBytes
+   * 
+   * @param cachedKey - locale:namespace key that was just cached, which is kept
+   */
+  private enforceMemoryLimits(cachedKey?: string): void {
+    if (!this.memory) {
+      return;
+    }
+
+    const { maxLocales, maxNamespaces, maxBytes } = this.memory;
+    const activeLocale = this.activeLocale;
+    const protectedLocales = new Set(
+      activeLocale === null ? [] : this.config ? getFallbackChain(activeLocale, this.config) : [activeLocale]
+    );
+    this.retained.forEach((_count, locale) => protectedLocales.add(locale));
+    const isEvictable = (key: string) =>
+      key !== cachedKey && !this.pinned.has(key) && !protectedLocales.has(splitKey(key)[0]);
+
+    while (maxLocales !== undefined && this.translations.size > maxLocales) {
+      // Recency of a locale is the last use of any of its namespaces
+      const lastUse = new Map<string, number>();
+      const evictable = new Set(this.translations.keys());
+      Array.from(this.usage.keys()).forEach((key, index) => {
+        const [locale] = splitKey(key);
+        lastUse.set(locale, index);
+        if (!isEvictable(key)) {
+          evictable.delete(locale);
+        }
+      });
+
+      const [locale] = Array.from(evictable).sort((a, b) => (lastUse.get(a) ?? -1) - (lastUse.get(b) ?? -1));
+      if (locale === undefined) {
+        break;
+      }
+      Array.from(this.translations.get(locale)!.keys()).forEach((namespace) => this.evict(locale, namespace));
+    }
+
+    let { namespaces, bytes } = this.getCacheStats();
+    for (const [key, size] of Array.from(this.usage)) {
+      const overNamespaces = maxNamespaces !== undefined && namespaces > maxNamespaces;
+      const overBytes = maxBytes !== undefined && bytes > maxBytes;
+      if (!overNamespaces && !overBytes) {
+        break;
+      }
+
+      if (isEvictable(key)) {
+        this.evict(...splitKey(key));
+        namespaces--;
+        bytes -= size;
       }
     }
   }
 
+  /**
+   * Evict a namespace from memory; it is loaded again on the next request
+   * 
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   */
+  private evict(locale: string, namespace: string): void {
+    this.deleteNamespace(locale, namespace);
+
+    // Loaded layer translations are reloaded together with the namespace
+    this.layers
+      .filter((layer) => layer.loader && !layer.config.resources?.[locale]?.[namespace])
+      .forEach((layer) => layer.translations.get(locale)?.delete(namespace));
+
+    this.stats.evictions++;
+    if (this.config?.debug) {
+      console.warn(`[i18n] Evicted namespace from memory: ${locale}:${namespace}`);
+    }
+  }
+
+  /**
+   * Get the load state of a namespace
+   * 
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @returns 'loaded' once cached, 'loading' while a request is pending,
+   *   'failed' if the last load failed, otherwise 'idle'
+   */
+  getLoadState(locale: string, namespace: string): NamespaceLoadState {
+    const key = `${locale}:${namespace}`;
+
+    if (this.hasNamespace(locale, namespace)) {
+      return 'loaded';
+    }
+    if (this.loadingPromises.has(key)) {
+      return 'loading';
+    }
+    return this.loadErrors.has(key) ? 'failed' : 'idle';
+  }
+
+  /**
+   * Get the error of the last failed load of a namespace
+   * 
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @returns The load error, or undefined if the namespace has not failed
+   */
+  getLoadError(locale: string, namespace: string): TranslationLoadError | undefined {
+    return this.loadErrors.get(`${locale}:${namespace}`);
+  }
+
+  /**
+   * Subscribe to namespace load failures
+   * 
+   * @param listener - Function called with the TranslationLoadError
+   * @returns Unsubscribe function
+   */
+  onLoadError(listener: TranslationLoadErrorListener): () => void {
+    this.loadErrorListeners.add(listener);
+    return () => {
+      this.loadErrorListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Notify load error listeners
+   * 
+   * @param error - The load error
+   */
+  private notifyLoadError(error: TranslationLoadError): void {
+    this.loadErrorListeners.forEach((listener) => {
+      try {
+        listener(error);
+      } catch (listenerError) {
+        console.error('[i18n] Error in load error listener:', listenerError);
+      }
+    });
+  }
+
   /**
    * Get a translation for a specific key
    * 
@@ -91,6 +909,14 @@ export class TranslationStore {
    * @returns The translation string or undefined if not found
    */
   getTranslation(locale: string, namespace: string, key: string): string | undefined {
+    for (const layer of this.layers) {
+      const layerData = layer.translations.get(locale)?.get(namespace);
+      const override = layerData ? this.resolveKey(layerData, key) : undefined;
+      if (override !== undefined) {
+        return override;
+      }
+    }
+
     const namespaceData = this.getNamespaceData(locale, namespace);
     
     if (!namespaceData) {
@@ -118,20 +944,73 @@ export class TranslationStore {
     return localeData?.has(namespace) ?? false;
   }
 
+  /**
+   * Get the namespaces loaded from the backend for a locale
+   * Namespaces added through the resource API are not included
+   * 
+   * @param locale - The locale code
+   * @returns The loaded namespace names
+   */
+  getLoadedNamespaces(locale: string): string[] {
+    return Array.from(this.translations.get(locale)?.keys() ?? []).filter(
+      (namespace) => !this.pinned.has(`${locale}:${namespace}`)
+    );
+  }
+
   /**
    * Preload multiple namespaces for a locale
    * Useful for preloading translations before switching locales
+   * When the store has a config, every locale in the fallback chain is loaded
+   * The chain is not evicted while the preload runs, so a locale switch that
+   * follows finds its namespaces
    * 
    * @param locale - The locale code
    * @param namespaces - Array of namespace names to preload
+   * @param signal - Optional abort signal
    * @returns Promise that resolves when all namespaces are loaded
    */
-  async preloadLocale(locale: string, namespaces: string[]): Promise<void> {
-    const loadPromises = namespaces.map(namespace => 
-      this.loadNamespace(locale, namespace)
-    );
-    
-    await Promise.all(loadPromises);
+  async preloadLocale(locale: string, namespaces: string[], signal?: AbortSignal): Promise<void> {
+    const locales = this.config ? getFallbackChain(locale, this.config) : [locale];
+    const release = this.retainLocale(locale);
+
+    try {
+      const loadPromises = locales.flatMap(chainLocale =>
+        namespaces.map(namespace => this.loadNamespace(chainLocale, namespace, signal))
+      );
+
+      await Promise.all(loadPromises);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Keep a locale and its fallback chain out of memory eviction until released
+   * Used by holders other than the active locale, such as server requests
+   * rendering from a shared store
+   * 
+   * @param locale - The locale code
+   * @returns Function that releases the locale (only the first call has an effect)
+   */
+  retainLocale(locale: string): () => void {
+    const locales = this.config ? getFallbackChain(locale, this.config) : [locale];
+    locales.forEach((chainLocale) => this.retained.set(chainLocale, (this.retained.get(chainLocale) ?? 0) + 1));
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      locales.forEach((chainLocale) => {
+        const count = this.retained.get(chainLocale)! - 1;
+        if (count > 0) {
+          this.retained.set(chainLocale, count);
+        } else {
+          this.retained.delete(chainLocale);
+        }
+      });
+    };
   }
 
   /**
@@ -144,13 +1023,28 @@ export class TranslationStore {
   }
 
   /**
-   * Clear all cached translations
+   * Clear all in-memory translations
    * Useful for testing or forcing a reload
+   * The persistent cache is kept; see clearPersistentCache
    */
   clearCache(): void {
     this.translations.clear();
     this.loadingPromises.clear();
     this.missingKeys.clear();
+    this.loadErrors.clear();
+    this.usage.clear();
+    this.pinned.clear();
+    this.layers.forEach((layer) => this.resetLayer(layer));
+  }
+
+  /**
+   * Clear the persistent cache
+   * Translations are fetched again on the next load
+   * 
+   * @returns Promise that resolves when the cache is cleared
+   */
+  async clearPersistentCache(): Promise<void> {
+    await this.persistentCache?.clear();
   }
 
   /**
@@ -159,7 +1053,9 @@ export class TranslationStore {
    * @param locale - The locale code
    */
   clearLocaleCache(locale: string): void {
-    this.translations.delete(locale);
+    Array.from(this.translations.get(locale)?.keys() ?? []).forEach((namespace) =>
+      this.deleteNamespace(locale, namespace)
+    );
     
     // Clear any loading promises for this locale
     const keysToDelete: string[] = [];
@@ -169,6 +1065,53 @@ export class TranslationStore {
       }
     }
     keysToDelete.forEach(key => this.loadingPromises.delete(key));
+
+    for (const key of Array.from(this.loadErrors.keys())) {
+      if (key.startsWith(`${locale}:`)) {
+        this.loadErrors.delete(key);
+      }
+    }
+
+    this.layers.forEach((layer) => this.resetLayer(layer, locale));
+  }
+
+  /**
+   * Apply a resource API change to a namespace and keep it for re-applying
+   * 
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param addition - The change
+   */
+  private addToNamespace(locale: string, namespace: string, addition: ResourceAddition): void {
+    const key = `${locale}:${namespace}`;
+    this.pinned.set(key, [...(this.pinned.get(key) ?? []), addition]);
+    this.cacheTranslation(locale, namespace, addition(this.getNamespaceData(locale, namespace) ?? {}));
+    this.notifyUpdate(locale, namespace);
+  }
+
+  /**
+   * Apply the resource API changes of a namespace to fetched translations
+   * 
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param data - The fetched translations
+   * @returns The translations with the changes applied
+   */
+  private withAdditions(locale: string, namespace: string, data: TranslationNamespace): TranslationNamespace {
+    const additions = this.pinned.get(`${locale}:${namespace}`);
+    return additions ? additions.reduce((result, addition) => addition(result), data) : data;
+  }
+
+  /**
+   * Cache translations fetched from the backend or the persistent cache,
+   * keeping the changes made through the resource API
+   * 
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param data - The fetched translations
+   */
+  private cacheFetched(locale: string, namespace: string, data: TranslationNamespace): void {
+    this.cacheTranslation(locale, namespace, this.withAdditions(locale, namespace, data));
   }
 
   /**
@@ -189,6 +1132,37 @@ export class TranslationStore {
 
     const localeData = this.translations.get(locale)!;
     localeData.set(namespace, data);
+
+    // Sizes and recency only matter for the memory limits
+    if (this.memory) {
+      const key = `${locale}:${namespace}`;
+      this.usage.delete(key);
+      this.usage.set(key, estimateSize(data));
+      this.enforceMemoryLimits(key);
+    }
+  }
+
+  /**
+   * Delete a namespace from memory
+   * 
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @returns false if the namespace was not loaded
+   */
+  private deleteNamespace(locale: string, namespace: string): boolean {
+    const localeData = this.translations.get(locale);
+    if (!localeData?.delete(namespace)) {
+      return false;
+    }
+
+    if (localeData.size === 0) {
+      this.translations.delete(locale);
+    }
+
+    const key = `${locale}:${namespace}`;
+    this.usage.delete(key);
+    this.pinned.delete(key);
+    return true;
   }
 
   /**
@@ -199,8 +1173,11 @@ export class TranslationStore {
    * @returns The namespace data or undefined
    */
   private getNamespaceData(locale: string, namespace: string): TranslationNamespace | undefined {
-    const localeData = this.translations.get(locale);
-    return localeData?.get(namespace);
+    const data = this.translations.get(locale)?.get(namespace);
+    if (data) {
+      this.touch(`${locale}:${namespace}`);
+    }
+    return data;
   }
 
   /**
@@ -252,6 +1229,8 @@ export class TranslationStore {
 
   /**
    * Get raw namespace data (useful for plural resolution)
+   * Objects from override layers are merged over the base data, so a layer
+   * can override single plural forms
    * 
    * @param locale - The locale code
    * @param namespace - The namespace
@@ -261,27 +1240,86 @@ export class TranslationStore {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   getRawData(locale: string, namespace: string, key: string): any {
     const namespaceData = this.getNamespaceData(locale, namespace);
-    
-    if (!namespaceData) {
-      return undefined;
-    }
-
-    const keys = key.split('.');
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    let current: any = namespaceData;
+    let value: any = namespaceData ? lookupPath(namespaceData, key) : undefined;
 
-    for (const k of keys) {
-      if (current === null || current === undefined) {
-        return undefined;
+    // Apply layers from the lowest to the highest priority
+    for (let index = this.layers.length - 1; index >= 0; index--) {
+      const layerData = this.layers[index]!.translations.get(locale)?.get(namespace);
+      const override = layerData ? lookupPath(layerData, key) : undefined;
+      if (override === undefined) {
+        continue;
       }
 
-      if (typeof current !== 'object') {
-        return undefined;
-      }
+      value = isObject(override) && isObject(value) ? mergeTranslations(value, override) : override;
+    }
 
-      current = current[k];
+    return value;
+  }
+}
+
+/**
+ * Get the value at a dot-notation key path
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function lookupPath(data: TranslationNamespace, key: string): any {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let current: any = data;
+
+  for (const k of key.split('.')) {
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return undefined;
     }
 
-    return current;
+    current = current[k];
   }
+
+  return current;
+}
+
+/**
+ * Check if a value is a nested translation object
+ */
+function isObject(value: unknown): value is TranslationNamespace {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Check if a backend reports translations it refreshed in the background
+ */
+function isRevalidatingBackend(backend: TranslationBackend): backend is RevalidatingTranslationBackend {
+  return typeof (backend as Partial<RevalidatingTranslationBackend>).onRevalidate === 'function';
+}
+
+/**
+ * Split a locale:namespace key
+ */
+function splitKey(key: string): [string, string] {
+  const separatorIndex = key.indexOf(':');
+  return [key.slice(0, separatorIndex), key.slice(separatorIndex + 1)];
+}
+
+/**
+ * Estimate the memory size of translations in bytes (UTF-16 JSON)
+ */
+function estimateSize(data: TranslationNamespace): number {
+  return JSON.stringify(data).length * 2;
+}
+
+/**
+ * List the locale and namespace pairs of a translation map
+ */
+function getNamespaceKeys(translations: Map<string, Map<string, TranslationNamespace>>): Array<[string, string]> {
+  return Array.from(translations).flatMap(([locale, namespaces]) =>
+    Array.from(namespaces.keys(), (namespace): [string, string] => [locale, namespace])
+  );
+}
+
+/**
+ * Wrap a loader error in a TranslationLoadError
+ */
+function toLoadError(locale: string, namespace: string, error: unknown): TranslationLoadError {
+  return error instanceof TranslationLoadError
+    ? error
+    : new TranslationLoadError(locale, namespace, error instanceof Error ? error : new Error(String(error)));
 }
@@ -3,21 +3,41 @@
  * 
  * Orchestrates:
  * - Translation key resolution with namespace support
- * - Variable interpolation via Interpolator
+ * - Variable interpolation via Interpolator (including ICU MessageFormat)
  * - Pluralization via Pluralizer
+ * - Context variants (key_context suffixes and nested context objects)
+ * - Nested references to other keys ($t(ns:key) and @:key)
  * - Missing translation handling with fallbacks
+ * - Reporting of the override layer that provided a string
  * - Development mode warnings
  */
 
-import { I18nConfig, TranslationKey, TranslationOptions } from '../types';
+import {
+  I18nConfig,
+  TranslationKey,
+  TranslationOptions,
+  TranslationReferenceError,
+  TranslationResolution,
+} from '../types';
 import { Interpolator } from './interpolator';
 import { Pluralizer } from './pluralizer';
-import type { TranslationStore } from './translation-store';
+import { BASE_LAYER, type TranslationStore } from './translation-store';
+import { getFallbackChain } from '../utils/fallback-chain';
+
+/**
+ * Nested reference syntax: $t(key), $t(ns:key), @:key and @:ns:key
+ */
+const REFERENCE_PATTERN = /\$t\(\s*([^()\s,]+)\s*\)|@:([\w-]+(?:[.:][\w-]+)*)/g;
 
 export class Translator {
   private readonly defaultNamespace: string;
-  private readonly fallbackLocale?: string;
+  private readonly config: I18nConfig;
   private readonly debug: boolean;
+  private readonly maxNestingDepth: number;
+  private readonly onReferenceError: ((error: TranslationReferenceError) => void) | null;
+
+  // Cache of fallback chains per requested locale
+  private readonly fallbackChains: Map<string, string[]> = new Map();
 
   constructor(
     private store: TranslationStore,
@@ -26,8 +46,10 @@ export class Translator {
     config: I18nConfig
   ) {
     this.defaultNamespace = config.defaultNamespace ?? 'common';
-    this.fallbackLocale = config.fallbackLocale;
+    this.config = config;
     this.debug = config.debug ?? false;
+    this.maxNestingDepth = config.nesting?.maxDepth ?? 10;
+    this.onReferenceError = config.nesting?.onError ?? null;
   }
 
   /**
@@ -43,22 +65,81 @@ export class Translator {
     key: K,
     options?: TranslationOptions<K>
   ): string {
+    // The layer is only looked up when it is logged
+    return this.lookup(locale, key, options, this.debug).value;
+  }
+
+  /**
+   * Translate a key and report which locale in the fallback chain and which
+   * layer satisfied it
+   * In debug mode, strings from override layers are logged
+   * 
+   * @param locale - The current locale
+   * @param key - The translation key
+   * @param options - Translation options (count, context, interpolation, etc.)
+   * @returns The translated string with the satisfying locale and layer
+   */
+  resolve<K extends TranslationKey>(
+    locale: string,
+    key: K,
+    options?: TranslationOptions<K>
+  ): TranslationResolution {
+    return this.lookup(locale, key, options, true);
+  }
+
+  /**
+   * Resolve a key through the fallback chain
+   * 
+   * @param locale - The current locale
+   * @param key - The translation key
+   * @param options - Translation options
+   * @param withLayer - Look up the layer that provided the string (otherwise reported as base)
+   * @returns The translated string with the satisfying locale and layer
+   */
+  private lookup<K extends TranslationKey>(
+    locale: string,
+    key: K,
+    options: TranslationOptions<K> | undefined,
+    withLayer: boolean
+  ): TranslationResolution {
     const namespace = options?.ns ?? this.defaultNamespace;
+    const chain = this.getFallbackChain(locale);
 
-    // Try to resolve the translation
-    let translation = this.resolveKey(locale, key, namespace, options);
+    // Try each locale in the chain until the key is found
+    for (const candidate of chain) {
+      const translation = this.resolveKey(candidate, key, namespace, options);
 
-    // If not found and fallback locale is configured, try fallback
-    if (translation === null && this.fallbackLocale && this.fallbackLocale !== locale) {
-      translation = this.resolveKey(this.fallbackLocale, key, namespace, options);
+      if (translation !== null) {
+        if (this.debug && candidate !== locale) {
+          console.warn(`[i18n] Translation "${key}" resolved from fallback locale "${candidate}" (requested "${locale}")`);
+        }
+        const layer = withLayer ? this.store.getLayer(candidate, namespace, key) ?? BASE_LAYER : BASE_LAYER;
+        if (this.debug && layer !== BASE_LAYER) {
+          console.warn(`[i18n] Translation "${key}" resolved from layer "${layer}" (locale "${candidate}")`);
+        }
+        return { value: translation, locale: candidate, chain, layer };
+      }
     }
 
     // If still not found, apply final fallback
-    if (translation === null) {
-      return this.applyFallback(key, options);
+    return { value: this.applyFallback(key, options), locale: null, chain, layer: null };
+  }
+
+  /**
+   * Get the fallback chain for a locale
+   * 
+   * @param locale - The requested locale
+   * @returns Locales to try, in order
+   */
+  getFallbackChain(locale: string): string[] {
+    let chain = this.fallbackChains.get(locale);
+
+    if (!chain) {
+      chain = getFallbackChain(locale, this.config);
+      this.fallbackChains.set(locale, chain);
     }
 
-    return translation;
+    return chain;
   }
 
   /**
@@ -77,27 +158,95 @@ export class Translator {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     options?: TranslationOptions<any>
   ): string | null {
+    // Check if we need range pluralization
+    if (options?.countRange !== undefined) {
+      return this.resolvePluralRangeKey(locale, key, namespace, options);
+    }
+
     // Check if we need pluralization
     if (options?.count !== undefined) {
       return this.resolvePluralKey(locale, key, namespace, options);
     }
 
-    // Standard key resolution
-    const translation = this.store.getTranslation(locale, namespace, key);
+    // Standard key resolution (context variant first, then the base key)
+    const rawTranslation =
+      (options?.context ? this.getContextTranslation(locale, namespace, key, options.context) : undefined) ??
+      this.store.getTranslation(locale, namespace, key);
 
-    if (translation === undefined) {
+    if (rawTranslation === undefined) {
       return null;
     }
 
-    // Apply interpolation if needed
+    const translation = this.resolveReferences(locale, namespace, key, rawTranslation);
+
+    // Apply interpolation if needed (ICU messages are always evaluated)
     const interpolationVars = this.extractInterpolationVars(options);
-    if (interpolationVars && Object.keys(interpolationVars).length > 0) {
-      return this.interpolator.interpolate(translation, interpolationVars);
+    const hasVars = interpolationVars !== undefined && Object.keys(interpolationVars).length > 0;
+    if (hasVars || this.interpolator.syntax === 'icu') {
+      return this.interpolator.interpolate(translation, interpolationVars, locale, options?.escapeValue);
     }
 
     return translation;
   }
 
+  /**
+   * Look up the context variant of a plain string key
+   * Tries the nested key ("greeting": { "formal": ... }), then the suffixed
+   * key ("greeting_formal")
+   * 
+   * @param locale - The locale to use
+   * @param namespace - The namespace
+   * @param key - The base translation key
+   * @param context - The context
+   * @returns The context variant or undefined if there is none
+   */
+  private getContextTranslation(
+    locale: string,
+    namespace: string,
+    key: string,
+    context: string
+  ): string | undefined {
+    for (const candidate of [`${key}.${context}`, `${key}_${context}`]) {
+      const variant = this.store.getRawData(locale, namespace, candidate);
+      if (typeof variant === 'string' || typeof variant === 'number') {
+        return String(variant);
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get the plural data for a key and the context to apply to it
+   * Nested context objects inside the plural data are handled by the Pluralizer;
+   * otherwise a suffixed context variant ("friends_male": { "one": ..., "other": ... })
+   * is used when present
+   * 
+   * @param locale - The locale to use
+   * @param namespace - The namespace
+   * @param key - The base translation key
+   * @param context - The context, if any
+   * @returns The raw plural data and the context still to apply
+   */
+  private getPluralData(
+    locale: string,
+    namespace: string,
+    key: string,
+    context?: string
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  ): { data: any; context?: string } {
+    const data = this.store.getRawData(locale, namespace, key);
+
+    if (context && !(typeof data === 'object' && data !== null && context in data)) {
+      const variant = this.store.getRawData(locale, namespace, `${key}_${context}`);
+      if (variant) {
+        return { data: variant };
+      }
+    }
+
+    return { data, context };
+  }
+
   /**
    * Extract interpolation variables from options
    * Supports both options.interpolation and direct properties
@@ -117,7 +266,7 @@ export class Translator {
     }
 
     // Otherwise, extract all non-reserved properties as interpolation vars
-    const reservedKeys = ['count', 'ordinal', 'context', 'defaultValue', 'ns', 'interpolation', '_key'];
+    const reservedKeys = ['count', 'countFormat', 'countRange', 'ordinal', 'context', 'defaultValue', 'ns', 'interpolation', 'escapeValue', '_key'];
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const vars: Record<string, any> = {};
     let hasVars = false;
@@ -149,7 +298,7 @@ export class Translator {
     options: TranslationOptions<any>
   ): string | null {
     // Get the raw data which should be an object with plural forms
-    const rawData = this.store.getRawData(locale, namespace, key);
+    const { data: rawData, context } = this.getPluralData(locale, namespace, key, options.context);
 
     if (!rawData) {
       return null;
@@ -158,33 +307,50 @@ export class Translator {
     // Extract interpolation variables
     const interpolationVars = this.extractInterpolationVars(options);
 
+    // {{count}} shows the count as formatted for plural selection
+    // (ICU messages receive the raw count and format it themselves)
+    const count = this.interpolator.syntax === 'icu'
+      ? options.count
+      : this.pluralizer.formatCount(locale, options.count!, options.countFormat);
+
     // If it's a string, just return it (not a plural form)
     if (typeof rawData === 'string') {
+      const translation = this.resolveReferences(locale, namespace, key, rawData);
       if (interpolationVars || options.count !== undefined) {
-        return this.interpolator.interpolate(rawData, {
-          ...interpolationVars,
-          count: options.count,
-        });
+        return this.interpolator.interpolate(
+          translation,
+          { ...interpolationVars, count },
+          locale,
+          options.escapeValue
+        );
       }
-      return rawData;
+      return translation;
     }
 
     // If it's an object, use the pluralizer
     if (typeof rawData === 'object' && rawData !== null) {
-      const pluralTranslation = this.pluralizer.pluralize(
+      const pluralTranslation = this.resolveReferences(
         locale,
-        options.count!,
-        rawData,
-        options.ordinal ?? false,
-        options.context
+        namespace,
+        key,
+        this.pluralizer.pluralize(
+          locale,
+          options.count!,
+          rawData,
+          options.ordinal ?? false,
+          context,
+          options.countFormat
+        )
       );
 
       // Apply interpolation with count included
       if (interpolationVars || options.count !== undefined) {
-        return this.interpolator.interpolate(pluralTranslation, {
-          ...interpolationVars,
-          count: options.count,
-        });
+        return this.interpolator.interpolate(
+          pluralTranslation,
+          { ...interpolationVars, count },
+          locale,
+          options.escapeValue
+        );
       }
 
       return pluralTranslation;
@@ -193,6 +359,150 @@ export class Translator {
     return null;
   }
 
+  /**
+   * Resolve a plural translation key for a numeric range
+   * Interpolates {{from}} and {{to}} with the range ends and {{count}} with
+   * the formatted range
+   * 
+   * @param locale - The locale to use
+   * @param key - The translation key
+   * @param namespace - The namespace
+   * @param options - Translation options with countRange
+   * @returns The resolved plural translation or null if not found
+   */
+  private resolvePluralRangeKey(
+    locale: string,
+    key: string,
+    namespace: string,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    options: TranslationOptions<any>
+  ): string | null {
+    const { data: rawData, context } = this.getPluralData(locale, namespace, key, options.context);
+
+    if (!rawData) {
+      return null;
+    }
+
+    const range = options.countRange!;
+    const [start, end] = range;
+    const format = options.countFormat;
+    // ICU messages receive the raw range ends and format them themselves
+    const rangeVars = this.interpolator.syntax === 'icu'
+      ? { from: start, to: end }
+      : {
+          from: this.pluralizer.formatCount(locale, start, format),
+          to: this.pluralizer.formatCount(locale, end, format),
+          count: this.pluralizer.formatCountRange(locale, range, format),
+        };
+
+    let translation: string;
+    if (typeof rawData === 'string') {
+      translation = rawData;
+    } else if (typeof rawData === 'object') {
+      translation = this.pluralizer.pluralizeRange(locale, range, rawData, context, format);
+    } else {
+      return null;
+    }
+
+    return this.interpolator.interpolate(
+      this.resolveReferences(locale, namespace, key, translation),
+      { ...this.extractInterpolationVars(options), ...rangeVars },
+      locale,
+      options.escapeValue
+    );
+  }
+
+  /**
+   * Replace nested references in a message with the referenced translations
+   * References are resolved before interpolation, so the current interpolation
+   * values apply to the referenced text too. On a circular reference or when
+   * the maximum depth is exceeded, the error is reported (nesting.onError) and
+   * the message is returned with its references unresolved.
+   * 
+   * @param locale - The locale to use
+   * @param namespace - The namespace of the message
+   * @param key - The key of the message
+   * @param text - The message text
+   * @returns The message with references replaced
+   * @throws {TranslationReferenceError} In debug mode, instead of reporting the error
+   */
+  private resolveReferences(locale: string, namespace: string, key: string, text: string): string {
+    if (!text.includes('$t(') && !text.includes('@:')) {
+      return text;
+    }
+
+    try {
+      return this.expandReferences(locale, namespace, text, [`${namespace}:${key}`]);
+    } catch (error) {
+      if (!(error instanceof TranslationReferenceError) || this.debug) {
+        throw error;
+      }
+      if (this.onReferenceError) {
+        this.onReferenceError(error);
+      } else if (process.env.NODE_ENV !== 'production') {
+        console.error(`[i18n] ${error.message}`, error);
+      }
+      return text;
+    }
+  }
+
+  /**
+   * Recursively expand nested references
+   * 
+   * @param locale - The locale to use
+   * @param namespace - The namespace references without a namespace resolve in
+   * @param text - The text to expand
+   * @param path - The references followed so far ("ns:key"), starting with the message itself
+   * @returns The expanded text
+   * @throws {TranslationReferenceError} On a circular reference or when the maximum depth is exceeded
+   */
+  private expandReferences(locale: string, namespace: string, text: string, path: string[]): string {
+    return text.replace(REFERENCE_PATTERN, (match, functionReference?: string, shortReference?: string) => {
+      const reference = (functionReference ?? shortReference)!;
+      const separatorIndex = reference.indexOf(':');
+      const refNamespace = separatorIndex > 0 ? reference.slice(0, separatorIndex) : namespace;
+      const refKey = separatorIndex > 0 ? reference.slice(separatorIndex + 1) : reference;
+      const id = `${refNamespace}:${refKey}`;
+
+      if (path.includes(id)) {
+        throw new TranslationReferenceError(id, path, 'circular reference');
+      }
+      if (path.length > this.maxNestingDepth) {
+        throw new TranslationReferenceError(
+          id,
+          path,
+          `maximum nesting depth of ${this.maxNestingDepth} exceeded`
+        );
+      }
+
+      const value = this.lookupReference(locale, refNamespace, refKey);
+      if (value === undefined) {
+        this.logMissingTranslation(id);
+        return match;
+      }
+
+      return this.expandReferences(locale, refNamespace, value, [...path, id]);
+    });
+  }
+
+  /**
+   * Look up the text of a referenced key through the fallback chain
+   * 
+   * @param locale - The locale to use
+   * @param namespace - The namespace of the referenced key
+   * @param key - The referenced key
+   * @returns The referenced text or undefined if not found
+   */
+  private lookupReference(locale: string, namespace: string, key: string): string | undefined {
+    for (const candidate of this.getFallbackChain(locale)) {
+      const value = this.store.getTranslation(candidate, namespace, key);
+      if (value !== undefined) {
+        return value;
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Apply fallback when translation is not found
    * 
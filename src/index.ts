@@ -161,6 +161,71 @@ export type { I18nProviderProps } from './react/provider';
  */
 export { useTranslation } from './react/use-translation';
 
+/**
+ * useSuspenseTranslation hook - useTranslation that suspends until namespaces load
+ * 
+ * Namespaces passed to either hook are loaded on demand, so they do not need
+ * to be listed in `I18nConfig.namespaces`. Wrap the component in `<Suspense>`.
+ * 
+ * @example
+ * ```tsx
+ * const { t } = useSuspenseTranslation(['checkout', 'errors']);
+ * ```
+ */
+export { useSuspenseTranslation } from './react/use-translation';
+
+/**
+ * Trans component - Renders translations containing React elements
+ * 
+ * Tag placeholders in the translation are mapped to the elements or render
+ * functions passed in `components`, keeping interpolation and pluralization
+ * intact. The same rendering is available as `t.rich()` from useTranslation.
+ * 
+ * @example
+ * ```tsx
+ * import { Trans } from 'react-g11n';
+ * 
+ * // "agreement": "I accept the <link>terms</link>, {{name}}"
+ * function Agreement() {
+ *   return (
+ *     <Trans
+ *       i18nKey="agreement"
+ *       values={{ name: 'Alice' }}
+ *       components={{
+ *         link: <a href="/terms" />,
+ *         bold: (children) => <strong>{children}</strong>,
+ *       }}
+ *     />
+ *   );
+ * }
+ * ```
+ */
+export { Trans } from './react/trans';
+
+/**
+ * Props for the Trans component
+ */
+export type { TransProps } from './react/trans';
+
+/**
+ * renderRichText - Render a translated string with tag placeholders
+ * 
+ * Low-level helper used by Trans and t.rich().
+ */
+export { renderRichText } from './react/rich-text';
+
+/**
+ * parseRichText - Parse tag placeholders in a translated string
+ * 
+ * Framework-agnostic parser returning text and element nodes.
+ */
+export { parseRichText } from './core/rich-text';
+
+/**
+ * RichTextNode - Node produced by parseRichText
+ */
+export type { RichTextNode, RichTextElement } from './core/rich-text';
+
 /**
  * I18nContext - React context for i18n (advanced usage)
  * 
@@ -198,8 +263,8 @@ export { I18nContext } from './react/context';
  * This singleton instance can be used outside of React components, such as
  * in utility functions, services, middleware, or other non-React code.
  * 
- * The standalone API automatically synchronizes with the React context when
- * both are used in the same application.
+ * To share its state with React, pass it to the provider:
+ * `<I18nProvider instance={i18n}>`.
  * 
  * @example
  * ```typescript
@@ -235,6 +300,24 @@ export { I18nContext } from './react/context';
  */
 export { i18n } from './standalone';
 
+/**
+ * createI18n - Create an isolated i18n instance
+ * 
+ * Each instance has its own locale manager and translation store, so several
+ * apps on one page (micro-frontends, embedded widgets) do not share state.
+ * Call `init()` or pass the instance to `<I18nProvider instance={...}>`.
+ * 
+ * @example
+ * ```tsx
+ * const widgetI18n = createI18n({ defaultLocale: 'en', supportedLocales: ['en', 'de'] });
+ * 
+ * <I18nProvider instance={widgetI18n}>
+ *   <Widget />
+ * </I18nProvider>
+ * ```
+ */
+export { createI18n } from './standalone';
+
 /**
  * StandaloneI18n interface - Type definition for the standalone i18n instance
  * 
@@ -242,6 +325,14 @@ export { i18n } from './standalone';
  */
 export type { StandaloneI18n, StandaloneLocaleChangeListener } from './standalone';
 
+/**
+ * ScopedI18n - Locale-bound view returned by `i18n.forLocale(locale)`
+ * 
+ * Shares the instance's loaded translations but has its own locale, so
+ * concurrent server requests can translate in different languages.
+ */
+export type { ScopedI18n } from './standalone';
+
 // ============================================================================
 // Service Classes - Can be instantiated directly for advanced usage
 // ============================================================================
@@ -380,6 +471,13 @@ export { LocaleManager } from './core/locale-manager';
  */
 export { TranslationStore } from './core/translation-store';
 
+/**
+ * BASE_LAYER - Layer name reported for strings from the base catalogs
+ * 
+ * See `TranslationResolution.layer` and `TranslationStore.getLayer`.
+ */
+export { BASE_LAYER } from './core/translation-store';
+
 /**
  * TranslationLoader - Loads translation files
  * 
@@ -388,6 +486,87 @@ export { TranslationStore } from './core/translation-store';
  */
 export { TranslationLoader } from './core/translation-loader';
 
+/**
+ * Translation backends - Sources that translation files are read from
+ * 
+ * Pass one as `backend` in the configuration. Default: FetchBackend with `loadPath`.
+ * - FetchBackend: fetch static JSON files over HTTP
+ * - ImportBackend: dynamic import() map (e.g. Vite's import.meta.glob)
+ * - MemoryBackend: translations held in memory
+ * - FsBackend: read JSON files from disk (Node.js only)
+ * - ChainedBackend: combine backends (e.g. cache, network, bundled copy)
+ * 
+ * @example
+ * ```typescript
+ * import { ImportBackend } from 'react-g11n';
+ * 
+ * const config = {
+ *   defaultLocale: 'en',
+ *   supportedLocales: ['en', 'es'],
+ *   backend: new ImportBackend(
+ *     (locale, namespace) => import(`./locales/${locale}/${namespace}.json`)
+ *   ),
+ * };
+ * ```
+ */
+export { FetchBackend } from './backends/fetch-backend';
+export { ImportBackend } from './backends/import-backend';
+export { MemoryBackend } from './backends/memory-backend';
+export { FsBackend } from './backends/fs-backend';
+export { ChainedBackend } from './backends/chained-backend';
+export type { FetchBackendOptions } from './backends/fetch-backend';
+export type {
+  ImportBackendOptions,
+  TranslationImport,
+  TranslationImportFn,
+  TranslationModule,
+} from './backends/import-backend';
+export type { TranslationResources } from './backends/memory-backend';
+export type { FsBackendOptions } from './backends/fs-backend';
+export type { ChainedBackendOptions, ChainedBackendStrategy } from './backends/chained-backend';
+
+/**
+ * TranslationManifest - Manifest of content-hashed catalog URLs
+ * 
+ * Maps locales and namespaces to catalog URLs with metadata (completeness,
+ * last update). Pass it as `manifest` in the configuration: catalogs are
+ * fetched from the manifest URLs and its locales become supported locales.
+ * Call `refresh()` to pick up a new deployment; changed catalogs are reloaded.
+ * 
+ * @example
+ * ```typescript
+ * import { TranslationManifest } from 'react-g11n';
+ * 
+ * const manifest = new TranslationManifest({ url: '/locales/manifest.json' });
+ * const config = { defaultLocale: 'en', supportedLocales: ['en'], manifest };
+ * ```
+ */
+export { TranslationManifest } from './core/translation-manifest';
+export type { TranslationManifestOptions, ManifestChangeListener } from './core/translation-manifest';
+
+/**
+ * Persistent translation cache
+ * 
+ * Enabled with `cache` in the configuration. TranslationCache handles catalog
+ * versions and expiry on top of a storage:
+ * - IndexedDBCacheStorage: IndexedDB (default in browsers)
+ * - LocalStorageCacheStorage: localStorage (fallback)
+ * - MemoryCacheStorage: in memory (tests, Node.js)
+ * 
+ * @example
+ * ```typescript
+ * const config = {
+ *   defaultLocale: 'en',
+ *   supportedLocales: ['en', 'es'],
+ *   cache: { version: BUILD_HASH, maxAge: 24 * 60 * 60 * 1000 },
+ * };
+ * ```
+ */
+export { TranslationCache, createCacheStorage } from './cache/translation-cache';
+export { IndexedDBCacheStorage } from './cache/indexeddb-cache-storage';
+export { LocalStorageCacheStorage } from './cache/local-storage-cache-storage';
+export { MemoryCacheStorage } from './cache/memory-cache-storage';
+
 /**
  * Translator - Core translation resolution engine
  * 
@@ -412,6 +591,58 @@ export { Interpolator } from './core/interpolator';
  */
 export { Pluralizer } from './core/pluralizer';
 
+/**
+ * registerPluralRule - Register a custom plural rule for a locale
+ * 
+ * Plural forms are selected with Intl.PluralRules. A registered rule takes
+ * precedence for the locale and its regional variants.
+ * 
+ * @example
+ * ```typescript
+ * import { registerPluralRule } from 'react-g11n';
+ * 
+ * registerPluralRule('x-pirate', (count) => (count === 1 ? 'one' : 'other'));
+ * ```
+ */
+export { registerPluralRule, unregisterPluralRule } from './utils/cldr-rules';
+
+/**
+ * getPluralOperands - CLDR plural operands (n, i, v, w, f, t) of a number
+ * 
+ * Decimal strings keep their visible fraction digits ("1.0" has v = 1).
+ */
+export { getPluralOperands } from './utils/cldr-rules';
+
+/**
+ * getPluralRangeForm - Plural form for a numeric range
+ * 
+ * Uses Intl.PluralRules.selectRange with a CLDR table as fallback.
+ */
+export { getPluralRangeForm } from './utils/cldr-rules';
+
+/**
+ * MessageFormatter - ICU MessageFormat evaluation
+ * 
+ * Parses ICU messages (plural, selectordinal, select, '#' substitution,
+ * apostrophe escaping) into a cached AST and formats them for a locale.
+ * Used by Interpolator when `interpolation.syntax` is 'icu'.
+ * 
+ * @example
+ * ```typescript
+ * import { MessageFormatter } from 'react-g11n';
+ * 
+ * const formatter = new MessageFormatter();
+ * formatter.format('en', '{count, plural, one {# item} other {# items}}', { count: 3 });
+ * // "3 items"
+ * ```
+ */
+export { MessageFormatter, parseMessage } from './core/message-format';
+
+/**
+ * MessageNode - AST node of a parsed ICU message
+ */
+export type { MessageNode, MessageFormatterOptions } from './core/message-format';
+
 // ============================================================================
 // Type Exports - Configuration, Translation, Locale, and Service Types
 // ============================================================================
@@ -423,13 +654,14 @@ export { Pluralizer } from './core/pluralizer';
  * 
  * @property defaultLocale - Default locale to use
  * @property supportedLocales - Array of supported locale codes
- * @property fallbackLocale - Fallback locale for missing translations
+ * @property fallbackLocale - Fallback locale(s): a locale, an ordered list, or a per-locale map
  * @property namespaces - Array of translation namespaces
  * @property defaultNamespace - Default namespace to use
  * @property loadPath - Path template for loading translation files
  * @property debug - Enable debug logging
  * @property interpolation - Interpolation configuration
  * @property pluralization - Pluralization configuration
+ * @property nesting - Nested translation reference configuration
  */
 export type { I18nConfig } from './types';
 
@@ -439,9 +671,35 @@ export type { I18nConfig } from './types';
  * @property prefix - Prefix for interpolation variables (default: '{{')
  * @property suffix - Suffix for interpolation variables (default: '}}')
  * @property escapeValue - Whether to escape HTML in values (default: true)
+ * @property syntax - Message syntax: 'default' ({{var}}) or 'icu' (ICU MessageFormat)
+ * @property formatters - Custom formatters for {{value, name(args)}} placeholders
  */
 export type { InterpolationConfig } from './types';
 
+/**
+ * InterpolationFormatter - Formatter used in placeholders
+ * 
+ * Receives the value, the arguments in parentheses, and the locale with its
+ * FormatService: {{price, currency(EUR)}} calls the "currency" formatter
+ * with args ['EUR'].
+ */
+export type { InterpolationFormatter } from './types';
+
+/**
+ * MessageSyntax - Syntax used by translation strings
+ * 
+ * Either 'default' ({{var}} placeholders) or 'icu' (ICU MessageFormat).
+ */
+export type { MessageSyntax } from './types';
+
+/**
+ * FallbackLocaleConfig - Fallback locale configuration
+ * 
+ * A single locale, an ordered list of locales, or a map of locale codes to
+ * fallback locales (with an optional "default" entry).
+ */
+export type { FallbackLocaleConfig, FallbackLocaleMap } from './types';
+
 /**
  * PluralizationConfig - Configuration for pluralization
  * 
@@ -449,6 +707,126 @@ export type { InterpolationConfig } from './types';
  */
 export type { PluralizationConfig } from './types';
 
+/**
+ * NestingConfig - Configuration for nested translation references
+ * 
+ * @property maxDepth - Maximum depth of nested references (default: 10)
+ * @property onError - Called with circular or too-deep references (default: log them)
+ */
+export type { NestingConfig } from './types';
+
+/**
+ * LoadingConfig - Translation loading configuration
+ * 
+ * @property retries - Retries after a failed load (default: 2)
+ * @property retryDelay - Delay before the first retry in ms, doubled per retry (default: 300)
+ * @property maxRetryDelay - Maximum delay between retries in ms (default: 5000)
+ * @property timeout - Timeout per attempt in ms, 0 disables (default: 10000)
+ */
+export type { LoadingConfig } from './types';
+
+/**
+ * TranslationManifestData - Manifest JSON: locale -> namespace -> URL or entry
+ */
+export type { TranslationManifestData, ManifestEntry, ManifestChange } from './types';
+
+/**
+ * CacheConfig - Persistent translation cache configuration
+ * 
+ * @property storage - 'auto' | 'indexeddb' | 'localstorage' | 'memory' or a custom storage (default: 'auto')
+ * @property version - Catalog version or hash; entries from other versions are discarded
+ * @property maxAge - Maximum age of entries in ms, 0 disables expiry (default: 7 days)
+ * @property revalidate - Reload cached namespaces in the background after serving them (default: true)
+ * @property readTimeout - Time in ms before a cache read counts as a miss (default: 500)
+ */
+export type { CacheConfig } from './types';
+
+/**
+ * MemoryConfig - Memory limits for loaded namespaces (LRU eviction)
+ * 
+ * @property maxLocales - Maximum number of locales kept in memory
+ * @property maxNamespaces - Maximum number of namespaces kept in memory
+ * @property maxBytes - Approximate memory budget in bytes
+ */
+export type { MemoryConfig } from './types';
+
+/**
+ * TranslationCacheStats - Hits, misses, evictions and size of the in-memory cache
+ * 
+ * Returned by `i18n.getCacheStats()` and `TranslationStore.getCacheStats()`.
+ */
+export type { TranslationCacheStats } from './types';
+
+/**
+ * TranslationCacheStorage - Storage interface for the persistent cache
+ */
+export type { TranslationCacheStorage, CachedTranslation } from './types';
+
+/**
+ * NamespaceLoadState - Load state of a namespace for a locale
+ * 
+ * 'idle' | 'loading' | 'loaded' | 'failed'
+ */
+export type { NamespaceLoadState } from './types';
+
+/**
+ * TranslationLoadErrorListener - Listener for namespaces that failed to load
+ */
+export type { TranslationLoadErrorListener } from './types';
+
+/**
+ * TranslationUpdateListener - Listener for namespaces changed by revalidation
+ * or the resource API
+ * 
+ * Registered with `TranslationStore.subscribe`.
+ */
+export type { TranslationUpdateListener } from './types';
+
+/**
+ * ResourceApi - Runtime API for adding and removing translations
+ * 
+ * Available on `i18n`, the React context (`useI18n()`) and TranslationStore:
+ * addResourceBundle, addResource, removeResourceBundle, getResourceBundle, hasResource.
+ */
+export type { ResourceApi } from './types';
+
+/**
+ * ResourceBundleOptions - Options for addResourceBundle
+ * 
+ * @property deep - Merge nested objects instead of replacing top-level keys (default: false)
+ * @property overwrite - Replace existing values (default: true)
+ */
+export type { ResourceBundleOptions } from './types';
+
+/**
+ * OverrideLayerConfig - An override layer on top of the base catalogs
+ * 
+ * @property name - Unique layer name ('base' is reserved)
+ * @property loadPath - Path template for the layer's translation files
+ * @property backend - Backend for the layer's translation files
+ * @property resources - Inline translations by locale and namespace
+ */
+export type { OverrideLayerConfig } from './types';
+
+/**
+ * OverrideLayerApi - Runtime API for override layers
+ * 
+ * Available on `i18n`, the React context (`useI18n()`) and TranslationStore:
+ * pushLayer, removeLayer, getLayers.
+ */
+export type { OverrideLayerApi } from './types';
+
+/**
+ * I18nState - Serializable state for server-side rendering
+ * 
+ * Created with `createServerI18n(...).getState()` from 'react-g11n/server'
+ * and passed to I18nProvider's `initialState`.
+ * 
+ * @property locale - Resolved locale
+ * @property resources - Loaded translations by locale and namespace
+ */
+export type { I18nState } from './types';
+
 /**
  * TranslationKey - Type for translation keys
  * 
@@ -460,7 +838,9 @@ export type { TranslationKey } from './types';
 /**
  * TranslationOptions - Options for the translation function
  * 
- * @property count - Count for pluralization
+ * @property count - Count for pluralization (number or pre-formatted string)
+ * @property countFormat - Number format for the count (Intl.NumberFormatOptions)
+ * @property countRange - Numeric range [start, end] for plural range selection
  * @property ordinal - Use ordinal pluralization (1st, 2nd, 3rd)
  * @property context - Context for contextual translations
  * @property defaultValue - Default value if translation is missing
@@ -476,6 +856,25 @@ export type { TranslationOptions } from './types';
  */
 export type { TranslateFn } from './types';
 
+/**
+ * RichTranslateFn - Type signature for t.rich()
+ * 
+ * Returns React nodes with tag placeholders mapped to components.
+ */
+export type { RichTranslateFn, RichCapableTranslateFn } from './types';
+
+/**
+ * RichTranslationOptions - Options for t.rich()
+ * 
+ * @property components - Components keyed by tag name
+ */
+export type { RichTranslationOptions } from './types';
+
+/**
+ * RichTextComponent - Element or render function for a tag placeholder
+ */
+export type { RichTextComponent } from './types';
+
 /**
  * TranslationNamespace - Structure of a translation namespace
  * 
@@ -483,6 +882,38 @@ export type { TranslateFn } from './types';
  */
 export type { TranslationNamespace } from './types';
 
+/**
+ * TranslationBackend - Interface for custom translation sources
+ * 
+ * Implement `read(locale, namespace, signal)` and pass the backend as `backend`.
+ */
+export type { TranslationBackend } from './types';
+
+/**
+ * WritableTranslationBackend - Backend that can store translations
+ * 
+ * Used as a cache layer by ChainedBackend, which writes successful results back.
+ */
+export type { WritableTranslationBackend } from './types';
+
+/**
+ * RevalidatingTranslationBackend - Backend that refreshes translations in the background
+ * RevalidateListener - Listener for refreshed translations
+ * 
+ * TranslationStore subscribes to `onRevalidate` and applies the fresh copy,
+ * so `'cache-then-revalidate'` updates the UI without extra wiring.
+ */
+export type { RevalidatingTranslationBackend, RevalidateListener } from './types';
+
+/**
+ * TranslationResolution - Result of Translator.resolve
+ * 
+ * @property value - The translated string
+ * @property locale - Locale in the fallback chain that satisfied the key (null if missing)
+ * @property chain - Locales that were tried, in order
+ */
+export type { TranslationResolution } from './types';
+
 /**
  * LocaleInfo - Information about a locale
  * 
@@ -512,6 +943,18 @@ export type { PluralForm } from './types';
  */
 export type { PluralRuleFn } from './types';
 
+/**
+ * PluralOperands - CLDR plural operands of a displayed number
+ * 
+ * @property n - Absolute value
+ * @property i - Integer digits
+ * @property v - Number of visible fraction digits (with trailing zeros)
+ * @property w - Number of visible fraction digits (without trailing zeros)
+ * @property f - Visible fraction digits (with trailing zeros)
+ * @property t - Visible fraction digits (without trailing zeros)
+ */
+export type { PluralOperands } from './types';
+
 /**
  * PluralTranslations - Object containing plural translations
  * 
@@ -652,10 +1095,13 @@ export { I18nError } from './types';
  * TranslationLoadError - Error thrown when translation loading fails
  * 
  * Thrown when a translation file cannot be loaded from the server.
+ * Reported through the provider's `onError`, `i18n.onLoadError` and
+ * `TranslationStore.onLoadError`.
  * 
  * @property locale - The locale that failed to load
  * @property namespace - The namespace that failed to load
  * @property cause - The underlying error that caused the failure
+ * @property status - HTTP status code, if the backend received a response
  */
 export { TranslationLoadError } from './types';
 
@@ -688,3 +1134,40 @@ export { MissingTranslationError } from './types';
  * @property missingVariables - Array of missing variable names
  */
 export { InterpolationError } from './types';
+
+/**
+ * MessageFormatError - Error thrown when an ICU message is malformed
+ * 
+ * Thrown by the ICU message parser. The Interpolator catches it and
+ * returns the raw message so a single bad string never breaks rendering.
+ * 
+ * @property messageText - The message that failed to parse
+ * @property reason - Description of the syntax error and its position
+ */
+export { MessageFormatError } from './types';
+
+/**
+ * TranslationReferenceError - Error for unresolvable nested references
+ * 
+ * Created for circular references ($t(a) -> $t(b) -> $t(a)) and when the
+ * maximum nesting depth is exceeded. Passed to `nesting.onError` (or logged)
+ * and the message is returned with its references unresolved; thrown from
+ * `t()` in debug mode.
+ * 
+ * @property reference - The reference that could not be resolved ("ns:key")
+ * @property path - The references followed before it
+ * @property reason - Why the reference could not be resolved
+ */
+export { TranslationReferenceError } from './types';
+
+/**
+ * ManifestLoadError - Error when a translation manifest cannot be loaded
+ * 
+ * Thrown by TranslationManifest.load and refresh. When the manifest fails to
+ * load, FetchBackend falls back to `loadPath`.
+ * 
+ * @property url - The manifest URL
+ * @property cause - The underlying error
+ * @property status - HTTP status code, if a response was received
+ */
+export { ManifestLoadError } from './types';
@@ -12,7 +12,15 @@
 'use client';
 
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
-import type { I18nConfig, I18nContextValue, TranslationKey, TranslationOptions } from '../types';
+import type {
+  I18nConfig,
+  I18nContextValue,
+  I18nState,
+  OverrideLayerApi,
+  ResourceApi,
+  TranslationKey,
+  TranslationOptions,
+} from '../types';
 import { LocaleManager } from '../core/locale-manager';
 import { TranslationStore } from '../core/translation-store';
 import { TranslationLoader } from '../core/translation-loader';
@@ -24,22 +32,33 @@ import { CollationService } from '../core/collation-service';
 import { DisplayNamesService } from '../core/display-names-service';
 import { SegmentationService } from '../core/segmentation-service';
 import { DocumentService } from '../core/document-service';
-import { isStandaloneImpl, i18n } from '../standalone';
+import { isStandaloneImpl } from '../standalone';
+import type { I18nServices, StandaloneI18n } from '../standalone';
 import { I18nContext } from './context';
 
 /**
  * Props for I18nProvider component
  */
 export interface I18nProviderProps {
-  /** i18n configuration */
-  config: I18nConfig;
+  /** i18n configuration (required unless `instance` was created with one) */
+  config?: I18nConfig;
+  /**
+   * Instance to share with standalone code, e.g. the `i18n` singleton or one
+   * from createI18n. Without it the provider's state is private to the tree.
+   */
+  instance?: StandaloneI18n;
   /** Child components */
   children: React.ReactNode;
   /** Optional initial locale (overrides detection) */
   initialLocale?: string;
+  /**
+   * State from the server (createServerI18n().getState()); hydrated
+   * synchronously so the first render matches the server markup
+   */
+  initialState?: I18nState;
   /** Callback when locale changes */
   onLocaleChange?: (locale: string) => void;
-  /** Error handler callback */
+  /** Error handler callback, also called with a TranslationLoadError for every namespace that fails to load */
   onError?: (error: Error) => void;
 }
 
@@ -47,69 +66,30 @@ export interface I18nProviderProps {
  * I18nProvider component
  * 
  * Wraps the application and provides i18n context to all child components.
- * Initializes all core services and manages locale state.
+ * Initializes all core services and manages locale state. With `instance`,
+ * the services of that instance are shared, so standalone code sees the same
+ * locale and translations.
  */
 export function I18nProvider({
-  config,
+  config: configProp,
+  instance,
   children,
   initialLocale,
+  initialState,
   onLocaleChange,
   onError,
 }: I18nProviderProps) {
   // Initialize core services (only once)
-  const servicesRef = useRef<{
-    localeManager: LocaleManager;
-    translationStore: TranslationStore;
-    translator: Translator;
-    formatService: FormatService;
-    collationService: CollationService;
-    displayNamesService: DisplayNamesService;
-    segmentationService: SegmentationService;
-    documentService: DocumentService;
-  } | null>(null);
+  const servicesRef = useRef<I18nServices | null>(null);
 
   if (!servicesRef.current) {
-    const localeManager = new LocaleManager(config, initialLocale);
-    const translationLoader = new TranslationLoader(config);
-    const translationStore = new TranslationStore(translationLoader);
-    const interpolator = new Interpolator(config.interpolation);
-    const pluralizer = new Pluralizer();
-    const translator = new Translator(translationStore, interpolator, pluralizer, config);
-    const currentLocale = localeManager.getCurrentLocale();
-    const formatService = new FormatService(currentLocale);
-    const collationService = new CollationService(currentLocale);
-    const displayNamesService = new DisplayNamesService(currentLocale);
-    const segmentationService = new SegmentationService(currentLocale);
-    const documentService = new DocumentService();
-
-    servicesRef.current = {
-      localeManager,
-      translationStore,
-      translator,
-      formatService,
-      collationService,
-      displayNamesService,
-      segmentationService,
-      documentService,
-    };
-
-    // Update document locale on initialization
-    documentService.updateDocumentLocale(currentLocale);
-
-    // Synchronize standalone API with React context
-    if (isStandaloneImpl(i18n)) {
-      i18n._syncWithReact(
-        localeManager,
-        translationStore,
-        translator,
-        formatService,
-        collationService,
-        displayNamesService,
-        segmentationService,
-        documentService,
-        config
-      );
+    const services = instance
+      ? attachInstance(instance, configProp, initialLocale ?? initialState?.locale)
+      : createServices(configProp, initialLocale ?? initialState?.locale);
+    if (initialState) {
+      services.translationStore.hydrate(initialState.resources);
     }
+    servicesRef.current = services;
   }
 
   const {
@@ -121,21 +101,54 @@ export function I18nProvider({
     displayNamesService,
     segmentationService,
     documentService,
+    config,
   } = servicesRef.current;
 
-  // Locale state
+  // Locale state (ready on the first render when hydrated from initialState)
   const [locale, setLocale] = useState<string>(localeManager.getCurrentLocale());
-  const [isLoading, setIsLoading] = useState<boolean>(true);
-  const [isReady, setIsReady] = useState<boolean>(false);
+  const [isLoading, setIsLoading] = useState<boolean>(
+    () => !hasNamespaces(translationStore, localeManager.getCurrentLocale(), config)
+  );
+  const [isReady, setIsReady] = useState<boolean>(
+    () => hasNamespaces(translationStore, localeManager.getCurrentLocale(), config)
+  );
+  // Bumped when revalidation replaces loaded translations, so consumers re-render
+  const [translationsRevision, setTranslationsRevision] = useState<number>(0);
+
+  // Re-render when revalidation changes loaded translations
+  useEffect(() => {
+    return translationStore.subscribe(() => {
+      setTranslationsRevision((revision) => revision + 1);
+    });
+  }, [translationStore]);
+
+  // Release the subscriptions of a store the provider owns
+  useEffect(() => {
+    if (instance) {
+      return;
+    }
+    return () => translationStore.dispose();
+  }, [instance, translationStore]);
+
+  // Route namespace load failures to onError (registered before the initial load)
+  useEffect(() => {
+    if (!onError) {
+      return;
+    }
+    return translationStore.onLoadError(onError);
+  }, [translationStore, onError]);
 
   // Load initial translations
   useEffect(() => {
     const loadInitialTranslations = async () => {
       try {
-        setIsLoading(true);
-        
         const namespacesToLoad = config.namespaces || ['common'];
         const currentLocale = localeManager.getCurrentLocale();
+
+        // Hydrated namespaces do not need a loading state
+        if (!hasNamespaces(translationStore, currentLocale, config)) {
+          setIsLoading(true);
+        }
         
         // Load all configured namespaces for the current locale
         await translationStore.preloadLocale(currentLocale, namespacesToLoad);
@@ -163,17 +176,13 @@ export function I18nProvider({
       setLocale(newLocale);
       
       // Update all services with new locale
+      translationStore.setActiveLocale(newLocale);
       formatService.setLocale(newLocale);
       collationService.setLocale(newLocale);
       displayNamesService.setLocale(newLocale);
       segmentationService.setLocale(newLocale);
       documentService.updateDocumentLocale(newLocale);
       
-      // Notify standalone API of locale change
-      if (isStandaloneImpl(i18n)) {
-        i18n._notifyFromReact(newLocale);
-      }
-      
       if (onLocaleChange) {
         onLocaleChange(newLocale);
       }
@@ -182,6 +191,7 @@ export function I18nProvider({
     return unsubscribe;
   }, [
     localeManager,
+    translationStore,
     formatService,
     collationService,
     displayNamesService,
@@ -195,21 +205,42 @@ export function I18nProvider({
     <K extends TranslationKey>(key: K, options?: TranslationOptions<K>): string => {
       return translator.translate(locale, key, options);
     },
-    [translator, locale]
+    // translationsRevision gives t a new identity when translations change
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [translator, locale, translationsRevision]
   );
 
+  // Controller of the pending locale change, aborted when another change starts
+  const localeChangeRef = useRef<AbortController | null>(null);
+
   // Change locale function
   const changeLocale = useCallback(
     async (newLocale: string): Promise<void> => {
+      // Cancel loads for a locale the user already switched away from
+      localeChangeRef.current?.abort();
+      const controller = new AbortController();
+      localeChangeRef.current = controller;
+
       try {
         setIsLoading(true);
         
-        // Load translations for the new locale
-        const namespacesToLoad = config.namespaces || ['common'];
-        await translationStore.preloadLocale(newLocale, namespacesToLoad);
+        // Resolve to the canonical supported tag (e.g. "pt-br" -> "pt-BR")
+        const resolvedLocale = localeManager.resolveLocale(newLocale);
+
+        // Load the configured namespaces and those loaded lazily for the current locale
+        const namespacesToLoad = Array.from(new Set([
+          ...(config.namespaces || ['common']),
+          ...translationStore.getLoadedNamespaces(localeManager.getCurrentLocale()),
+        ]));
+        await translationStore.preloadLocale(resolvedLocale, namespacesToLoad, controller.signal);
+
+        // A newer locale change superseded this one
+        if (controller.signal.aborted) {
+          return;
+        }
         
         // Update locale in LocaleManager (this will trigger the subscription)
-        await localeManager.setLocale(newLocale);
+        await localeManager.setLocale(resolvedLocale);
       } catch (error) {
         const err = error instanceof Error ? error : new Error('Failed to change locale');
         if (onError) {
@@ -219,21 +250,66 @@ export function I18nProvider({
         }
         throw err;
       } finally {
-        setIsLoading(false);
+        if (localeChangeRef.current === controller) {
+          localeChangeRef.current = null;
+          setIsLoading(false);
+        }
       }
     },
     [localeManager, translationStore, config.namespaces, onError]
   );
 
+  // Bumped when the manifest changes, as it can add supported locales
+  const [manifestRevision, setManifestRevision] = useState<number>(0);
+
+  useEffect(() => {
+    return config.manifest?.subscribe(() => {
+      setManifestRevision((revision) => revision + 1);
+    });
+  }, [config.manifest]);
+
   // Get available locales
   const locales = useMemo(
     () => localeManager.getSupportedLocales(),
-    [localeManager]
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [localeManager, manifestRevision]
+  );
+
+  // Lazy namespace loading for useTranslation
+  const loadNamespaces = useCallback(
+    (namespaces: string[]) => translationStore.preloadLocale(locale, namespaces),
+    [translationStore, locale]
+  );
+
+  const getLoadState = useCallback(
+    (namespace: string, targetLocale?: string) => translationStore.getLoadState(targetLocale ?? locale, namespace),
+    [translationStore, locale]
+  );
+
+  // Resource and layer API; the store subscription above re-renders on changes
+  const resources: ResourceApi & OverrideLayerApi = useMemo(
+    () => ({
+      addResourceBundle: (locale, namespace, data, options) =>
+        translationStore.addResourceBundle(locale, namespace, data, options),
+      addResource: (locale, namespace, key, value) =>
+        translationStore.addResource(locale, namespace, key, value),
+      removeResourceBundle: (locale, namespace) =>
+        translationStore.removeResourceBundle(locale, namespace),
+      getResourceBundle: (locale, namespace) =>
+        translationStore.getResourceBundle(locale, namespace),
+      hasResource: (locale, namespace, key) =>
+        translationStore.hasResource(locale, namespace, key),
+      pushLayer: (layer) => translationStore.pushLayer(layer),
+      removeLayer: (name) => translationStore.removeLayer(name),
+      getLayers: () => translationStore.getLayers(),
+    }),
+    [translationStore]
   );
 
   // Context value
   const contextValue: I18nContextValue = useMemo(
     () => ({
+      ...resources,
       t,
       locale,
       locales,
@@ -246,6 +322,8 @@ export function I18nProvider({
       segmentation: segmentationService,
       document: documentService,
       config,
+      loadNamespaces,
+      getLoadState,
     }),
     [
       t,
@@ -260,6 +338,9 @@ export function I18nProvider({
       segmentationService,
       documentService,
       config,
+      loadNamespaces,
+      getLoadState,
+      resources,
     ]
   );
 
@@ -269,3 +350,54 @@ export function I18nProvider({
     </I18nContext.Provider>
   );
 }
+
+/**
+ * Check if the configured namespaces are loaded for a locale
+ */
+function hasNamespaces(store: TranslationStore, locale: string, config: I18nConfig): boolean {
+  return (config.namespaces || ['common']).every((namespace) => store.hasNamespace(locale, namespace));
+}
+
+/**
+ * Create the provider's own core services
+ */
+function createServices(config: I18nConfig | undefined, initialLocale?: string): I18nServices {
+  if (!config) {
+    throw new Error('[i18n] I18nProvider requires a config or an instance.');
+  }
+
+  const localeManager = new LocaleManager(config, initialLocale);
+  const translationLoader = new TranslationLoader(config);
+  const translationStore = new TranslationStore(translationLoader, config);
+  const interpolator = new Interpolator(config.interpolation);
+  const pluralizer = new Pluralizer();
+  const translator = new Translator(translationStore, interpolator, pluralizer, config);
+  const currentLocale = localeManager.getCurrentLocale();
+  translationStore.setActiveLocale(currentLocale);
+  const documentService = new DocumentService();
+
+  // Update document locale on initialization
+  documentService.updateDocumentLocale(currentLocale);
+
+  return {
+    localeManager,
+    translationStore,
+    translator,
+    formatService: new FormatService(currentLocale),
+    collationService: new CollationService(currentLocale),
+    displayNamesService: new DisplayNamesService(currentLocale),
+    segmentationService: new SegmentationService(currentLocale),
+    documentService,
+    config,
+  };
+}
+
+/**
+ * Share the core services of a standalone instance
+ */
+function attachInstance(instance: StandaloneI18n, config: I18nConfig | undefined, initialLocale?: string): I18nServices {
+  if (!isStandaloneImpl(instance)) {
+    throw new Error('[i18n] I18nProvider instance must come from createI18n() or be the i18n singleton.');
+  }
+  return instance._attach(config, initialLocale);
+}
@@ -0,0 +1,70 @@
+/**
+ * Rich text rendering for translations containing tag placeholders
+ *
+ * Maps the nodes produced by parseRichText to React elements using the
+ * components supplied by the caller.
+ */
+
+'use client';
+
+import { cloneElement, Fragment, isValidElement } from 'react';
+import type { ReactNode } from 'react';
+import { parseRichText, unescapeHtml } from '../core/rich-text';
+import type { RichTextNode } from '../core/rich-text';
+import type { RichTextComponent } from '../types';
+
+/**
+ * Render a translated string with tag placeholders as React nodes
+ *
+ * @param text - The translated (and interpolated) string
+ * @param components - Components keyed by tag name
+ * @returns A React fragment containing the rendered nodes
+ */
+export function renderRichText(
+  text: string,
+  components: Record<string, RichTextComponent> = {}
+): ReactNode {
+  const nodes = renderNodes(parseRichText(text), components);
+  return <>{nodes}</>;
+}
+
+/**
+ * Render a list of rich text nodes
+ *
+ * @param nodes - Parsed rich text nodes
+ * @param components - Components keyed by tag name
+ * @returns Rendered React nodes
+ */
+function renderNodes(
+  nodes: RichTextNode[],
+  components: Record<string, RichTextComponent>
+): ReactNode[] {
+  return nodes.map((node, index) => {
+    if (typeof node === 'string') {
+      return unescapeHtml(node);
+    }
+
+    const children = renderNodes(node.children, components);
+    const component = components[node.tag];
+
+    if (component === undefined) {
+      if (process.env.NODE_ENV !== 'production') {
+        console.warn(`[i18n] No component provided for rich text tag: <${node.tag}>`);
+      }
+      return <Fragment key={index}>{children}</Fragment>;
+    }
+
+    if (typeof component === 'function') {
+      return <Fragment key={index}>{component(children)}</Fragment>;
+    }
+
+    if (isValidElement(component)) {
+      // Keep the element's own children for self-closing tags
+      return children.length > 0
+        ? cloneElement(component, { key: index }, ...children)
+        : cloneElement(component, { key: index });
+    }
+
+    return <Fragment key={index}>{children}</Fragment>;
+  });
+}
@@ -0,0 +1,78 @@
+/**
+ * Trans component - Renders translations containing React elements
+ *
+ * Tag placeholders in the translation (e.g. "Read the <link>terms</link>")
+ * are mapped to the elements or render functions passed in `components`,
+ * so translators can reorder the whole sentence.
+ */
+
+'use client';
+
+import type { RichTextComponent, TranslationKey } from '../types';
+import { useTranslation } from './use-translation';
+
+/**
+ * Props for Trans component
+ */
+export interface TransProps {
+  /** Translation key */
+  i18nKey: TranslationKey;
+  /** Namespace to use for this translation */
+  ns?: string;
+  /** Variables for interpolation */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  values?: Record<string, any>;
+  /** Count for pluralization (a number, or a pre-formatted number such as "1.0") */
+  count?: number | string;
+  /** Number format for the count */
+  countFormat?: Intl.NumberFormatOptions;
+  /** Numeric range for plural range selection */
+  countRange?: [number, number];
+  /** Context for contextual translations */
+  context?: string;
+  /** Default value if translation is missing */
+  defaultValue?: string;
+  /** Components keyed by tag name */
+  components?: Record<string, RichTextComponent>;
+}
+
+/**
+ * Trans component
+ *
+ * @example
+ * ```tsx
+ * // "agreement": "I accept the <link>terms</link>, {{name}}"
+ * <Trans
+ *   i18nKey="agreement"
+ *   values={{ name: 'Alice' }}
+ *   components={{ link: <a href="/terms" /> }}
+ * />
+ * ```
+ */
+export function Trans({
+  i18nKey,
+  ns,
+  values,
+  count,
+  countFormat,
+  countRange,
+  context,
+  defaultValue,
+  components,
+}: TransProps) {
+  const { t } = useTranslation(ns);
+
+  return (
+    <>
+      {t.rich(i18nKey, {
+        ...values,
+        ...(count !== undefined && { count }),
+        ...(countFormat !== undefined && { countFormat }),
+        ...(countRange !== undefined && { countRange }),
+        ...(context !== undefined && { context }),
+        ...(defaultValue !== undefined && { defaultValue }),
+        components,
+      })}
+    </>
+  );
+}
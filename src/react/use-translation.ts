@@ -2,7 +2,8 @@
  * useTranslation hook - Primary hook for accessing i18n functionality
  * 
  * Provides:
- * - Translation function (t)
+ * - Translation function (t) and rich text variant (t.rich)
+ * - Lazy loading of the hook's namespaces (useSuspenseTranslation suspends until loaded)
  * - Current locale
  * - Available locales
  * - Locale change function
@@ -12,9 +13,19 @@
 
 'use client';
 
-import { useContext } from 'react';
+import { useContext, useEffect, useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
 import { I18nContext } from './context';
-import type { UseTranslationResult, TranslationKey, TranslationOptions } from '../types';
+import { renderRichText } from './rich-text';
+import type {
+  I18nContextValue,
+  NamespaceLoadState,
+  UseTranslationResult,
+  TranslationKey,
+  TranslationOptions,
+  RichTranslationOptions,
+  RichCapableTranslateFn,
+} from '../types';
 
 /**
  * useTranslation hook
@@ -22,10 +33,18 @@ import type { UseTranslationResult, TranslationKey, TranslationOptions } from '.
  * Access translation functionality in React components.
  * Must be used within an I18nProvider.
  * 
- * @param namespace - Optional namespace to use for translations in this component
+ * Namespaces that are not loaded yet are loaded for the current locale, so
+ * they do not need to be listed in `I18nConfig.namespaces`. `isReady` is
+ * false until they have finished loading (or failed). The first namespace is
+ * used by `t`; pass `{ ns }` to use another one.
+ * 
+ * @param namespaces - Optional namespace or namespaces used in this component
  * @returns Translation utilities and state
  * @throws Error if used outside I18nProvider
  * 
+ * `t.rich(key, { components })` renders tag placeholders in the translation
+ * (e.g. "Read the <link>terms</link>") as React elements.
+ * 
  * @example
  * ```tsx
  * function MyComponent() {
@@ -44,30 +63,128 @@ import type { UseTranslationResult, TranslationKey, TranslationOptions } from '.
  * }
  * ```
  */
-export function useTranslation(namespace?: string): UseTranslationResult {
+export function useTranslation(namespaces?: string | string[]): UseTranslationResult {
+  return useTranslationWithNamespaces('useTranslation', namespaces, false);
+}
+
+/**
+ * useSuspenseTranslation hook
+ * 
+ * Like useTranslation, but suspends rendering through React Suspense until
+ * the hook's namespaces (or the default namespace) have finished loading.
+ * Wrap the component in a `<Suspense>` boundary.
+ * 
+ * @param namespaces - Optional namespace or namespaces used in this component
+ * @returns Translation utilities and state
+ * @throws Error if used outside I18nProvider
+ * @throws A promise while the namespaces are loading (handled by Suspense)
+ * 
+ * @example
+ * ```tsx
+ * function Checkout() {
+ *   const { t } = useSuspenseTranslation(['checkout', 'errors']);
+ *   return <h1>{t('title')}</h1>;
+ * }
+ * 
+ * <Suspense fallback={<Spinner />}>
+ *   <Checkout />
+ * </Suspense>
+ * ```
+ */
+export function useSuspenseTranslation(namespaces?: string | string[]): UseTranslationResult {
+  return useTranslationWithNamespaces('useSuspenseTranslation', namespaces, true);
+}
+
+/**
+ * Shared implementation of useTranslation and useSuspenseTranslation
+ * 
+ * @param hookName - Hook name for the error message
+ * @param namespaces - Namespaces used by the component
+ * @param suspend - Whether to suspend until the namespaces are loaded
+ */
+function useTranslationWithNamespaces(
+  hookName: string,
+  namespaces: string | string[] | undefined,
+  suspend: boolean
+): UseTranslationResult {
   const context = useContext(I18nContext);
 
   if (!context) {
     throw new Error(
-      'useTranslation must be used within an I18nProvider. ' +
+      `${hookName} must be used within an I18nProvider. ` +
       'Make sure your component is wrapped with <I18nProvider>.'
     );
   }
 
-  // If a namespace is provided, wrap the translation function to automatically inject it
-  const t = namespace
-    ? <K extends TranslationKey>(key: K, options?: TranslationOptions<K>): string => {
-        return context.t(key, { ...options, ns: namespace });
+  // Stable across renders for equal namespace lists
+  const namespaceKey = Array.isArray(namespaces) ? namespaces.join(',') : namespaces ?? '';
+  const namespaceList = useMemo(() => (namespaceKey ? namespaceKey.split(',') : []), [namespaceKey]);
+  const namespace = namespaceList[0];
+
+  const { loadNamespaces } = context;
+  const required = namespaceList.length > 0
+    ? namespaceList
+    : [context.config.defaultNamespace ?? 'common'];
+  const pending = getPendingNamespaces(context, required);
+
+  if (suspend && pending.length > 0) {
+    throw loadNamespaces(pending);
+  }
+
+  // Bumped when a load started by this hook finishes, to re-render with the new state
+  const [, setLoadRevision] = useState(0);
+  const pendingKey = pending.join(',');
+
+  useEffect(() => {
+    if (!pendingKey) {
+      return;
+    }
+
+    let active = true;
+    const onSettled = () => {
+      if (active) {
+        setLoadRevision((revision) => revision + 1);
       }
-    : context.t;
+    };
+    loadNamespaces(pendingKey.split(',')).then(onSettled, onSettled);
+
+    return () => {
+      active = false;
+    };
+  }, [loadNamespaces, pendingKey]);
+
+  const contextT = context.t;
+  const t = useMemo(() => {
+    // If a namespace is provided, wrap the translation function to inject it
+    // unless the call passes its own namespace
+    const translate = namespace
+      ? <K extends TranslationKey>(key: K, options?: TranslationOptions<K>): string => {
+          return contextT(key, { ...options, ns: options?.ns ?? namespace });
+        }
+      : <K extends TranslationKey>(key: K, options?: TranslationOptions<K>): string => {
+          return contextT(key, options);
+        };
+
+    const rich = <K extends TranslationKey>(
+      key: K,
+      options?: RichTranslationOptions<K>
+    ): ReactNode => {
+      const { components, ...translationOptions } = options ?? {};
+      // Values are always escaped so tag syntax in them renders as text
+      const text = translate(key, { ...translationOptions, escapeValue: true } as TranslationOptions<K>);
+      return renderRichText(text, components);
+    };
+
+    return Object.assign(translate, { rich }) as RichCapableTranslateFn;
+  }, [contextT, namespace]);
 
   return {
     t,
     locale: context.locale,
     locales: context.locales,
     changeLocale: context.changeLocale,
-    isLoading: context.isLoading,
-    isReady: context.isReady,
+    isLoading: context.isLoading || pending.length > 0,
+    isReady: context.isReady && pending.length === 0,
     format: context.format,
     collation: context.collation,
     displayNames: context.displayNames,
@@ -75,3 +192,12 @@ export function useTranslation(namespace?: string): UseTranslationResult {
     document: context.document,
   };
 }
+
+/**
+ * Get the namespaces that have not finished loading for the current locale
+ * Failed namespaces count as finished, so components do not wait forever
+ */
+function getPendingNamespaces(context: I18nContextValue, namespaces: string[]): string[] {
+  const settled: NamespaceLoadState[] = ['loaded', 'failed'];
+  return namespaces.filter((namespace) => !settled.includes(context.getLoadState(namespace)));
+}
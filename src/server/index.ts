@@ -0,0 +1,105 @@
+/**
+ * Server-side rendering API
+ *
+ * Import from 'react-g11n/server' in server code:
+ * ```typescript
+ * import { createServerI18n, createRequestScope, serializeState } from 'react-g11n/server';
+ * ```
+ */
+
+/**
+ * createServerI18n - Create an isolated i18n instance for a server request
+ *
+ * Resolves the locale, preloads the namespaces and returns a translation
+ * function plus `getState()` for hydrating I18nProvider on the client.
+ */
+export { createServerI18n } from './server-i18n';
+
+/**
+ * createServerStore - Create a translation store to share between requests
+ *
+ * Pass it to createServerI18n as `store` so catalogs are loaded once per
+ * server rather than once per request.
+ */
+export { createServerStore } from './server-i18n';
+
+/**
+ * serializeState - Serialize i18n state for an inline script
+ *
+ * Escapes `<`, U+2028 and U+2029 so the JSON cannot end the script element.
+ */
+export { serializeState } from './server-i18n';
+
+/**
+ * createRequestScope - Bind a locale to each request's async context
+ *
+ * While a request runs inside `scope.run(locale, ...)`, the instance's `t`,
+ * `getLocale()` and formatting services use that locale.
+ */
+export { createRequestScope } from './request-scope';
+
+/**
+ * createLocaleMiddleware - Negotiate the locale of each request
+ *
+ * Checks the cookie, query string, path and Accept-Language header, runs the
+ * handler in a request scope, attaches `req.locale` and `req.i18n`, and sets
+ * the Content-Language and Vary headers.
+ */
+export { createLocaleMiddleware } from './locale-middleware';
+
+/**
+ * toExpressMiddleware - Adapt locale middleware to `(req, res, next)`
+ */
+export { toExpressMiddleware } from './locale-middleware';
+
+/**
+ * negotiateLocale - Pick the supported locale of a request without middleware
+ */
+export { negotiateLocale } from './locale-middleware';
+
+/**
+ * parseAcceptLanguage - Parse an Accept-Language header into ordered ranges
+ * lookupLocale - RFC 4647 lookup of a supported locale
+ * filterLocales - RFC 4647 basic filtering of supported locales
+ */
+export { parseAcceptLanguage, lookupLocale, filterLocales } from '../utils/locale-detector';
+
+/**
+ * ServerI18n - Server-side i18n instance
+ * ServerI18nOptions - Locale, namespaces to preload and shared store
+ */
+export type { ServerI18n, ServerI18nOptions } from './server-i18n';
+
+/**
+ * RequestScope - Request scope bound to an instance
+ */
+export type { RequestScope } from './request-scope';
+
+/**
+ * LocaleMiddleware - Framework-neutral locale middleware
+ * LocaleMiddlewareOptions - Instance, negotiation and loading options
+ * LocaleNegotiation - Negotiated locale and its source
+ * LocaleSource - Where the request locale can come from
+ * LocalizedRequest - Request with `locale` and `i18n` attached
+ * NegotiationOptions - Sources and their names
+ * ExpressMiddleware - Express-style `(req, res, next)` middleware
+ */
+export type {
+  ExpressMiddleware,
+  LocaleMiddleware,
+  LocaleMiddlewareOptions,
+  LocaleNegotiation,
+  LocaleSource,
+  LocalizedRequest,
+  NegotiationOptions,
+} from './locale-middleware';
+
+/**
+ * ScopedI18n - Locale-bound view of an instance (see StandaloneI18n.forLocale)
+ */
+export type { ScopedI18n } from '../standalone';
+
+/**
+ * I18nState - Serializable state passed to I18nProvider's initialState
+ */
+export type { I18nState } from '../types';
@@ -0,0 +1,240 @@
+/**
+ * Locale negotiation middleware for Node HTTP servers
+ *
+ * Picks the request locale from the cookie, query string, path and
+ * Accept-Language header, runs the request in a request scope and sets the
+ * Content-Language and Vary response headers. The middleware works with
+ * Node's `http` module; toExpressMiddleware adapts it to `(req, res, next)`.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { i18n } from '../standalone';
+import type { ScopedI18n, StandaloneI18n } from '../standalone';
+import { filterLocales, lookupLocale, parseAcceptLanguage, resolveSupportedLocale } from '../utils/locale-detector';
+import { createRequestScope } from './request-scope';
+import type { RequestScope } from './request-scope';
+
+/**
+ * Where the request locale can come from
+ */
+export type LocaleSource = 'cookie' | 'query' | 'path' | 'header';
+
+/**
+ * Options for locale negotiation
+ */
+export interface NegotiationOptions {
+  /** Sources to check, in order. Default: ['cookie', 'query', 'path', 'header'] */
+  order?: LocaleSource[];
+  /** Cookie holding the locale. Default: 'i18n_locale' */
+  cookieName?: string;
+  /** Query parameter holding the locale. Default: 'lang' */
+  queryParameter?: string;
+}
+
+/**
+ * Options for createLocaleMiddleware
+ */
+export interface LocaleMiddlewareOptions extends NegotiationOptions {
+  /** Initialized instance to scope (default: the i18n singleton) */
+  instance?: StandaloneI18n;
+  /** Request scope to run requests in (default: a new scope for the instance) */
+  requestScope?: RequestScope;
+  /** Locale used when no source matches (default: the instance's current locale) */
+  defaultLocale?: string;
+  /** Namespaces to load before the handler runs (default: the configured namespaces) */
+  namespaces?: string[];
+}
+
+/**
+ * Result of locale negotiation
+ */
+export interface LocaleNegotiation {
+  /** Supported locale chosen for the request */
+  locale: string;
+  /** Source the locale came from */
+  source: LocaleSource;
+}
+
+/**
+ * Request with the negotiated locale attached by the middleware
+ */
+export interface LocalizedRequest extends IncomingMessage {
+  /** Negotiated locale */
+  locale?: string;
+  /** Translator bound to the negotiated locale */
+  i18n?: ScopedI18n;
+}
+
+/**
+ * Framework-neutral locale middleware
+ * Runs the handler in the request scope and resolves to its result
+ */
+export type LocaleMiddleware = <T>(
+  req: IncomingMessage,
+  res: ServerResponse,
+  handler: (scope: ScopedI18n) => T | Promise<T>
+) => Promise<T>;
+
+/**
+ * Express-style middleware
+ */
+export type ExpressMiddleware = (req: IncomingMessage, res: ServerResponse, next: (error?: unknown) => void) => void;
+
+const DEFAULT_ORDER: LocaleSource[] = ['cookie', 'query', 'path', 'header'];
+
+/**
+ * Negotiate the locale of a request
+ *
+ * @param req - Incoming request
+ * @param supportedLocales - Array of supported locale codes
+ * @param options - Sources and their names
+ * @returns The negotiated locale, or null if no source matches
+ */
+export function negotiateLocale(
+  req: IncomingMessage,
+  supportedLocales: string[],
+  options: NegotiationOptions = {}
+): LocaleNegotiation | null {
+  for (const source of options.order ?? DEFAULT_ORDER) {
+    const locale = getSourceLocale(req, source, supportedLocales, options);
+    if (locale) {
+      return { locale, source };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Create locale middleware for Node's `http` module
+ *
+ * @param options - Instance, negotiation and loading options
+ * @returns The middleware
+ *
+ * @example
+ * ```typescript
+ * const localeMiddleware = createLocaleMiddleware({ instance: i18n });
+ *
+ * http.createServer((req, res) => {
+ *   localeMiddleware(req, res, (scope) => {
+ *     res.end(scope.t('greeting'));
+ *   });
+ * });
+ * ```
+ */
+export function createLocaleMiddleware(options: LocaleMiddlewareOptions = {}): LocaleMiddleware {
+  const instance = options.instance ?? i18n;
+  const requestScope = options.requestScope ?? createRequestScope(instance);
+  const order = options.order ?? DEFAULT_ORDER;
+
+  // Async, so negotiation errors reject instead of throwing synchronously
+  return async (req, res, handler) => {
+    const supportedLocales = instance.getSupportedLocaleCodes();
+    const negotiated = negotiateLocale(req, supportedLocales, { ...options, order });
+    const locale = negotiated?.locale ?? options.defaultLocale ?? instance.getLocale();
+
+    return requestScope.run(locale, async (scope) => {
+      Object.assign(req as LocalizedRequest, { locale: scope.locale, i18n: scope });
+
+      res.setHeader('Content-Language', scope.locale);
+      if (order.includes('header')) {
+        appendVary(res, 'Accept-Language');
+      }
+      if (order.includes('cookie')) {
+        appendVary(res, 'Cookie');
+      }
+
+      await scope.loadNamespaces(options.namespaces);
+      return handler(scope);
+    });
+  };
+}
+
+/**
+ * Adapt locale middleware to Express-style `(req, res, next)`
+ * The rest of the chain runs in the request scope; errors are passed to next
+ *
+ * @param middleware - Middleware from createLocaleMiddleware
+ * @returns Express-style middleware
+ *
+ * @example
+ * ```typescript
+ * app.use(toExpressMiddleware(createLocaleMiddleware({ instance: i18n })));
+ *
+ * app.get('/', (req, res) => res.send(i18n.t('greeting')));
+ * ```
+ */
+export function toExpressMiddleware(middleware: LocaleMiddleware): ExpressMiddleware {
+  return (req, res, next) => {
+    middleware(req, res, () => next()).catch(next);
+  };
+}
+
+/**
+ * Get the supported locale requested by one source
+ */
+function getSourceLocale(
+  req: IncomingMessage,
+  source: LocaleSource,
+  supportedLocales: string[],
+  options: NegotiationOptions
+): string | null {
+  switch (source) {
+    case 'cookie': {
+      const value = getCookie(req.headers.cookie, options.cookieName ?? 'i18n_locale');
+      return value ? resolveSupportedLocale(value, supportedLocales) : null;
+    }
+    case 'query': {
+      const value = getUrl(req).searchParams.get(options.queryParameter ?? 'lang');
+      return value ? resolveSupportedLocale(value, supportedLocales) : null;
+    }
+    case 'path': {
+      const segment = getUrl(req).pathname.split('/')[1];
+      return segment ? resolveSupportedLocale(segment, supportedLocales) : null;
+    }
+    case 'header': {
+      const ranges = parseAcceptLanguage(req.headers['accept-language']);
+      return lookupLocale(ranges, supportedLocales) ?? filterLocales(ranges, supportedLocales)[0] ?? null;
+    }
+  }
+}
+
+/**
+ * Parse the request URL (relative to a placeholder origin)
+ */
+function getUrl(req: IncomingMessage): URL {
+  return new URL(req.url ?? '/', 'http://localhost');
+}
+
+/**
+ * Read a cookie from a Cookie header
+ */
+function getCookie(header: string | undefined, name: string): string | null {
+  for (const cookie of header?.split(';') ?? []) {
+    const separator = cookie.indexOf('=');
+    if (separator !== -1 && cookie.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(cookie.slice(separator + 1).trim());
+      } catch {
+        return null;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Add a header name to the Vary response header
+ */
+function appendVary(res: ServerResponse, name: string): void {
+  const current = res.getHeader('Vary');
+  const values = (Array.isArray(current) ? current.join(',') : String(current ?? ''))
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+  if (!values.includes('*') && !values.some((value) => value.toLowerCase() === name.toLowerCase())) {
+    res.setHeader('Vary', [...values, name].join(', '));
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Request scopes for Node servers
+ *
+ * The standalone instance has one current locale, so concurrent requests
+ * would race if they changed it. A request scope binds a locale-bound view
+ * (forLocale) to the async context of a request; while it runs, `i18n.t`,
+ * `i18n.getLocale()` and the formatting services use the request's locale.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { i18n, isStandaloneImpl } from '../standalone';
+import type { ScopedI18n, StandaloneI18n } from '../standalone';
+
+// One storage per instance, so every scope of an instance sets the same resolver
+const storages = new WeakMap<StandaloneI18n, AsyncLocalStorage<ScopedI18n>>();
+
+/**
+ * Request scope bound to an instance
+ */
+export interface RequestScope {
+  /**
+   * Run a callback with a locale-bound view of the instance
+   * The view stays active in everything the callback awaits or schedules
+   */
+  run<T>(locale: string, callback: (scope: ScopedI18n) => T): T;
+  /** Get the view of the current request, if any */
+  current(): ScopedI18n | undefined;
+}
+
+/**
+ * Create a request scope for an instance
+ * Scopes of the same instance share one async context, so requests run by
+ * any of them are visible to the instance's `t` and to each other's current()
+ *
+ * @param instance - Initialized instance (default: the i18n singleton)
+ * @returns The request scope
+ *
+ * @example
+ * ```typescript
+ * const requestScope = createRequestScope(i18n);
+ *
+ * app.use((req, res, next) => {
+ *   requestScope.run(req.query.lang ?? 'en', () => next());
+ * });
+ *
+ * // Anywhere in the request handling
+ * throw new Error(i18n.t('errors.notFound'));
+ * ```
+ */
+export function createRequestScope(instance: StandaloneI18n = i18n): RequestScope {
+  if (!isStandaloneImpl(instance)) {
+    throw new Error('[i18n] createRequestScope requires an instance from createI18n() or the i18n singleton.');
+  }
+
+  let storage = storages.get(instance);
+  if (!storage) {
+    const created = new AsyncLocalStorage<ScopedI18n>();
+    instance._setScopeResolver(() => created.getStore());
+    storages.set(instance, created);
+    storage = created;
+  }
+
+  return {
+    run: (locale, callback) => {
+      const scope = instance.forLocale(locale);
+      return storage.run(scope, () => callback(scope));
+    },
+    current: () => storage.getStore(),
+  };
+}
@@ -0,0 +1,173 @@
+/**
+ * Server-side i18n instances for server rendering
+ *
+ * Each instance has its own locale, so concurrent requests do not share
+ * state. Instances can share a store created with createServerStore, so the
+ * catalogs are loaded once per server instead of once per request. The
+ * instance preloads the namespaces before rendering and produces the state
+ * that I18nProvider hydrates on the client.
+ */
+
+import type { I18nConfig, I18nState, TranslateFn, TranslationKey, TranslationOptions } from '../types';
+import { LocaleManager } from '../core/locale-manager';
+import { TranslationStore } from '../core/translation-store';
+import { TranslationLoader } from '../core/translation-loader';
+import { Translator } from '../core/translator';
+import { Interpolator } from '../core/interpolator';
+import { Pluralizer } from '../core/pluralizer';
+import { FormatService } from '../core/format-service';
+import { getFallbackChain } from '../utils/fallback-chain';
+
+/**
+ * Options for createServerI18n
+ */
+export interface ServerI18nOptions {
+  /** Requested locale (resolved against the supported locales). Default: config.defaultLocale */
+  locale?: string;
+  /** Namespaces to preload. Default: config.namespaces or ['common'] */
+  namespaces?: string[];
+  /** Store shared between requests (see createServerStore). Default: a new store for this instance */
+  store?: TranslationStore;
+}
+
+/**
+ * Server-side i18n instance
+ */
+export interface ServerI18n {
+  /** Resolved locale */
+  locale: string;
+  /** Translation function for the resolved locale */
+  t: TranslateFn;
+  /** Format service for the resolved locale */
+  format: FormatService;
+  /** Translation store of this instance (the shared store, if one was passed) */
+  store: TranslationStore;
+  /** Get the state to pass to I18nProvider's initialState */
+  getState(): I18nState;
+  /**
+   * Release the instance: a shared store may evict its locale again, and an
+   * owned store releases its subscriptions (a shared store is left to its owner)
+   */
+  dispose(): void;
+}
+
+/**
+ * Create a translation store to share between server instances
+ * Catalogs loaded by one request are reused by the next; call dispose() on
+ * shutdown to release the manifest and backend subscriptions. With memory
+ * limits, the locale of each instance is kept in memory until the instance
+ * is disposed, so dispose instances when their request ends.
+ *
+ * @param config - i18n configuration
+ * @returns The shared store
+ *
+ * @example
+ * ```typescript
+ * const store = createServerStore(config);
+ *
+ * const serverI18n = await createServerI18n(config, { locale: 'fr', store });
+ * ```
+ */
+export function createServerStore(config: I18nConfig): TranslationStore {
+  return new TranslationStore(new TranslationLoader(config), config);
+}
+
+/**
+ * Create an isolated i18n instance and preload its translations
+ *
+ * @param config - i18n configuration
+ * @param options - Locale, namespaces to preload and the store to load into
+ * @returns Promise resolving to the instance once the namespaces are loaded
+ *
+ * @example
+ * ```tsx
+ * const serverI18n = await createServerI18n(config, { locale: 'fr', namespaces: ['common', 'checkout'] });
+ * const state = serverI18n.getState();
+ *
+ * const html = renderToString(
+ *   <I18nProvider config={config} initialState={state}>
+ *     <App />
+ *   </I18nProvider>
+ * );
+ * // Embed serializeState(state) in the page and pass it to I18nProvider when hydrating
+ *
+ * serverI18n.dispose();
+ * ```
+ */
+export async function createServerI18n(config: I18nConfig, options: ServerI18nOptions = {}): Promise<ServerI18n> {
+  // Browser detection does not apply on the server
+  const localeManager = new LocaleManager(config, options.locale ?? config.defaultLocale);
+  const locale = localeManager.getCurrentLocale();
+
+  // A shared store serves every locale, so only an owned store tracks the active
+  // one; in a shared store the locale is retained until the instance is disposed
+  const store = options.store ?? createServerStore(config);
+  const release = options.store ? store.retainLocale(locale) : () => undefined;
+  if (!options.store) {
+    store.setActiveLocale(locale);
+  }
+  const translator = new Translator(store, new Interpolator(config.interpolation), new Pluralizer(), config);
+
+  const namespaces = options.namespaces ?? config.namespaces ?? ['common'];
+  try {
+    await store.preloadLocale(locale, namespaces);
+  } catch (error) {
+    release();
+    throw error;
+  }
+
+  const t: TranslateFn = <K extends TranslationKey>(key: K, translationOptions?: TranslationOptions<K>): string =>
+    translator.translate(locale, key, translationOptions);
+
+  return {
+    locale,
+    t,
+    format: new FormatService(locale),
+    store,
+    getState: () => ({ locale, resources: getResources(store, getFallbackChain(locale, config), namespaces) }),
+    dispose: () => {
+      release();
+      if (!options.store) {
+        store.dispose();
+      }
+    },
+  };
+}
+
+/**
+ * Get the loaded catalogs of the given locales and namespaces
+ * A shared store also holds catalogs loaded for other requests, which are left out
+ */
+function getResources(
+  store: TranslationStore,
+  locales: string[],
+  namespaces: string[]
+): I18nState['resources'] {
+  const snapshot = store.getSnapshot();
+  const resources: I18nState['resources'] = {};
+
+  for (const locale of locales) {
+    for (const ns of namespaces) {
+      const data = snapshot[locale]?.[ns];
+      if (data) {
+        resources[locale] = { ...resources[locale], [ns]: data };
+      }
+    }
+  }
+
+  return resources;
+}
+
+/**
+ * Serialize i18n state for embedding in an inline script
+ * Escapes characters that could end the script element or break JavaScript parsing
+ *
+ * @param state - The state from ServerI18n.getState()
+ * @returns JSON that is safe to place inside <script> tags
+ */
+export function serializeState(state: I18nState): string {
+  return JSON.stringify(state)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
@@ -6,7 +6,8 @@
  * 
  * Features:
  * - Works independently of React
- * - Synchronizes with React context when both are used
+ * - Isolated instances through createI18n (e.g. micro-frontends, embedded widgets)
+ * - Shares its state with I18nProvider when passed as the provider's `instance`
  * - Provides translation and formatting functions
  * - Manages locale state
  * 
@@ -33,10 +34,19 @@
 
 import type {
   I18nConfig,
+  NamespaceLoadState,
+  OverrideLayerApi,
+  OverrideLayerConfig,
+  ResourceApi,
+  ResourceBundleOptions,
+  TranslationLoadError,
+  TranslationLoadErrorListener,
   TranslationKey,
   TranslationOptions,
   TranslateFn,
   LocaleInfo,
+  TranslationNamespace,
+  TranslationCacheStats,
   FormatService as IFormatService,
   CollationService as ICollationService,
   DisplayNamesService as IDisplayNamesService,
@@ -62,8 +72,9 @@ export type StandaloneLocaleChangeListener = (locale: string) => void;
 
 /**
  * Standalone i18n instance interface
+ * Includes the resource and override layer APIs
  */
-export interface StandaloneI18n {
+export interface StandaloneI18n extends ResourceApi, OverrideLayerApi {
   /** Translation function */
   t: TranslateFn;
   /** Format service for dates, numbers, currencies, etc. */
@@ -80,10 +91,12 @@ export interface StandaloneI18n {
   getLocale(): string;
   /** Get all supported locales */
   getSupportedLocales(): LocaleInfo[];
+  /** Get the codes of all supported locales (without building their metadata) */
+  getSupportedLocaleCodes(): string[];
   /** Change the current locale */
   changeLocale(locale: string): Promise<void>;
-  /** Initialize the i18n system */
-  init(config: I18nConfig): Promise<void>;
+  /** Initialize the i18n system (the config is optional for instances from createI18n) */
+  init(config?: I18nConfig): Promise<void>;
   /** Check if the system is initialized */
   isInitialized(): boolean;
   /** Subscribe to locale changes */
@@ -92,6 +105,63 @@ export interface StandaloneI18n {
   loadNamespaces(namespaces: string[]): Promise<void>;
   /** Get missing translation keys (for debugging) */
   getMissingKeys(): string[];
+  /** Get statistics of the in-memory translation cache */
+  getCacheStats(): TranslationCacheStats;
+  /** Get the load state of a namespace (defaults to the current locale) */
+  getLoadState(namespace: string, locale?: string): NamespaceLoadState;
+  /** Subscribe to namespace load failures (may be called before init) */
+  onLoadError(listener: TranslationLoadErrorListener): () => void;
+  /** Reload loaded namespaces in the background, replacing changed translations */
+  revalidate(locale?: string, namespace?: string): Promise<void>;
+  /** Create a view with its own locale that shares this instance's translations */
+  forLocale(locale: string): ScopedI18n;
+}
+
+/**
+ * Locale-bound view of an instance (e.g. for one server request)
+ * Shares the instance's translation store; has its own locale and formatting services
+ */
+export interface ScopedI18n {
+  /** Resolved locale of the view */
+  readonly locale: string;
+  /** Translation function for the view's locale */
+  t: TranslateFn;
+  /** Format service for the view's locale */
+  format: IFormatService;
+  /** Collation service for the view's locale */
+  collation: ICollationService;
+  /** Display names service for the view's locale */
+  displayNames: IDisplayNamesService;
+  /** Segmentation service for the view's locale */
+  segmentation: ISegmentationService;
+  /** Load namespaces for the view's locale (default: the configured namespaces) */
+  loadNamespaces(namespaces?: string[]): Promise<void>;
+  /** Get the load state of a namespace for the view's locale */
+  getLoadState(namespace: string): NamespaceLoadState;
+}
+
+/**
+ * Returns the scope of the current request, if any
+ * 
+ * @internal
+ */
+export type ScopeResolver = () => ScopedI18n | undefined;
+
+/**
+ * Core services of an instance, shared with I18nProvider
+ * 
+ * @internal
+ */
+export interface I18nServices {
+  localeManager: LocaleManager;
+  translationStore: TranslationStore;
+  translator: Translator;
+  formatService: FormatService;
+  collationService: CollationService;
+  displayNamesService: DisplayNamesService;
+  segmentationService: SegmentationService;
+  documentService: DocumentService;
+  config: I18nConfig;
 }
 
 /**
@@ -109,25 +179,89 @@ class StandaloneI18nImpl implements StandaloneI18n {
   private config: I18nConfig | null = null;
   private initialized = false;
   private externalListeners: Set<StandaloneLocaleChangeListener> = new Set();
+  // Pending locale change, aborted when another change starts
+  private localeChangeController: AbortController | null = null;
+  private loadErrorListeners: Set<TranslationLoadErrorListener> = new Set();
+  // Active request scope (set by createRequestScope)
+  private scopeResolver: ScopeResolver | null = null;
+
+  /**
+   * @param config - Configuration used by init() and I18nProvider when none is passed
+   */
+  constructor(config?: I18nConfig) {
+    this.config = config ?? null;
+  }
 
   /**
    * Initialize the standalone i18n system
    * 
-   * @param config - i18n configuration
-   * @throws {Error} If already initialized
+   * @param config - i18n configuration (optional for instances created with createI18n)
+   * @throws {Error} If no configuration is available
    */
-  async init(config: I18nConfig): Promise<void> {
+  async init(config?: I18nConfig): Promise<void> {
     if (this.initialized) {
       console.warn('[i18n] Standalone API is already initialized. Skipping re-initialization.');
       return;
     }
 
+    const { translationStore, localeManager } = this.setup(config);
+    const currentLocale = localeManager.getCurrentLocale();
+
+    // Load initial translations
+    const namespacesToLoad = this.config!.namespaces || ['common'];
+    await translationStore.preloadLocale(currentLocale, namespacesToLoad);
+
+    this.initialized = true;
+
+    if (this.config!.debug) {
+      console.warn('[i18n] Standalone API initialized with locale:', currentLocale);
+    }
+  }
+
+  /**
+   * Create the core services unless they exist
+   * 
+   * @param config - i18n configuration (defaults to the configuration passed to createI18n)
+   * @param initialLocale - Optional initial locale (overrides detection)
+   * @returns The services
+   * @throws {Error} If no configuration is available
+   */
+  private setup(config?: I18nConfig, initialLocale?: string): I18nServices {
+    if (!this.localeManager) {
+      const resolvedConfig = config ?? this.config;
+      if (!resolvedConfig) {
+        throw new Error('[i18n] No configuration. Pass a config to init() or createI18n().');
+      }
+      this.createServices(resolvedConfig, initialLocale);
+    }
+
+    return {
+      localeManager: this.localeManager!,
+      translationStore: this.translationStore!,
+      translator: this.translator!,
+      formatService: this.formatService!,
+      collationService: this.collationService!,
+      displayNamesService: this.displayNamesService!,
+      segmentationService: this.segmentationService!,
+      documentService: this.documentService!,
+      config: this.config!,
+    };
+  }
+
+  /**
+   * Create the core services
+   * 
+   * @param config - i18n configuration
+   * @param initialLocale - Optional initial locale (overrides detection)
+   */
+  private createServices(config: I18nConfig, initialLocale?: string): void {
     this.config = config;
 
     // Initialize core services
-    this.localeManager = new LocaleManager(config);
+    this.localeManager = new LocaleManager(config, initialLocale);
     const translationLoader = new TranslationLoader(config);
-    this.translationStore = new TranslationStore(translationLoader);
+    this.translationStore = new TranslationStore(translationLoader, config);
+    this.translationStore.onLoadError((error) => this.notifyLoadErrorListeners(error));
     const interpolator = new Interpolator(config.interpolation);
     const pluralizer = new Pluralizer();
     this.translator = new Translator(
@@ -137,6 +271,7 @@ class StandaloneI18nImpl implements StandaloneI18n {
       config
     );
     const currentLocale = this.localeManager.getCurrentLocale();
+    this.translationStore.setActiveLocale(currentLocale);
     this.formatService = new FormatService(currentLocale);
     this.collationService = new CollationService(currentLocale);
     this.displayNamesService = new DisplayNamesService(currentLocale);
@@ -148,6 +283,9 @@ class StandaloneI18nImpl implements StandaloneI18n {
 
     // Subscribe to locale changes to update all services
     this.localeManager.subscribe((newLocale) => {
+      if (this.translationStore) {
+        this.translationStore.setActiveLocale(newLocale);
+      }
       if (this.formatService) {
         this.formatService.setLocale(newLocale);
       }
@@ -166,16 +304,6 @@ class StandaloneI18nImpl implements StandaloneI18n {
       // Notify external listeners
       this.notifyExternalListeners(newLocale);
     });
-
-    // Load initial translations
-    const namespacesToLoad = config.namespaces || ['common'];
-    await this.translationStore.preloadLocale(currentLocale, namespacesToLoad);
-
-    this.initialized = true;
-
-    if (config.debug) {
-      console.warn('[i18n] Standalone API initialized with locale:', currentLocale);
-    }
   }
 
   /**
@@ -198,6 +326,10 @@ class StandaloneI18nImpl implements StandaloneI18n {
     options?: TranslationOptions<K>
   ): string => {
     this.ensureInitialized();
+    const scope = this.scopeResolver?.();
+    if (scope) {
+      return scope.t(key, options);
+    }
     const locale = this.localeManager!.getCurrentLocale();
     return this.translator!.translate(locale, key, options);
   };
@@ -209,7 +341,7 @@ class StandaloneI18nImpl implements StandaloneI18n {
    */
   get format(): IFormatService {
     this.ensureInitialized();
-    return this.formatService!;
+    return this.scopeResolver?.()?.format ?? this.formatService!;
   }
 
   /**
@@ -219,7 +351,7 @@ class StandaloneI18nImpl implements StandaloneI18n {
    */
   get collation(): ICollationService {
     this.ensureInitialized();
-    return this.collationService!;
+    return this.scopeResolver?.()?.collation ?? this.collationService!;
   }
 
   /**
@@ -229,7 +361,7 @@ class StandaloneI18nImpl implements StandaloneI18n {
    */
   get displayNames(): IDisplayNamesService {
     this.ensureInitialized();
-    return this.displayNamesService!;
+    return this.scopeResolver?.()?.displayNames ?? this.displayNamesService!;
   }
 
   /**
@@ -239,7 +371,7 @@ class StandaloneI18nImpl implements StandaloneI18n {
    */
   get segmentation(): ISegmentationService {
     this.ensureInitialized();
-    return this.segmentationService!;
+    return this.scopeResolver?.()?.segmentation ?? this.segmentationService!;
   }
 
   /**
@@ -260,7 +392,7 @@ class StandaloneI18nImpl implements StandaloneI18n {
    */
   getLocale(): string {
     this.ensureInitialized();
-    return this.localeManager!.getCurrentLocale();
+    return this.scopeResolver?.()?.locale ?? this.localeManager!.getCurrentLocale();
   }
 
   /**
@@ -274,6 +406,18 @@ class StandaloneI18nImpl implements StandaloneI18n {
     return this.localeManager!.getSupportedLocales();
   }
 
+  /**
+   * Get the codes of all supported locales
+   * Cheaper than getSupportedLocales on hot paths such as request handling
+   * 
+   * @returns Canonical locale codes
+   * @throws {Error} If not initialized
+   */
+  getSupportedLocaleCodes(): string[] {
+    this.ensureInitialized();
+    return this.localeManager!.getSupportedLocaleCodes();
+  }
+
   /**
    * Change the current locale
    * 
@@ -283,12 +427,29 @@ class StandaloneI18nImpl implements StandaloneI18n {
   async changeLocale(locale: string): Promise<void> {
     this.ensureInitialized();
 
-    // Load translations for the new locale
-    const namespacesToLoad = this.config!.namespaces || ['common'];
-    await this.translationStore!.preloadLocale(locale, namespacesToLoad);
+    // Resolve to the canonical supported tag (e.g. "pt-br" -> "pt-BR")
+    const resolvedLocale = this.localeManager!.resolveLocale(locale);
+
+    // Cancel loads for a locale the user already switched away from
+    this.localeChangeController?.abort();
+    const controller = new AbortController();
+    this.localeChangeController = controller;
+
+    // Load the configured namespaces and those loaded lazily for the current locale
+    const namespacesToLoad = Array.from(new Set([
+      ...(this.config!.namespaces || ['common']),
+      ...this.translationStore!.getLoadedNamespaces(this.localeManager!.getCurrentLocale()),
+    ]));
+    await this.translationStore!.preloadLocale(resolvedLocale, namespacesToLoad, controller.signal);
+
+    // A newer locale change superseded this one
+    if (controller.signal.aborted) {
+      return;
+    }
+    this.localeChangeController = null;
 
     // Update locale in LocaleManager (this will trigger subscriptions)
-    await this.localeManager!.setLocale(locale);
+    await this.localeManager!.setLocale(resolvedLocale);
   }
 
   /**
@@ -330,6 +491,196 @@ class StandaloneI18nImpl implements StandaloneI18n {
     return this.translationStore!.getMissingKeys();
   }
 
+  /**
+   * Get statistics of the in-memory translation cache
+   * 
+   * @returns Hits, misses, evictions and the current cache size
+   * @throws {Error} If not initialized
+   */
+  getCacheStats(): TranslationCacheStats {
+    this.ensureInitialized();
+    return this.translationStore!.getCacheStats();
+  }
+
+  /**
+   * Get the load state of a namespace
+   * 
+   * @param namespace - The namespace
+   * @param locale - Locale code (defaults to the current locale)
+   * @returns 'idle', 'loading', 'loaded' or 'failed'
+   * @throws {Error} If not initialized
+   */
+  getLoadState(namespace: string, locale?: string): NamespaceLoadState {
+    this.ensureInitialized();
+    return this.translationStore!.getLoadState(
+      locale ?? this.localeManager!.getCurrentLocale(),
+      namespace
+    );
+  }
+
+  /**
+   * Reload loaded namespaces and replace translations that changed
+   * Subscribers of the React provider re-render when content changed
+   * 
+   * @param locale - Only revalidate this locale (default: all loaded locales)
+   * @param namespace - Only revalidate this namespace (default: all loaded namespaces)
+   * @throws {Error} If not initialized
+   */
+  async revalidate(locale?: string, namespace?: string): Promise<void> {
+    this.ensureInitialized();
+    await this.translationStore!.revalidate(locale, namespace);
+  }
+
+  /**
+   * Add translations to a namespace
+   * 
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param data - The translations to add
+   * @param options - deep merge and overwrite options
+   * @throws {Error} If not initialized
+   */
+  addResourceBundle(
+    locale: string,
+    namespace: string,
+    data: TranslationNamespace,
+    options?: ResourceBundleOptions
+  ): void {
+    this.ensureInitialized();
+    this.translationStore!.addResourceBundle(locale, namespace, data, options);
+  }
+
+  /**
+   * Add or replace a single translation
+   * 
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param key - The translation key (supports dot notation)
+   * @param value - The translation string or nested translations
+   * @throws {Error} If not initialized
+   */
+  addResource(locale: string, namespace: string, key: string, value: string | TranslationNamespace): void {
+    this.ensureInitialized();
+    this.translationStore!.addResource(locale, namespace, key, value);
+  }
+
+  /**
+   * Remove all translations of a namespace
+   * 
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @throws {Error} If not initialized
+   */
+  removeResourceBundle(locale: string, namespace: string): void {
+    this.ensureInitialized();
+    this.translationStore!.removeResourceBundle(locale, namespace);
+  }
+
+  /**
+   * Get the translations of a namespace
+   * 
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @returns The translations, or undefined if not loaded
+   * @throws {Error} If not initialized
+   */
+  getResourceBundle(locale: string, namespace: string): TranslationNamespace | undefined {
+    this.ensureInitialized();
+    return this.translationStore!.getResourceBundle(locale, namespace);
+  }
+
+  /**
+   * Check if a translation exists
+   * 
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param key - The translation key (supports dot notation)
+   * @throws {Error} If not initialized
+   */
+  hasResource(locale: string, namespace: string, key: string): boolean {
+    this.ensureInitialized();
+    return this.translationStore!.hasResource(locale, namespace, key);
+  }
+
+  /**
+   * Push an override layer on top of the existing layers
+   * 
+   * @param layer - The layer; replaces an existing layer with the same name
+   * @returns Promise that resolves when the layer's namespaces are loaded
+   * @throws {Error} If not initialized or the layer is named 'base'
+   */
+  async pushLayer(layer: OverrideLayerConfig): Promise<void> {
+    this.ensureInitialized();
+    await this.translationStore!.pushLayer(layer);
+  }
+
+  /**
+   * Remove an override layer
+   * 
+   * @param name - The layer name
+   * @returns false if there is no layer with that name
+   * @throws {Error} If not initialized
+   */
+  removeLayer(name: string): boolean {
+    this.ensureInitialized();
+    return this.translationStore!.removeLayer(name);
+  }
+
+  /**
+   * Get the names of the override layers
+   * 
+   * @returns Layer names, highest priority first
+   * @throws {Error} If not initialized
+   */
+  getLayers(): string[] {
+    this.ensureInitialized();
+    return this.translationStore!.getLayers();
+  }
+
+  /**
+   * Subscribe to namespace load failures
+   * Can be called before init to receive failures of the initial load
+   * 
+   * @param listener - Function called with the TranslationLoadError
+   * @returns Unsubscribe function
+   */
+  onLoadError(listener: TranslationLoadErrorListener): () => void {
+    this.loadErrorListeners.add(listener);
+
+    return () => {
+      this.loadErrorListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Create a view with its own locale that shares this instance's translations
+   * Changing the view's locale does not affect the instance or other views
+   * 
+   * @param locale - Requested locale (resolved against the supported locales)
+   * @returns The view; call loadNamespaces() before translating unloaded namespaces
+   * @throws {Error} If not initialized
+   */
+  forLocale(locale: string): ScopedI18n {
+    this.ensureInitialized();
+    return new LocaleScope(
+      this.localeManager!.resolveLocale(locale),
+      this.translationStore!,
+      this.translator!,
+      this.config!
+    );
+  }
+
+  /**
+   * Set the resolver of the active request scope
+   * While it returns a scope, t(), getLocale() and the formatting services use it
+   * 
+   * @param resolver - Scope resolver, or null to remove it
+   * @internal
+   */
+  _setScopeResolver(resolver: ScopeResolver | null): void {
+    this.scopeResolver = resolver;
+  }
+
   /**
    * Ensure the system is initialized
    * 
@@ -359,62 +710,117 @@ class StandaloneI18nImpl implements StandaloneI18n {
   }
 
   /**
-   * Internal method to synchronize with React context
-   * This is called by the I18nProvider to keep standalone and React in sync
+   * Notify load error listeners
    * 
-   * @internal
+   * @param error - The load error
    */
-  _syncWithReact(
-    localeManager: LocaleManager,
-    translationStore: TranslationStore,
-    translator: Translator,
-    formatService: FormatService,
-    collationService: CollationService,
-    displayNamesService: DisplayNamesService,
-    segmentationService: SegmentationService,
-    documentService: DocumentService,
-    config: I18nConfig
-  ): void {
-    // Only sync if not already initialized or if we want to use React's instances
-    if (!this.initialized) {
-      this.localeManager = localeManager;
-      this.translationStore = translationStore;
-      this.translator = translator;
-      this.formatService = formatService;
-      this.collationService = collationService;
-      this.displayNamesService = displayNamesService;
-      this.segmentationService = segmentationService;
-      this.documentService = documentService;
-      this.config = config;
-      this.initialized = true;
-
-      // Subscribe to React's locale changes
-      this.localeManager.subscribe((newLocale) => {
-        this.notifyExternalListeners(newLocale);
-      });
-
-      if (config.debug) {
-        console.warn('[i18n] Standalone API synchronized with React context');
+  private notifyLoadErrorListeners(error: TranslationLoadError): void {
+    this.loadErrorListeners.forEach((listener) => {
+      try {
+        listener(error);
+      } catch (listenerError) {
+        console.error('[i18n] Error in standalone load error listener:', listenerError);
       }
-    }
+    });
   }
 
   /**
-   * Internal method to notify standalone listeners from React
-   * This allows React locale changes to propagate to standalone listeners
+   * Share this instance with an I18nProvider
+   * Creates the services if needed; the provider loads the translations
    * 
+   * @param config - Configuration used if the instance has none
+   * @param initialLocale - Initial locale used if the services are created
+   * @returns The services for the provider
    * @internal
    */
-  _notifyFromReact(locale: string): void {
-    this.notifyExternalListeners(locale);
+  _attach(config?: I18nConfig, initialLocale?: string): I18nServices {
+    const services = this.setup(config, initialLocale);
+    this.initialized = true;
+    return services;
+  }
+}
+
+/**
+ * Locale-bound view sharing an instance's store and translator
+ * Formatting services are created on first use
+ */
+class LocaleScope implements ScopedI18n {
+  private formatService: FormatService | null = null;
+  private collationService: CollationService | null = null;
+  private displayNamesService: DisplayNamesService | null = null;
+  private segmentationService: SegmentationService | null = null;
+
+  constructor(
+    readonly locale: string,
+    private readonly translationStore: TranslationStore,
+    private readonly translator: Translator,
+    private readonly config: I18nConfig
+  ) {}
+
+  t: TranslateFn = <K extends TranslationKey>(key: K, options?: TranslationOptions<K>): string =>
+    this.translator.translate(this.locale, key, options);
+
+  get format(): IFormatService {
+    if (!this.formatService) {
+      this.formatService = new FormatService(this.locale);
+    }
+    return this.formatService;
+  }
+
+  get collation(): ICollationService {
+    if (!this.collationService) {
+      this.collationService = new CollationService(this.locale);
+    }
+    return this.collationService;
+  }
+
+  get displayNames(): IDisplayNamesService {
+    if (!this.displayNamesService) {
+      this.displayNamesService = new DisplayNamesService(this.locale);
+    }
+    return this.displayNamesService;
+  }
+
+  get segmentation(): ISegmentationService {
+    if (!this.segmentationService) {
+      this.segmentationService = new SegmentationService(this.locale);
+    }
+    return this.segmentationService;
+  }
+
+  async loadNamespaces(namespaces?: string[]): Promise<void> {
+    await this.translationStore.preloadLocale(this.locale, namespaces ?? this.config.namespaces ?? ['common']);
+  }
+
+  getLoadState(namespace: string): NamespaceLoadState {
+    return this.translationStore.getLoadState(this.locale, namespace);
   }
 }
 
 /**
  * Singleton instance of the standalone i18n API
+ * Pass it to I18nProvider as `instance` to share it with React
  */
 export const i18n: StandaloneI18n = new StandaloneI18nImpl();
 
+/**
+ * Create an isolated i18n instance with its own locale and translations
+ * Call init() to load translations, or pass the instance to I18nProvider
+ * 
+ * @param config - i18n configuration
+ * @returns A new instance
+ * 
+ * @example
+ * ```typescript
+ * const widgetI18n = createI18n({ defaultLocale: 'en', supportedLocales: ['en', 'de'] });
+ * await widgetI18n.init();
+ * widgetI18n.t('title');
+ * ```
+ */
+export function createI18n(config: I18nConfig): StandaloneI18n {
+  return new StandaloneI18nImpl(config);
+}
+
 /**
  * Type guard to check if i18n is the implementation (for internal use)
  * @internal
@@ -2,6 +2,9 @@
  * Core type definitions for the i18n/l10n system
  */
 
+import type { ReactElement, ReactNode } from 'react';
+import type { TranslationManifest } from './core/translation-manifest';
+
 // ============================================================================
 // Configuration Types
 // ============================================================================
@@ -16,8 +19,35 @@ export interface InterpolationConfig {
   suffix?: string;
   /** Whether to escape HTML in interpolated values. Default: true */
   escapeValue?: boolean;
+  /**
+   * Message syntax used by translation strings. Default: 'default'
+   * - 'default': {{var}} placeholders, plurals as separate keys
+   * - 'icu': ICU MessageFormat ({var}, {count, plural, ...}, {gender, select, ...})
+   */
+  syntax?: MessageSyntax;
+  /** Custom formatters for placeholders such as {{value, formatterName(arg)}} */
+  formatters?: Record<string, InterpolationFormatter>;
 }
 
+/**
+ * Message syntax for translation strings
+ */
+export type MessageSyntax = 'default' | 'icu';
+
+/**
+ * Formatter applied to an interpolated value: {{value, name(arg1, arg2)}}
+ * @param value - The interpolated value (or the output of the previous formatter)
+ * @param args - Arguments given in parentheses
+ * @param context - The locale and its FormatService
+ * @returns The formatted value
+ */
+export type InterpolationFormatter = (
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  value: any,
+  args: string[],
+  context: { locale: string; format: FormatService }
+) => unknown;
+
 /**
  * Pluralization configuration options
  */
@@ -26,6 +56,222 @@ export interface PluralizationConfig {
   simplifyPluralSuffix?: boolean;
 }
 
+/**
+ * Fallback locales keyed by locale code
+ * The "default" entry applies to locales without an entry of their own
+ * Example: { 'pt-BR': ['pt-PT', 'en'], default: 'en' }
+ */
+export type FallbackLocaleMap = Record<string, string | string[]>;
+
+/**
+ * Fallback locale configuration: a single locale, an ordered list, or a per-locale map
+ */
+export type FallbackLocaleConfig = string | string[] | FallbackLocaleMap;
+
+/**
+ * Backend that reads the translations of a namespace
+ * Implementations should throw (e.g. TranslationLoadError) when reading fails
+ */
+export interface TranslationBackend {
+  /**
+   * Read the translations for a locale and namespace
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param signal - Optional abort signal
+   * @returns Promise resolving to the translation data
+   */
+  read(locale: string, namespace: string, signal?: AbortSignal): Promise<TranslationNamespace>;
+}
+
+/**
+ * Backend that can also store translations, e.g. a cache layer
+ */
+export interface WritableTranslationBackend extends TranslationBackend {
+  /**
+   * Store the translations for a locale and namespace
+   * @param locale - The locale code
+   * @param namespace - The namespace
+   * @param translations - The translation data
+   */
+  write(locale: string, namespace: string, translations: TranslationNamespace): void | Promise<void>;
+}
+
+/**
+ * Listener for translations refreshed by a backend after a read
+ */
+export type RevalidateListener = (locale: string, namespace: string, translations: TranslationNamespace) => void;
+
+/**
+ * Backend that refreshes translations in the background, e.g. a ChainedBackend
+ * with 'cache-then-revalidate'. TranslationStore subscribes to apply them.
+ */
+export interface RevalidatingTranslationBackend extends TranslationBackend {
+  /**
+   * Subscribe to refreshed translations
+   * @param listener - Called with the fresh translations
+   * @returns Unsubscribe function
+   */
+  onRevalidate(listener: RevalidateListener): () => void;
+}
+
+/**
+ * Catalog entry in a translation manifest
+ */
+export interface ManifestEntry {
+  /** URL of the catalog, relative to the manifest URL or absolute */
+  url: string;
+  /** Share of translated keys, from 0 to 1 */
+  completeness?: number;
+  /** Last update of the catalog (ISO 8601) */
+  updatedAt?: string;
+}
+
+/**
+ * Translation manifest: locale -> namespace -> catalog URL or entry
+ * Example: { "locales": { "en": { "common": { "url": "en/common.3f2a1b.json" } } } }
+ */
+export interface TranslationManifestData {
+  /** Optional deployment version */
+  version?: string;
+  /** Catalogs keyed by locale, then namespace */
+  locales: Record<string, Record<string, string | ManifestEntry>>;
+}
+
+/**
+ * Catalog of a translation manifest that was added, removed or changed
+ */
+export interface ManifestChange {
+  locale: string;
+  namespace: string;
+}
+
+/**
+ * Persistent translation cache configuration
+ */
+export interface CacheConfig {
+  /**
+   * Where cached translations are stored. Default: 'auto'
+   * - 'auto': IndexedDB, falling back to localStorage, then memory
+   * - 'indexeddb' | 'localstorage' | 'memory'
+   * - a custom TranslationCacheStorage
+   */
+  storage?: 'auto' | 'indexeddb' | 'localstorage' | 'memory' | TranslationCacheStorage;
+  /** Catalog version or hash; cached entries from other versions are discarded. Default: '' */
+  version?: string;
+  /** Maximum age of cached entries in milliseconds (0 disables expiry). Default: 7 days */
+  maxAge?: number;
+  /** Reload cached namespaces in the background after serving them. Default: true */
+  revalidate?: boolean;
+  /** Time to wait for a cache read in milliseconds before loading from the backend. Default: 500 */
+  readTimeout?: number;
+}
+
+/**
+ * Translations stored in the persistent cache
+ */
+export interface CachedTranslation {
+  /** The translation data */
+  translations: TranslationNamespace;
+  /** Catalog version the entry was stored with */
+  version: string;
+  /** Time the entry was stored (ms since epoch) */
+  timestamp: number;
+}
+
+/**
+ * Key-value storage used by the persistent translation cache
+ */
+export interface TranslationCacheStorage {
+  /** Get an entry, or undefined if not stored */
+  get(key: string): Promise<CachedTranslation | undefined>;
+  /** Store an entry */
+  set(key: string, entry: CachedTranslation): Promise<void>;
+  /** Remove an entry */
+  delete(key: string): Promise<void>;
+  /** Remove all entries */
+  clear(): Promise<void>;
+}
+
+/**
+ * Load state of a namespace for a locale
+ */
+export type NamespaceLoadState = 'idle' | 'loading' | 'loaded' | 'failed';
+
+/**
+ * Listener for namespaces that failed to load
+ */
+export type TranslationLoadErrorListener = (error: TranslationLoadError) => void;
+
+/**
+ * Options for adding a resource bundle
+ */
+export interface ResourceBundleOptions {
+  /** Merge nested objects instead of replacing top-level keys. Default: false */
+  deep?: boolean;
+  /** Replace existing values. Default: true */
+  overwrite?: boolean;
+}
+
+/**
+ * Runtime API for adding, reading and removing translations
+ * Provided by TranslationStore, the standalone API and the React context
+ */
+export interface ResourceApi {
+  /** Add translations to a namespace, merging with existing translations */
+  addResourceBundle(locale: string, namespace: string, data: TranslationNamespace, options?: ResourceBundleOptions): void;
+  /** Add or replace a single translation (dot-notation key) */
+  addResource(locale: string, namespace: string, key: string, value: string | TranslationNamespace): void;
+  /** Remove all translations of a namespace */
+  removeResourceBundle(locale: string, namespace: string): void;
+  /** Get the translations of a namespace */
+  getResourceBundle(locale: string, namespace: string): TranslationNamespace | undefined;
+  /** Check if a translation exists (dot-notation key) */
+  hasResource(locale: string, namespace: string, key: string): boolean;
+}
+
+/**
+ * An override layer applied on top of the base catalogs (e.g. a white-label tenant)
+ * Provide translations directly, or load them with a loadPath or backend
+ */
+export interface OverrideLayerConfig {
+  /** Unique layer name ('base' is reserved for the base catalogs) */
+  name: string;
+  /** Path template for the layer's translation files (e.g. '/tenants/acme/{{locale}}/{{namespace}}.json') */
+  loadPath?: string;
+  /** Backend used to read the layer's translation files (takes precedence over loadPath) */
+  backend?: TranslationBackend;
+  /** Inline translations by locale and namespace */
+  resources?: Record<string, Record<string, TranslationNamespace>>;
+}
+
+/**
+ * Runtime API for override layers
+ * Provided by TranslationStore, the standalone API and the React context
+ */
+export interface OverrideLayerApi {
+  /** Push a layer on top of the existing layers, replacing a layer with the same name */
+  pushLayer(layer: OverrideLayerConfig): Promise<void>;
+  /** Remove a layer; returns false if there is no layer with that name */
+  removeLayer(name: string): boolean;
+  /** Get the layer names, highest priority first */
+  getLayers(): string[];
+}
+
+/**
+ * Serializable i18n state, created on the server and passed to I18nProvider
+ */
+export interface I18nState {
+  /** Resolved locale */
+  locale: string;
+  /** Loaded translations by locale and namespace */
+  resources: Record<string, Record<string, TranslationNamespace>>;
+}
+
+/**
+ * Listener for namespaces whose translations changed (revalidation, the resource API or layers)
+ */
+export type TranslationUpdateListener = (locale: string, namespace: string) => void;
+
 /**
  * Main i18n system configuration
  */
@@ -34,20 +280,95 @@ export interface I18nConfig {
   defaultLocale: string;
   /** List of supported locale codes */
   supportedLocales: string[];
-  /** Fallback locale for missing translations */
-  fallbackLocale?: string;
+  /** Fallback locale(s) for missing translations */
+  fallbackLocale?: FallbackLocaleConfig;
   /** List of translation namespaces */
   namespaces?: string[];
   /** Default namespace to use */
   defaultNamespace?: string;
-  /** Path template for loading translation files */
+  /** Path template for loading translation files (used by the default fetch backend) */
   loadPath?: string;
+  /** Backend used to read translation files. Default: FetchBackend with loadPath */
+  backend?: TranslationBackend;
   /** Enable debug logging */
   debug?: boolean;
   /** Interpolation configuration */
   interpolation?: InterpolationConfig;
   /** Pluralization configuration */
   pluralization?: PluralizationConfig;
+  /** Nested translation reference configuration */
+  nesting?: NestingConfig;
+  /** Translation loading configuration (retries, timeout) */
+  loading?: LoadingConfig;
+  /** Persistent translation cache (opt-in) */
+  cache?: CacheConfig;
+  /** Manifest of hashed catalog URLs; also adds the manifest's locales to the supported locales */
+  manifest?: TranslationManifest;
+  /** Override layers, pushed in order (the last layer has the highest priority) */
+  layers?: OverrideLayerConfig[];
+  /** Memory limits for loaded namespaces (LRU eviction, opt-in) */
+  memory?: MemoryConfig;
+}
+
+/**
+ * Memory limits for loaded namespaces
+ * Least recently used namespaces are evicted when a limit is exceeded and
+ * loaded again when needed. The active locale and its fallback chain, the
+ * namespace just loaded and namespaces added through the resource API are never
+ * evicted, so limits can be exceeded while they do not fit.
+ */
+export interface MemoryConfig {
+  /** Maximum number of locales kept in memory */
+  maxLocales?: number;
+  /** Maximum number of namespaces kept in memory (across locales) */
+  maxNamespaces?: number;
+  /** Approximate memory budget in bytes (estimated from the JSON size) */
+  maxBytes?: number;
+}
+
+/**
+ * Statistics of the in-memory translation cache
+ */
+export interface TranslationCacheStats {
+  /** Namespace requests served from memory */
+  hits: number;
+  /** Namespace requests that had to be loaded */
+  misses: number;
+  /** Namespaces evicted by the memory limits */
+  evictions: number;
+  /** Locales in memory */
+  locales: number;
+  /** Namespaces in memory */
+  namespaces: number;
+  /** Approximate size of the namespaces in memory, in bytes (measured on request without memory limits) */
+  bytes: number;
+}
+
+/**
+ * Nested translation reference configuration
+ */
+export interface NestingConfig {
+  /** Maximum depth of nested references ($t(key) / @:key). Default: 10 */
+  maxDepth?: number;
+  /**
+   * Called with circular or too-deep references; t() then returns the message
+   * with its references unresolved. Default: log the error outside production
+   */
+  onError?: (error: TranslationReferenceError) => void;
+}
+
+/**
+ * Translation loading configuration
+ */
+export interface LoadingConfig {
+  /** Number of retries after a failed load. Default: 2 */
+  retries?: number;
+  /** Delay before the first retry in milliseconds, doubled for each further retry. Default: 300 */
+  retryDelay?: number;
+  /** Maximum delay between retries in milliseconds. Default: 5000 */
+  maxRetryDelay?: number;
+  /** Timeout for a single load attempt in milliseconds (0 disables). Default: 10000 */
+  timeout?: number;
 }
 
 // ============================================================================
@@ -64,8 +385,12 @@ export type TranslationKey = string;
  * @template K - The translation key type (for type safety)
  */
 export interface TranslationOptions<K extends TranslationKey = TranslationKey> {
-  /** Count for pluralization */
-  count?: number;
+  /** Count for pluralization (a number, or a pre-formatted number such as "1.0") */
+  count?: number | string;
+  /** Number format for the count; the plural form follows the formatted value */
+  countFormat?: Intl.NumberFormatOptions;
+  /** Numeric range for plural range selection ("3–5 days"); sets {{from}}, {{to}} and {{count}} */
+  countRange?: [number, number];
   /** Use ordinal pluralization (1st, 2nd, 3rd, etc.) */
   ordinal?: boolean;
   /** Context for contextual translations (gender, formality, etc.) */
@@ -74,6 +399,8 @@ export interface TranslationOptions<K extends TranslationKey = TranslationKey> {
   defaultValue?: string;
   /** Namespace to use for this translation */
   ns?: string;
+  /** Escape HTML in interpolated values for this call (overrides interpolation.escapeValue) */
+  escapeValue?: boolean;
   /** Variables for interpolation */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   interpolation?: Record<string, any>;
@@ -92,6 +419,38 @@ export type TranslateFn = <K extends TranslationKey>(
   options?: TranslationOptions<K>
 ) => string;
 
+/**
+ * Component used to render a tag placeholder in a rich text translation:
+ * an element (cloned with the tag content as children) or a render function
+ */
+export type RichTextComponent = ReactElement | ((children: ReactNode) => ReactNode);
+
+/**
+ * Options for rich text translation
+ * @template K - The translation key type (for type safety)
+ */
+export interface RichTranslationOptions<K extends TranslationKey = TranslationKey>
+  extends TranslationOptions<K> {
+  /** Components keyed by tag name (e.g. { link: <a href="/terms" /> }) */
+  components?: Record<string, RichTextComponent>;
+}
+
+/**
+ * Rich text translation function signature
+ */
+export type RichTranslateFn = <K extends TranslationKey>(
+  key: K,
+  options?: RichTranslationOptions<K>
+) => ReactNode;
+
+/**
+ * Translation function with a rich text variant (t.rich)
+ */
+export type RichCapableTranslateFn = TranslateFn & {
+  /** Translate and render tag placeholders as React elements */
+  rich: RichTranslateFn;
+};
+
 /**
  * Translation namespace structure (nested object of translations)
  */
@@ -99,6 +458,20 @@ export interface TranslationNamespace {
   [key: string]: string | TranslationNamespace;
 }
 
+/**
+ * Result of resolving a translation key through the fallback chain
+ */
+export interface TranslationResolution {
+  /** The translated string (or the default value / key when missing) */
+  value: string;
+  /** Locale in the fallback chain that satisfied the key, or null when missing */
+  locale: string | null;
+  /** Locales that were tried, in order */
+  chain: string[];
+  /** Layer that provided the string ('base' or an override layer name), or null when missing */
+  layer: string | null;
+}
+
 // ============================================================================
 // Locale Types
 // ============================================================================
@@ -120,6 +493,10 @@ export interface LocaleInfo {
   nativeName: string;
   /** Text direction */
   direction: TextDirection;
+  /** Average completeness of the locale's catalogs (0-1), from the manifest */
+  completeness?: number;
+  /** Most recent catalog update (ISO 8601), from the manifest */
+  updatedAt?: string;
 }
 
 // ============================================================================
@@ -131,10 +508,31 @@ export interface LocaleInfo {
  */
 export type PluralForm = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
 
+/**
+ * CLDR plural operands of a number as it is displayed
+ * Reference: https://unicode.org/reports/tr35/tr35-numbers.html#Operands
+ */
+export interface PluralOperands {
+  /** Absolute value of the number */
+  n: number;
+  /** Integer digits of n */
+  i: number;
+  /** Number of visible fraction digits, with trailing zeros */
+  v: number;
+  /** Number of visible fraction digits, without trailing zeros */
+  w: number;
+  /** Visible fraction digits, with trailing zeros */
+  f: number;
+  /** Visible fraction digits, without trailing zeros */
+  t: number;
+}
+
 /**
  * Plural rule function that determines the plural form for a given count
+ * The library always passes the operands of the displayed count; rules
+ * called directly without them derive the operands from `count`.
  */
-export type PluralRuleFn = (count: number, ordinal: boolean) => PluralForm;
+export type PluralRuleFn = (count: number, ordinal: boolean, operands?: PluralOperands) => PluralForm;
 
 /**
  * Plural translations object
@@ -237,10 +635,11 @@ export class TranslationLoadError extends I18nError {
   constructor(
     public locale: string,
     public namespace: string,
-    public cause?: Error
+    public cause?: Error,
+    public status?: number
   ) {
     super(
-      `Failed to load translation: ${locale}/${namespace}`,
+      `Failed to load translation: ${locale}/${namespace}${status === undefined ? '' : ` (HTTP ${status})`}`,
       'TRANSLATION_LOAD_ERROR'
     );
     this.name = 'TranslationLoadError';
@@ -299,6 +698,60 @@ export class InterpolationError extends I18nError {
   }
 }
 
+/**
+ * Error thrown when an ICU message cannot be parsed
+ */
+export class MessageFormatError extends I18nError {
+  constructor(
+    public messageText: string,
+    public reason: string
+  ) {
+    super(
+      `Invalid message format: ${reason}. Message: ${messageText}`,
+      'MESSAGE_FORMAT_ERROR'
+    );
+    this.name = 'MessageFormatError';
+    Object.setPrototypeOf(this, MessageFormatError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a nested translation reference cannot be resolved
+ * (circular reference or maximum nesting depth exceeded)
+ */
+export class TranslationReferenceError extends I18nError {
+  constructor(
+    public reference: string,
+    public path: string[],
+    public reason: string
+  ) {
+    super(
+      `Cannot resolve translation reference "${reference}": ${reason}. Path: ${[...path, reference].join(' -> ')}`,
+      'TRANSLATION_REFERENCE_ERROR'
+    );
+    this.name = 'TranslationReferenceError';
+    Object.setPrototypeOf(this, TranslationReferenceError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a translation manifest cannot be loaded
+ */
+export class ManifestLoadError extends I18nError {
+  constructor(
+    public url: string,
+    public cause?: Error,
+    public status?: number
+  ) {
+    super(
+      `Failed to load translation manifest: ${url}${status === undefined ? '' : ` (HTTP ${status})`}`,
+      'MANIFEST_LOAD_ERROR'
+    );
+    this.name = 'ManifestLoadError';
+    Object.setPrototypeOf(this, ManifestLoadError.prototype);
+  }
+}
+
 // ============================================================================
 // Hook and Provider Types
 // ============================================================================
@@ -307,8 +760,8 @@ export class InterpolationError extends I18nError {
  * Result returned by useTranslation hook
  */
 export interface UseTranslationResult {
-  /** Translation function */
-  t: TranslateFn;
+  /** Translation function (with t.rich for rich text) */
+  t: RichCapableTranslateFn;
   /** Current locale code */
   locale: string;
   /** List of available locales */
@@ -317,7 +770,10 @@ export interface UseTranslationResult {
   changeLocale: (locale: string) => Promise<void>;
   /** Whether translations are currently loading */
   isLoading: boolean;
-  /** Whether the i18n system is ready to use */
+  /**
+   * Whether the i18n system is ready to use
+   * For useTranslation, also whether the hook's namespaces have finished loading
+   */
   isReady: boolean;
   /** Format service for dates, numbers, currencies, etc. */
   format: FormatService;
@@ -436,7 +892,13 @@ export interface DocumentService {
 /**
  * I18n context value
  */
-export interface I18nContextValue extends UseTranslationResult {
+export interface I18nContextValue extends Omit<UseTranslationResult, 't'>, ResourceApi, OverrideLayerApi {
+  /** Translation function (useTranslation adds the rich text variant) */
+  t: TranslateFn;
   /** Internal config (for advanced usage) */
   config: I18nConfig;
+  /** Load namespaces for the current locale and its fallback chain */
+  loadNamespaces(namespaces: string[]): Promise<void>;
+  /** Get the load state of a namespace (defaults to the current locale) */
+  getLoadState(namespace: string, locale?: string): NamespaceLoadState;
 }
@@ -1,18 +1,25 @@
 /**
  * CLDR pluralization rules for different locales
  * Implements Unicode CLDR plural rules for cardinal and ordinal forms
+ * Rules come from Intl.PluralRules; the hand-written tables below are only
+ * used on runtimes without it (or for locales it does not support)
  * Reference: https://cldr.unicode.org/index/cldr-spec/plural-rules
  */
 
-import type { PluralForm, PluralRuleFn } from '../types';
+import type { PluralForm, PluralOperands, PluralRuleFn } from '../types';
+import { getLanguageCode, getLocaleLookupChain, normalizeLocale } from './locale-detector';
 
 /**
  * English plural rules (en)
- * Cardinal: one (1), other (0, 2-999, ...)
+ * Cardinal: one (1 without visible fraction digits), other (0, 1.0, 2-999, ...)
  * Ordinal: one (1st, 21st, 31st, ...), two (2nd, 22nd, 32nd, ...), 
  *          few (3rd, 23rd, 33rd, ...), other (4th, 5th, ...)
  */
-const englishPluralRules: PluralRuleFn = (count: number, ordinal: boolean): PluralForm => {
+const englishPluralRules: PluralRuleFn = (
+  count: number,
+  ordinal: boolean,
+  operands: PluralOperands = getPluralOperands(count)
+): PluralForm => {
   if (ordinal) {
     const mod10 = count % 10;
     const mod100 = count % 100;
@@ -30,7 +37,7 @@ const englishPluralRules: PluralRuleFn = (count: number, ordinal: boolean): Plur
   }
   
   // Cardinal
-  return count === 1 ? 'one' : 'other';
+  return operands.i === 1 && operands.v === 0 ? 'one' : 'other';
 };
 
 /**
@@ -49,16 +56,20 @@ const spanishPluralRules: PluralRuleFn = (count: number, ordinal: boolean): Plur
 
 /**
  * French plural rules (fr)
- * Cardinal: one (0, 1), other (2-999, ...)
+ * Cardinal: one (0, 1 and their decimals, e.g. 1.5), other (2-999, ...)
  * Ordinal: one (1st), other (2nd, 3rd, ...)
  */
-const frenchPluralRules: PluralRuleFn = (count: number, ordinal: boolean): PluralForm => {
+const frenchPluralRules: PluralRuleFn = (
+  count: number,
+  ordinal: boolean,
+  operands: PluralOperands = getPluralOperands(count)
+): PluralForm => {
   if (ordinal) {
     return count === 1 ? 'one' : 'other';
   }
   
-  // Cardinal: 0 and 1 are singular in French
-  return count === 0 || count === 1 ? 'one' : 'other';
+  // Cardinal: integer part 0 and 1 are singular in French
+  return operands.i === 0 || operands.i === 1 ? 'one' : 'other';
 };
 
 /**
@@ -103,31 +114,250 @@ const pluralRulesMap: Map<string, PluralRuleFn> = new Map([
   ['ar', arabicPluralRules],
 ]);
 
+/**
+ * Get the CLDR plural operands of a number
+ * Strings keep their visible fraction digits ("1.50" -> v = 2, f = 50, t = 5),
+ * numbers only have the digits of their shortest representation
+ * @param value - A number or a decimal string using "." as separator
+ * @returns The plural operands (n is NaN when the value is not numeric)
+ */
+export function getPluralOperands(value: number | string): PluralOperands {
+  const source = typeof value === 'number' ? numberToDecimalString(value) : value.trim();
+  const match = /^[-+]?(\d*)(?:\.(\d*))?$/.exec(source);
+
+  if (!match || source === '' || source === '.') {
+    return { n: NaN, i: 0, v: 0, w: 0, f: 0, t: 0 };
+  }
+
+  const integerDigits = match[1] || '0';
+  const fractionDigits = match[2] || '';
+  const trimmedFraction = fractionDigits.replace(/0+$/, '');
+
+  return {
+    n: Math.abs(parseFloat(`${integerDigits}.${fractionDigits || '0'}`)),
+    i: parseInt(integerDigits, 10),
+    v: fractionDigits.length,
+    w: trimmedFraction.length,
+    f: parseInt(fractionDigits || '0', 10),
+    t: parseInt(trimmedFraction || '0', 10),
+  };
+}
+
+/**
+ * Convert a number to a plain decimal string (no exponent notation)
+ */
+function numberToDecimalString(value: number): string {
+  const decimal = String(value);
+  if (!/e/i.test(decimal)) {
+    return decimal;
+  }
+  return value.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 20 });
+}
+
+/**
+ * CLDR plural range rules that differ from "use the form of the range end"
+ * Used when Intl.PluralRules.selectRange is unavailable
+ * Reference: https://unicode.org/cldr/charts/latest/supplemental/language_plural_rules.html
+ */
+const pluralRangeExceptions: Map<string, Record<string, PluralForm>> = new Map([
+  ['ar', {
+    'zero:one': 'zero',
+    'zero:two': 'zero',
+    'one:two': 'other',
+    'other:one': 'other',
+    'other:two': 'other',
+  }],
+]);
+
+/**
+ * Custom plural rules registered with registerPluralRule, keyed by canonical locale
+ */
+const customPluralRules: Map<string, PluralRuleFn> = new Map();
+
+/**
+ * Cached Intl.PluralRules instances, keyed by "locale:type:fractionDigits"
+ */
+const intlPluralRulesCache: Map<string, Intl.PluralRules> = new Map();
+
+/**
+ * Cached results of Intl.PluralRules.supportedLocalesOf, keyed by locale
+ */
+const intlPluralRulesSupport: Map<string, boolean> = new Map();
+
+/**
+ * Resolved plural rule per requested locale (cleared when custom rules change)
+ */
+const resolvedPluralRules: Map<string, PluralRuleFn> = new Map();
+
+/**
+ * Register a custom plural rule for a locale
+ * Custom rules take precedence over Intl.PluralRules and also apply to
+ * more specific locales (a rule for "pt" is used for "pt-BR")
+ * @param locale - The locale code
+ * @param rule - The plural rule function
+ */
+export function registerPluralRule(locale: string, rule: PluralRuleFn): void {
+  const normalizedLocale = normalizeLocale(locale);
+  if (normalizedLocale) {
+    customPluralRules.set(normalizedLocale, rule);
+    resolvedPluralRules.clear();
+  }
+}
+
+/**
+ * Remove a custom plural rule registered for a locale
+ * @param locale - The locale code
+ */
+export function unregisterPluralRule(locale: string): void {
+  customPluralRules.delete(normalizeLocale(locale));
+  resolvedPluralRules.clear();
+}
+
+/**
+ * Check whether Intl.PluralRules is available and supports a locale
+ * @param locale - The locale code
+ * @returns true if Intl.PluralRules can be used for the locale
+ */
+function hasIntlPluralRules(locale: string): boolean {
+  if (typeof Intl === 'undefined' || typeof Intl.PluralRules !== 'function' || !locale) {
+    return false;
+  }
+
+  let supported = intlPluralRulesSupport.get(locale);
+  if (supported === undefined) {
+    try {
+      supported = Intl.PluralRules.supportedLocalesOf(locale).length > 0;
+    } catch {
+      supported = false;
+    }
+    intlPluralRulesSupport.set(locale, supported);
+  }
+
+  return supported;
+}
+
+/**
+ * Get a cached Intl.PluralRules instance
+ * @param locale - The locale code
+ * @param ordinal - Whether to use ordinal rules
+ * @param fractionDigits - Number of visible fraction digits (CLDR operand v)
+ * @returns The Intl.PluralRules instance
+ */
+function getIntlPluralRules(locale: string, ordinal: boolean, fractionDigits: number = 0): Intl.PluralRules {
+  const type: Intl.PluralRuleType = ordinal ? 'ordinal' : 'cardinal';
+  const cacheKey = `${locale}:${type}:${fractionDigits}`;
+  let rules = intlPluralRulesCache.get(cacheKey);
+
+  if (!rules) {
+    rules = new Intl.PluralRules(locale, {
+      type,
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    });
+    intlPluralRulesCache.set(cacheKey, rules);
+  }
+
+  return rules;
+}
+
 /**
  * Get the plural rule function for a given locale
- * Falls back to English rules if locale is not found
+ * Resolution order: custom rules, Intl.PluralRules, hand-written tables,
+ * English rules. The result is cached per locale.
  * @param locale - The locale code
  * @returns The plural rule function for the locale
  */
 export function getPluralRule(locale: string): PluralRuleFn {
-  const normalizedLocale = locale.toLowerCase().split(/[-_]/)[0] || 'en';
-  return pluralRulesMap.get(normalizedLocale) || englishPluralRules;
+  let rule = resolvedPluralRules.get(locale);
+  if (!rule) {
+    rule = resolvePluralRule(locale);
+    resolvedPluralRules.set(locale, rule);
+  }
+  return rule;
+}
+
+/**
+ * Resolve the plural rule function for a locale (see getPluralRule)
+ * @param locale - The locale code
+ * @returns The plural rule function for the locale
+ */
+function resolvePluralRule(locale: string): PluralRuleFn {
+  for (const candidate of getLocaleLookupChain(locale)) {
+    const customRule = customPluralRules.get(candidate);
+    if (customRule) {
+      return customRule;
+    }
+  }
+
+  const normalizedLocale = normalizeLocale(locale);
+  if (hasIntlPluralRules(normalizedLocale)) {
+    return (
+      count: number,
+      ordinal: boolean,
+      operands: PluralOperands = getPluralOperands(count)
+    ): PluralForm => getIntlPluralRules(normalizedLocale, ordinal, operands.v).select(operands.n) as PluralForm;
+  }
+
+  return pluralRulesMap.get(getLanguageCode(locale)) || englishPluralRules;
 }
 
 /**
  * Get the plural form for a given count and locale
  * @param locale - The locale code
- * @param count - The count to determine plural form for
+ * @param count - The count (or its plural operands) to determine plural form for
  * @param ordinal - Whether to use ordinal rules (default: false)
  * @returns The plural form (zero, one, two, few, many, other)
  */
 export function getPluralForm(
   locale: string,
-  count: number,
+  count: number | PluralOperands,
   ordinal: boolean = false
 ): PluralForm {
   const pluralRule = getPluralRule(locale);
-  return pluralRule(count, ordinal);
+  if (typeof count === 'number') {
+    return pluralRule(count, ordinal, getPluralOperands(count));
+  }
+  return pluralRule(count.n, ordinal, count);
+}
+
+/**
+ * Get the plural form for a numeric range ("3–5 days")
+ * Uses Intl.PluralRules.selectRange when available, otherwise the CLDR plural
+ * range table (which mostly uses the form of the range end)
+ * @param locale - The locale code
+ * @param start - The start of the range (or its plural operands)
+ * @param end - The end of the range (or its plural operands)
+ * @returns The plural form for the range
+ */
+export function getPluralRangeForm(
+  locale: string,
+  start: number | PluralOperands,
+  end: number | PluralOperands
+): PluralForm {
+  const startOperands = typeof start === 'number' ? getPluralOperands(start) : start;
+  const endOperands = typeof end === 'number' ? getPluralOperands(end) : end;
+  const hasCustomRule = getLocaleLookupChain(locale).some((candidate) => customPluralRules.has(candidate));
+  const normalizedLocale = normalizeLocale(locale);
+
+  if (!hasCustomRule && hasIntlPluralRules(normalizedLocale)) {
+    const fractionDigits = Math.max(startOperands.v, endOperands.v);
+    // selectRange is not part of the ES2020 typings
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const rules = getIntlPluralRules(normalizedLocale, false, fractionDigits) as any;
+    if (typeof rules.selectRange === 'function') {
+      try {
+        return rules.selectRange(startOperands.n, endOperands.n) as PluralForm;
+      } catch {
+        // Fall through to the CLDR table (e.g. for NaN ends)
+      }
+    }
+  }
+
+  const startForm = getPluralForm(locale, startOperands);
+  const endForm = getPluralForm(locale, endOperands);
+  const exceptions = pluralRangeExceptions.get(getLanguageCode(locale));
+
+  return exceptions?.[`${startForm}:${endForm}`] ?? endForm;
 }
 
 /**
@@ -142,13 +372,18 @@ export function hasPluralForm(
   form: PluralForm,
   ordinal: boolean = false
 ): boolean {
+  const categories = getIntlPluralCategories(locale, ordinal);
+  if (categories) {
+    return categories.includes(form);
+  }
+
   const pluralRule = getPluralRule(locale);
   
   // Test with various counts to see if the form is ever used
   const testCounts = [0, 1, 2, 3, 4, 5, 10, 11, 20, 21, 100, 101];
   
   for (const count of testCounts) {
-    if (pluralRule(count, ordinal) === form) {
+    if (pluralRule(count, ordinal, getPluralOperands(count)) === form) {
       return true;
     }
   }
@@ -166,6 +401,11 @@ export function getPluralForms(
   locale: string,
   ordinal: boolean = false
 ): PluralForm[] {
+  const categories = getIntlPluralCategories(locale, ordinal);
+  if (categories) {
+    return categories;
+  }
+
   const forms: Set<PluralForm> = new Set();
   const pluralRule = getPluralRule(locale);
   
@@ -173,8 +413,25 @@ export function getPluralForms(
   const testCounts = [0, 1, 2, 3, 4, 5, 10, 11, 20, 21, 22, 23, 100, 101, 102, 103];
   
   for (const count of testCounts) {
-    forms.add(pluralRule(count, ordinal));
+    forms.add(pluralRule(count, ordinal, getPluralOperands(count)));
   }
   
   return Array.from(forms);
 }
+
+/**
+ * Get the plural categories reported by Intl.PluralRules for a locale
+ * @param locale - The locale code
+ * @param ordinal - Whether to get ordinal categories
+ * @returns The plural categories, or null when custom or fallback rules apply
+ */
+function getIntlPluralCategories(locale: string, ordinal: boolean): PluralForm[] | null {
+  const hasCustomRule = getLocaleLookupChain(locale).some((candidate) => customPluralRules.has(candidate));
+  const normalizedLocale = normalizeLocale(locale);
+
+  if (hasCustomRule || !hasIntlPluralRules(normalizedLocale)) {
+    return null;
+  }
+
+  return getIntlPluralRules(normalizedLocale, ordinal).resolvedOptions().pluralCategories as PluralForm[];
+}
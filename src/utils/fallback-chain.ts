@@ -0,0 +1,115 @@
+/**
+ * Fallback chain utility for resolving the locales to try for missing translations
+ * Combines the automatic subtag chain with the configured fallback locales
+ */
+
+import type { FallbackLocaleConfig, I18nConfig } from '../types';
+import { getLocaleLookupChain, normalizeLocale } from './locale-detector';
+
+/**
+ * Build the fallback chain for a locale
+ *
+ * The chain starts with the locale itself, followed by its less specific
+ * forms that are supported ("de-CH" -> "de"), followed by the configured
+ * fallback locales.
+ * Examples:
+ * - fallbackLocale: 'en'                  "de-CH" -> ["de-CH", "de", "en"]
+ * - fallbackLocale: { 'pt-BR': ['pt-PT', 'en'] }  "pt-BR" -> ["pt-BR", "pt-PT", "en"]
+ *
+ * @param locale - The requested locale code
+ * @param config - i18n configuration
+ * @returns Locale codes in the order they should be tried
+ */
+export function getFallbackChain(
+  locale: string,
+  config: Pick<I18nConfig, 'supportedLocales' | 'fallbackLocale'>
+): string[] {
+  const chain: string[] = [locale];
+  const seen = new Set<string>([normalizeLocale(locale)]);
+
+  const add = (candidate: string) => {
+    const normalized = normalizeLocale(candidate);
+    if (normalized && !seen.has(normalized)) {
+      seen.add(normalized);
+      chain.push(normalized);
+    }
+  };
+
+  // Automatic chain: less specific forms of the locale that are supported
+  const supported = new Set(config.supportedLocales.map(normalizeLocale));
+  getLocaleLookupChain(locale)
+    .slice(1)
+    .filter((candidate) => supported.has(candidate))
+    .forEach(add);
+
+  getConfiguredFallbacks(locale, config.fallbackLocale).forEach(add);
+
+  return chain;
+}
+
+/**
+ * Get the primary fallback locale, used when no supported locale can be detected
+ *
+ * @param config - i18n configuration
+ * @returns The first configured fallback locale, or the default locale
+ */
+export function getPrimaryFallbackLocale(
+  config: Pick<I18nConfig, 'defaultLocale' | 'fallbackLocale'>
+): string {
+  const { fallbackLocale } = config;
+
+  if (typeof fallbackLocale === 'string') {
+    return fallbackLocale || config.defaultLocale;
+  }
+
+  if (Array.isArray(fallbackLocale)) {
+    return fallbackLocale[0] ?? config.defaultLocale;
+  }
+
+  if (fallbackLocale) {
+    return toArray(fallbackLocale.default)[0] ?? config.defaultLocale;
+  }
+
+  return config.defaultLocale;
+}
+
+/**
+ * Get the fallback locales configured for a locale
+ * Map entries are matched using the locale's lookup chain, then "default"
+ *
+ * @param locale - The requested locale code
+ * @param fallbackLocale - The configured fallback locales
+ * @returns The configured fallback locales for the locale
+ */
+function getConfiguredFallbacks(
+  locale: string,
+  fallbackLocale: FallbackLocaleConfig | undefined
+): string[] {
+  if (fallbackLocale === undefined || typeof fallbackLocale === 'string' || Array.isArray(fallbackLocale)) {
+    return toArray(fallbackLocale);
+  }
+
+  const entries = new Map<string, string | string[]>();
+  for (const [key, value] of Object.entries(fallbackLocale)) {
+    entries.set(key === 'default' ? key : normalizeLocale(key), value);
+  }
+
+  for (const candidate of getLocaleLookupChain(locale)) {
+    const entry = entries.get(candidate);
+    if (entry !== undefined) {
+      return toArray(entry);
+    }
+  }
+
+  return toArray(entries.get('default'));
+}
+
+/**
+ * Wrap a single locale in an array
+ */
+function toArray(value: string | string[] | undefined): string[] {
+  if (value === undefined || value === '') {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
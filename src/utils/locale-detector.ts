@@ -4,19 +4,84 @@
  */
 
 /**
- * Normalize locale code to base language code
- * Examples: "en-US" -> "en", "es-MX" -> "es", "fr-CA" -> "fr"
+ * Normalize a locale code to its canonical BCP 47 form
+ * Examples: "en-us" -> "en-US", "zh_hant_tw" -> "zh-Hant-TW", "EN" -> "en"
+ * Tags that are not well-formed fall back to their lowercase base language
  * @param locale - The locale code to normalize
- * @returns The normalized locale code
+ * @returns The canonical locale code
  */
 export function normalizeLocale(locale: string): string {
   if (!locale) {
     return '';
   }
 
-  // Convert to lowercase and extract base language code
-  const normalized = locale.toLowerCase().split(/[-_]/)[0] || '';
-  return normalized;
+  try {
+    return Intl.getCanonicalLocales(locale.replace(/_/g, '-'))[0] || '';
+  } catch {
+    // Not a well-formed tag: keep the base language code only
+    return getLanguageCode(locale);
+  }
+}
+
+/**
+ * Get the base language subtag of a locale code
+ * Examples: "en-GB" -> "en", "zh-Hant-TW" -> "zh"
+ * @param locale - The locale code
+ * @returns The lowercase language subtag
+ */
+export function getLanguageCode(locale: string): string {
+  return locale.toLowerCase().split(/[-_]/)[0] || '';
+}
+
+/**
+ * Build the lookup chain of a locale by removing subtags from the end
+ * (RFC 4647 lookup). Single-character extension singletons are dropped
+ * together with the subtag that follows them.
+ * Example: "zh-Hant-TW" -> ["zh-Hant-TW", "zh-Hant", "zh"]
+ * @param locale - The locale code
+ * @returns Locale codes from most to least specific
+ */
+export function getLocaleLookupChain(locale: string): string[] {
+  const normalized = normalizeLocale(locale);
+  if (!normalized) {
+    return [];
+  }
+
+  const chain: string[] = [normalized];
+  const subtags = normalized.split('-');
+
+  while (subtags.length > 1) {
+    subtags.pop();
+    if (subtags.length > 1 && subtags[subtags.length - 1]!.length === 1) {
+      subtags.pop();
+    }
+    chain.push(subtags.join('-'));
+  }
+
+  return chain;
+}
+
+/**
+ * Resolve a locale to the supported locale that should serve it
+ * Tries the exact tag first, then progressively less specific tags
+ * Example: "en-US" resolves to "en" when only "en" is supported
+ * @param locale - The requested locale code
+ * @param supportedLocales - Array of supported locale codes
+ * @returns The matching supported locale code, or null if none matches
+ */
+export function resolveSupportedLocale(
+  locale: string,
+  supportedLocales: string[]
+): string | null {
+  const supported = supportedLocales.map(normalizeLocale);
+
+  for (const candidate of getLocaleLookupChain(locale)) {
+    if (supported.includes(candidate)) {
+      return candidate;
+    }
+  }
+
+  return null;
 }
 
 /**
@@ -48,32 +113,13 @@ export function detectBrowserLocale(
   supportedLocales: string[],
   fallbackLocale: string
 ): string {
-  const browserLocales = getBrowserLocales();
-
-  // Try exact match first
-  for (const browserLocale of browserLocales) {
-    const normalized = normalizeLocale(browserLocale);
-    if (supportedLocales.includes(normalized)) {
-      return normalized;
-    }
-  }
-
-  // Try matching with full locale codes (e.g., "en-US" matches "en")
-  for (const browserLocale of browserLocales) {
-    const parts = browserLocale.toLowerCase().split(/[-_]/);
-    for (const part of parts) {
-      if (supportedLocales.includes(part)) {
-        return part;
-      }
-    }
-  }
-
-  // No match found, return fallback
-  return fallbackLocale;
+  return findBestMatchingLocale(getBrowserLocales(), supportedLocales, fallbackLocale);
 }
 
 /**
  * Validate if a locale is supported
+ * A locale is supported when it or one of its less specific forms is
+ * in the supported list (e.g. "en-US" is served by "en")
  * @param locale - The locale code to validate
  * @param supportedLocales - Array of supported locale codes
  * @returns true if the locale is supported, false otherwise
@@ -82,13 +128,12 @@ export function isLocaleSupported(
   locale: string,
   supportedLocales: string[]
 ): boolean {
-  const normalized = normalizeLocale(locale);
-  return supportedLocales.includes(normalized);
+  return resolveSupportedLocale(locale, supportedLocales) !== null;
 }
 
 /**
  * Find the best matching locale from a list of candidates
- * @param candidates - Array of candidate locale codes
+ * @param candidates - Array of candidate locale codes, in order of preference
  * @param supportedLocales - Array of supported locale codes
  * @param fallbackLocale - Fallback locale if no match is found
  * @returns The best matching locale code
@@ -98,24 +143,112 @@ export function findBestMatchingLocale(
   supportedLocales: string[],
   fallbackLocale: string
 ): string {
-  // Try exact match first
+  // Try exact and truncated matches first (en-GB -> en-GB, en)
   for (const candidate of candidates) {
-    const normalized = normalizeLocale(candidate);
-    if (supportedLocales.includes(normalized)) {
-      return normalized;
+    const match = resolveSupportedLocale(candidate, supportedLocales);
+    if (match) {
+      return match;
     }
   }
 
-  // Try partial match
+  // Try any supported regional variant of the same language (en-US -> en-GB)
+  const supported = supportedLocales.map(normalizeLocale);
   for (const candidate of candidates) {
-    const parts = candidate.toLowerCase().split(/[-_]/);
-    for (const part of parts) {
-      if (supportedLocales.includes(part)) {
-        return part;
-      }
+    const language = getLanguageCode(normalizeLocale(candidate));
+    const match = supported.find((locale) => getLanguageCode(locale) === language);
+    if (match) {
+      return match;
     }
   }
 
   // No match found, return fallback
   return fallbackLocale;
 }
+
+/**
+ * Parse an Accept-Language header into language ranges
+ * Ranges are ordered by quality (q-value), keeping header order for equal
+ * qualities. Ranges with q=0 or malformed entries are dropped.
+ * Example: "fr-CH, fr;q=0.9, en;q=0.8, *;q=0.5" -> ["fr-CH", "fr", "en", "*"]
+ * @param header - The Accept-Language header value
+ * @returns Language ranges from most to least preferred
+ */
+export function parseAcceptLanguage(header: string | null | undefined): string[] {
+  if (!header) {
+    return [];
+  }
+
+  const ranges: Array<{ range: string; quality: number; index: number }> = [];
+
+  header.split(',').forEach((entry, index) => {
+    const [range, ...params] = entry.trim().split(';').map((part) => part.trim());
+    if (!range || !/^(\*|[A-Za-z]{1,8}(-[A-Za-z0-9]{1,8})*)$/.test(range)) {
+      return;
+    }
+
+    let quality = 1;
+    for (const param of params) {
+      const match = /^q=([01](\.\d{0,3})?)$/i.exec(param);
+      if (match) {
+        quality = Math.min(Number(match[1]), 1);
+      }
+    }
+
+    if (quality > 0) {
+      ranges.push({ range, quality, index });
+    }
+  });
+
+  return ranges
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ range }) => range);
+}
+
+/**
+ * Find the supported locale for a list of language ranges (RFC 4647 lookup)
+ * Each range is tried from most to least specific before the next range
+ * Example: ["de-CH", "en"] with ["en", "de"] -> "de"
+ * @param ranges - Language ranges in order of preference
+ * @param supportedLocales - Array of supported locale codes
+ * @returns The matching supported locale code, or null if none matches
+ */
+export function lookupLocale(ranges: string[], supportedLocales: string[]): string | null {
+  for (const range of ranges) {
+    if (range === '*') {
+      continue;
+    }
+    const match = resolveSupportedLocale(range, supportedLocales);
+    if (match) {
+      return match;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the supported locales matched by a list of language ranges
+ * (RFC 4647 basic filtering). A range matches a locale equal to it or
+ * starting with it followed by "-"; "*" matches every locale.
+ * Example: ["en"] with ["en-GB", "en-US", "fr"] -> ["en-GB", "en-US"]
+ * @param ranges - Language ranges in order of preference
+ * @param supportedLocales - Array of supported locale codes
+ * @returns Matching supported locale codes, in order of preference
+ */
+export function filterLocales(ranges: string[], supportedLocales: string[]): string[] {
+  const supported = supportedLocales.map(normalizeLocale);
+  const matches: string[] = [];
+
+  for (const range of ranges) {
+    const prefix = range.toLowerCase();
+    for (const locale of supported) {
+      const tag = locale.toLowerCase();
+      const matchesRange = prefix === '*' || tag === prefix || tag.startsWith(`${prefix}-`);
+      if (matchesRange && !matches.includes(locale)) {
+        matches.push(locale);
+      }
+    }
+  }
+
+  return matches;
+}
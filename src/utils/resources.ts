@@ -0,0 +1,65 @@
+/**
+ * Resource utilities for combining and updating translation namespaces
+ * Updates return new objects and leave their inputs unchanged
+ */
+
+import type { TranslationNamespace } from '../types';
+
+/**
+ * Deep-merge translations
+ * Nested objects are merged; other values in `source` replace those in
+ * `target` unless `overwrite` is false
+ *
+ * @param target - The existing translations
+ * @param source - The translations to merge in
+ * @param overwrite - Whether values in `source` replace existing values. Default: true
+ * @returns The merged translations
+ */
+export function mergeTranslations(
+  target: TranslationNamespace,
+  source: TranslationNamespace,
+  overwrite: boolean = true
+): TranslationNamespace {
+  const result: TranslationNamespace = { ...target };
+
+  for (const [key, value] of Object.entries(source)) {
+    const existing = result[key];
+    if (typeof value === 'object' && typeof existing === 'object') {
+      result[key] = mergeTranslations(existing, value, overwrite);
+    } else if (existing === undefined || overwrite) {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Set a translation value at a dot-notation key
+ * Missing or non-object intermediate values are replaced with objects
+ *
+ * @param data - The translations
+ * @param key - The key (e.g. "nav.home")
+ * @param value - The translation string or nested translations
+ * @returns The updated translations
+ */
+export function setTranslationValue(
+  data: TranslationNamespace,
+  key: string,
+  value: string | TranslationNamespace
+): TranslationNamespace {
+  const [head, ...rest] = key.split('.');
+  if (head === undefined) {
+    return data;
+  }
+
+  if (rest.length === 0) {
+    return { ...data, [head]: value };
+  }
+
+  const child = data[head];
+  return {
+    ...data,
+    [head]: setTranslationValue(typeof child === 'object' ? child : {}, rest.join('.'), value),
+  };
+}
@@ -3,6 +3,8 @@
  * Handles localStorage operations with error handling for quota and availability
  */
 
+import { normalizeLocale } from './locale-detector';
+
 const LOCALE_STORAGE_KEY = 'i18n_locale';
 
 /**
@@ -21,6 +23,7 @@ function isStorageAvailable(): boolean {
 
 /**
  * Persist locale preference to localStorage
+ * The locale is stored as a canonical BCP 47 tag (e.g. "pt-BR")
  * @param locale - The locale code to persist
  * @returns true if successful, false otherwise
  */
@@ -31,7 +34,7 @@ export function persistLocale(locale: string): boolean {
   }
 
   try {
-    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+    localStorage.setItem(LOCALE_STORAGE_KEY, normalizeLocale(locale) || locale);
     return true;
   } catch (error) {
     if (error instanceof DOMException && error.name === 'QuotaExceededError') {
@@ -45,7 +48,7 @@ export function persistLocale(locale: string): boolean {
 
 /**
  * Retrieve persisted locale preference from localStorage
- * @returns The persisted locale code, or null if not found or unavailable
+ * @returns The persisted locale code (canonical BCP 47), or null if not found or unavailable
  */
 export function getPersistedLocale(): string | null {
   if (!isStorageAvailable()) {
@@ -53,7 +56,8 @@ export function getPersistedLocale(): string | null {
   }
 
   try {
-    return localStorage.getItem(LOCALE_STORAGE_KEY);
+    const locale = localStorage.getItem(LOCALE_STORAGE_KEY);
+    return locale ? normalizeLocale(locale) || locale : locale;
   } catch (error) {
     console.error('[i18n] Failed to retrieve persisted locale:', error);
     return null;
@@ -52,6 +52,14 @@ export const mockTranslations = {
           other: '{{count}} items for her',
         },
       },
+      rich: {
+        terms: 'I accept the <link>terms</link>, {{name}}',
+        inbox: {
+          one: 'You have <bold>one</bold> message',
+          other: 'You have <bold>{{count}}</bold> messages',
+        },
+        lines: 'First line<br/>Second line',
+      },
     },
     auth: {
       login: 'Log in',
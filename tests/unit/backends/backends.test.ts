@@ -0,0 +1,313 @@
+/**
+ * Translation Backend Tests
+ * 
+ * Tests for the built-in fetch, import, memory, filesystem and chained backends
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FetchBackend } from '../../../src/backends/fetch-backend';
+import { ImportBackend } from '../../../src/backends/import-backend';
+import { MemoryBackend } from '../../../src/backends/memory-backend';
+import { FsBackend } from '../../../src/backends/fs-backend';
+import { ChainedBackend } from '../../../src/backends/chained-backend';
+import { resolveLoadPath } from '../../../src/backends/load-path';
+import { TranslationLoadError } from '../../../src/types';
+
+describe('resolveLoadPath', () => {
+  it('should replace locale and namespace placeholders', () => {
+    expect(resolveLoadPath('locales/{{locale}}/{{namespace}}.json', 'pt-BR', 'auth')).toBe('locales/pt-BR/auth.json');
+    expect(resolveLoadPath('i18n/{{lng}}/{{ns}}.json', 'en', 'common')).toBe('i18n/en/common.json');
+  });
+});
+
+describe('FetchBackend', () => {
+  it('should fetch the resolved path from the public root', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true, json: async () => ({ hello: 'Hello' }) });
+    const backend = new FetchBackend({ fetch: fetchMock });
+
+    const result = await backend.read('en', 'common');
+
+    expect(result).toEqual({ hello: 'Hello' });
+    expect(fetchMock).toHaveBeenCalledWith('/locales/en/common.json');
+  });
+
+  it('should keep absolute URLs unchanged', () => {
+    const backend = new FetchBackend({ loadPath: 'https://cdn.example.com/{{locale}}/{{namespace}}.json' });
+    expect(backend.getUrl('fr', 'auth')).toBe('https://cdn.example.com/fr/auth.json');
+  });
+
+  it('should pass request options and the abort signal', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true, json: async () => ({}) });
+    const backend = new FetchBackend({ fetch: fetchMock, requestInit: { credentials: 'include' } });
+    const controller = new AbortController();
+
+    await backend.read('en', 'common', controller.signal);
+
+    expect(fetchMock).toHaveBeenCalledWith('/locales/en/common.json', {
+      credentials: 'include',
+      signal: controller.signal,
+    });
+  });
+
+  it('should throw TranslationLoadError for unsuccessful responses', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' });
+    const backend = new FetchBackend({ fetch: fetchMock });
+
+    await expect(backend.read('en', 'missing')).rejects.toMatchObject({
+      name: 'TranslationLoadError',
+      locale: 'en',
+      namespace: 'missing',
+      status: 404,
+    });
+  });
+});
+
+describe('FetchBackend conditional requests', () => {
+  const response = (status: number, body: unknown, headers: Record<string, string> = {}) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: '',
+    headers: new Headers(headers),
+    json: async () => body,
+  });
+
+  it('should send If-None-Match and If-Modified-Since after a response with validators', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      response(200, { hello: 'Hello' }, { ETag: '"v1"', 'Last-Modified': 'Wed, 01 Jan 2025 00:00:00 GMT' })
+    );
+    const backend = new FetchBackend({ fetch: fetchMock });
+
+    await backend.read('en', 'common');
+    await backend.read('en', 'common');
+
+    const headers = fetchMock.mock.calls[1]![1].headers as Headers;
+    expect(headers.get('If-None-Match')).toBe('"v1"');
+    expect(headers.get('If-Modified-Since')).toBe('Wed, 01 Jan 2025 00:00:00 GMT');
+  });
+
+  it('should return the previous data for 304 responses', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(response(200, { hello: 'Hello' }, { ETag: '"v1"' }))
+      .mockResolvedValueOnce(response(304, undefined));
+    const backend = new FetchBackend({ fetch: fetchMock });
+
+    const first = await backend.read('en', 'common');
+    const second = await backend.read('en', 'common');
+
+    expect(second).toBe(first);
+  });
+
+  it('should keep request headers alongside conditional headers', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(response(200, {}, { ETag: '"v1"' }));
+    const backend = new FetchBackend({ fetch: fetchMock, requestInit: { headers: { Authorization: 'Bearer token' } } });
+
+    await backend.read('en', 'common');
+    await backend.read('en', 'common');
+
+    const headers = fetchMock.mock.calls[1]![1].headers as Headers;
+    expect(headers.get('Authorization')).toBe('Bearer token');
+    expect(headers.get('If-None-Match')).toBe('"v1"');
+  });
+
+  it('should not send conditional headers when disabled', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(response(200, {}, { ETag: '"v1"' }));
+    const backend = new FetchBackend({ fetch: fetchMock, conditionalRequests: false });
+
+    await backend.read('en', 'common');
+    await backend.read('en', 'common');
+
+    expect(fetchMock).toHaveBeenLastCalledWith('/locales/en/common.json');
+  });
+});
+
+describe('ImportBackend', () => {
+  it('should load from an import map and unwrap default exports', async () => {
+    const backend = new ImportBackend({
+      'en/common': async () => ({ default: { hello: 'Hello' } }),
+    });
+
+    expect(await backend.read('en', 'common')).toEqual({ hello: 'Hello' });
+  });
+
+  it('should use a custom key template', async () => {
+    const backend = new ImportBackend(
+      { './locales/es/common.json': async () => ({ hello: 'Hola' }) },
+      { keyPath: './locales/{{locale}}/{{namespace}}.json' }
+    );
+
+    expect(await backend.read('es', 'common')).toEqual({ hello: 'Hola' });
+  });
+
+  it('should load from an import function', async () => {
+    const load = vi.fn().mockResolvedValue({ default: { hello: 'Bonjour' } });
+    const backend = new ImportBackend(load);
+
+    expect(await backend.read('fr', 'common')).toEqual({ hello: 'Bonjour' });
+    expect(load).toHaveBeenCalledWith('fr', 'common');
+  });
+
+  it('should keep a translation key named "default"', async () => {
+    const backend = new ImportBackend({ 'en/common': async () => ({ default: 'Default text' }) });
+
+    expect(await backend.read('en', 'common')).toEqual({ default: 'Default text' });
+  });
+
+  it('should throw TranslationLoadError when no import is registered', async () => {
+    const backend = new ImportBackend({});
+
+    await expect(backend.read('de', 'common')).rejects.toBeInstanceOf(TranslationLoadError);
+    await expect(backend.read('de', 'common')).rejects.toMatchObject({ status: 404 });
+  });
+});
+
+describe('MemoryBackend', () => {
+  it('should read namespaces from memory', async () => {
+    const backend = new MemoryBackend({ en: { common: { hello: 'Hello' } } });
+
+    expect(await backend.read('en', 'common')).toEqual({ hello: 'Hello' });
+  });
+
+  it('should add namespaces with set', async () => {
+    const backend = new MemoryBackend();
+    backend.set('es', 'common', { hello: 'Hola' });
+
+    expect(await backend.read('es', 'common')).toEqual({ hello: 'Hola' });
+  });
+
+  it('should throw TranslationLoadError for missing namespaces', async () => {
+    const backend = new MemoryBackend({ en: { common: {} } });
+
+    await expect(backend.read('en', 'auth')).rejects.toBeInstanceOf(TranslationLoadError);
+    await expect(backend.read('en', 'auth')).rejects.toMatchObject({ status: 404 });
+  });
+});
+
+describe('FsBackend', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) {
+      await rm(dir, { recursive: true, force: true });
+      dir = undefined;
+    }
+  });
+
+  it('should read and parse JSON files', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'i18n-'));
+    await mkdir(join(dir, 'en'));
+    await writeFile(join(dir, 'en', 'common.json'), JSON.stringify({ hello: 'Hello' }));
+    const backend = new FsBackend({ loadPath: join(dir, '{{locale}}', '{{namespace}}.json') });
+
+    expect(await backend.read('en', 'common')).toEqual({ hello: 'Hello' });
+  });
+
+  it('should throw TranslationLoadError for missing files', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'i18n-'));
+    const backend = new FsBackend({ loadPath: join(dir, '{{locale}}', '{{namespace}}.json') });
+
+    await expect(backend.read('en', 'common')).rejects.toBeInstanceOf(TranslationLoadError);
+    await expect(backend.read('en', 'common')).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('should report invalid JSON without a status', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'i18n-'));
+    await mkdir(join(dir, 'en'));
+    await writeFile(join(dir, 'en', 'common.json'), '{');
+    const backend = new FsBackend({ loadPath: join(dir, '{{locale}}', '{{namespace}}.json') });
+
+    await expect(backend.read('en', 'common')).rejects.toMatchObject({ status: undefined });
+  });
+});
+
+describe('ChainedBackend', () => {
+  const failing = () => ({ read: vi.fn().mockRejectedValue(new Error('Offline')) });
+
+  it('should use the first backend that succeeds', async () => {
+    const network = failing();
+    const bundled = new MemoryBackend({ en: { common: { hello: 'Bundled' } } });
+    const backend = new ChainedBackend({ backends: [network, bundled] });
+
+    expect(await backend.read('en', 'common')).toEqual({ hello: 'Bundled' });
+    expect(network.read).toHaveBeenCalledWith('en', 'common', undefined);
+  });
+
+  it('should write successful results back to earlier writable backends', async () => {
+    const cache = new MemoryBackend();
+    const network = { read: vi.fn().mockResolvedValue({ hello: 'Network' }) };
+    const backend = new ChainedBackend({ backends: [cache, network] });
+
+    await backend.read('en', 'common');
+    expect(await cache.read('en', 'common')).toEqual({ hello: 'Network' });
+
+    await backend.read('en', 'common');
+    expect(network.read).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw TranslationLoadError when every backend fails', async () => {
+    const backend = new ChainedBackend({ backends: [failing(), failing()] });
+
+    await expect(backend.read('en', 'common')).rejects.toBeInstanceOf(TranslationLoadError);
+  });
+
+  it('should stop trying backends when aborted', async () => {
+    const controller = new AbortController();
+    const network = {
+      read: vi.fn().mockImplementation(async () => {
+        controller.abort();
+        throw new Error('Aborted');
+      }),
+    };
+    const bundled = { read: vi.fn().mockResolvedValue({}) };
+    const backend = new ChainedBackend({ backends: [network, bundled] });
+
+    await expect(backend.read('en', 'common', controller.signal)).rejects.toThrow('Aborted');
+    expect(bundled.read).not.toHaveBeenCalled();
+  });
+
+  it('should answer from the cache and revalidate in the background', async () => {
+    const cache = new MemoryBackend({ en: { common: { hello: 'Cached' } } });
+    const network = { read: vi.fn().mockResolvedValue({ hello: 'Fresh' }) };
+    const onRevalidate = vi.fn();
+    const backend = new ChainedBackend({
+      backends: [cache, network],
+      strategy: 'cache-then-revalidate',
+      onRevalidate,
+    });
+
+    expect(await backend.read('en', 'common')).toEqual({ hello: 'Cached' });
+
+    await vi.waitFor(() => expect(onRevalidate).toHaveBeenCalledWith('en', 'common', { hello: 'Fresh' }));
+    expect(await cache.read('en', 'common')).toEqual({ hello: 'Fresh' });
+  });
+
+  it('should keep the cached copy when revalidation fails', async () => {
+    const cache = new MemoryBackend({ en: { common: { hello: 'Cached' } } });
+    const network = failing();
+    const onRevalidate = vi.fn();
+    const backend = new ChainedBackend({
+      backends: [cache, network],
+      strategy: 'cache-then-revalidate',
+      onRevalidate,
+    });
+
+    expect(await backend.read('en', 'common')).toEqual({ hello: 'Cached' });
+    await vi.waitFor(() => expect(network.read).toHaveBeenCalled());
+
+    expect(onRevalidate).not.toHaveBeenCalled();
+    expect(await cache.read('en', 'common')).toEqual({ hello: 'Cached' });
+  });
+
+  it('should deep-merge all backends with earlier backends taking precedence', async () => {
+    const overrides = new MemoryBackend({ en: { common: { nav: { home: 'Start' } } } });
+    const base = new MemoryBackend({ en: { common: { nav: { home: 'Home', about: 'About' }, title: 'App' } } });
+    const backend = new ChainedBackend({ backends: [overrides, failing(), base], strategy: 'merge' });
+
+    expect(await backend.read('en', 'common')).toEqual({
+      nav: { home: 'Start', about: 'About' },
+      title: 'App',
+    });
+  });
+});
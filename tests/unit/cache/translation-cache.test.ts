@@ -0,0 +1,170 @@
+/**
+ * TranslationCache Tests
+ * 
+ * Tests for the versioned, expiring persistent translation cache
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TranslationCache, createCacheStorage } from '../../../src/cache/translation-cache';
+import { MemoryCacheStorage } from '../../../src/cache/memory-cache-storage';
+import { LocalStorageCacheStorage } from '../../../src/cache/local-storage-cache-storage';
+import { IndexedDBCacheStorage } from '../../../src/cache/indexeddb-cache-storage';
+import type { TranslationCacheStorage } from '../../../src/types';
+
+describe('TranslationCache', () => {
+  let storage: MemoryCacheStorage;
+
+  beforeEach(() => {
+    storage = new MemoryCacheStorage();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should store and read translations', async () => {
+    const cache = new TranslationCache({ storage, version: '1' });
+
+    await cache.set('en', 'common', { hello: 'Hello' });
+
+    expect(await cache.get('en', 'common')).toEqual({ hello: 'Hello' });
+    expect(await cache.get('en', 'auth')).toBeUndefined();
+  });
+
+  it('should discard entries stored for another version', async () => {
+    await new TranslationCache({ storage, version: '1' }).set('en', 'common', { hello: 'Hello' });
+
+    const cache = new TranslationCache({ storage, version: '2' });
+
+    expect(await cache.get('en', 'common')).toBeUndefined();
+    expect(await storage.get('en:common')).toBeUndefined();
+  });
+
+  it('should discard expired entries', async () => {
+    vi.useFakeTimers();
+    const cache = new TranslationCache({ storage, maxAge: 1000 });
+    await cache.set('en', 'common', { hello: 'Hello' });
+
+    vi.advanceTimersByTime(999);
+    expect(await cache.get('en', 'common')).toEqual({ hello: 'Hello' });
+
+    vi.advanceTimersByTime(2);
+    expect(await cache.get('en', 'common')).toBeUndefined();
+  });
+
+  it('should not expire entries when maxAge is 0', async () => {
+    vi.useFakeTimers();
+    const cache = new TranslationCache({ storage, maxAge: 0 });
+    await cache.set('en', 'common', { hello: 'Hello' });
+
+    vi.advanceTimersByTime(365 * 24 * 60 * 60 * 1000);
+
+    expect(await cache.get('en', 'common')).toEqual({ hello: 'Hello' });
+  });
+
+  it('should treat storage errors as cache misses', async () => {
+    const failing: TranslationCacheStorage = {
+      get: vi.fn().mockRejectedValue(new Error('Unavailable')),
+      set: vi.fn().mockRejectedValue(new Error('QuotaExceededError')),
+      delete: vi.fn().mockResolvedValue(undefined),
+      clear: vi.fn().mockResolvedValue(undefined),
+    };
+    const cache = new TranslationCache({ storage: failing });
+
+    await expect(cache.set('en', 'common', {})).resolves.toBeUndefined();
+    expect(await cache.get('en', 'common')).toBeUndefined();
+  });
+
+  it('should treat reads slower than readTimeout as cache misses', async () => {
+    vi.useFakeTimers();
+    const stalled: TranslationCacheStorage = {
+      get: vi.fn().mockReturnValue(new Promise(() => {})),
+      set: vi.fn().mockResolvedValue(undefined),
+      delete: vi.fn().mockResolvedValue(undefined),
+      clear: vi.fn().mockResolvedValue(undefined),
+    };
+    const cache = new TranslationCache({ storage: stalled, readTimeout: 100 });
+
+    const read = cache.get('en', 'common');
+    await vi.advanceTimersByTimeAsync(100);
+
+    await expect(read).resolves.toBeUndefined();
+  });
+
+  it('should clear all entries', async () => {
+    const cache = new TranslationCache({ storage });
+    await cache.set('en', 'common', { hello: 'Hello' });
+    await cache.set('es', 'common', { hello: 'Hola' });
+
+    await cache.clear();
+
+    expect(await cache.get('en', 'common')).toBeUndefined();
+    expect(await cache.get('es', 'common')).toBeUndefined();
+  });
+});
+
+describe('LocalStorageCacheStorage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should store entries as JSON in localStorage', async () => {
+    const storage = new LocalStorageCacheStorage();
+    const entry = { translations: { hello: 'Hello' }, version: '1', timestamp: 1 };
+
+    await storage.set('en:common', entry);
+
+    expect(await storage.get('en:common')).toEqual(entry);
+    expect(localStorage.length).toBe(1);
+  });
+
+  it('should only clear its own entries', async () => {
+    const storage = new LocalStorageCacheStorage();
+    localStorage.setItem('i18n_locale', 'en');
+    await storage.set('en:common', { translations: {}, version: '', timestamp: 1 });
+    await storage.set('es:common', { translations: {}, version: '', timestamp: 1 });
+
+    await storage.clear();
+
+    expect(await storage.get('en:common')).toBeUndefined();
+    expect(localStorage.getItem('i18n_locale')).toBe('en');
+  });
+});
+
+describe('createCacheStorage', () => {
+  it('should return a custom storage unchanged', () => {
+    const storage = new MemoryCacheStorage();
+    expect(createCacheStorage(storage)).toBe(storage);
+  });
+
+  it('should create the requested storage', () => {
+    expect(createCacheStorage('memory')).toBeInstanceOf(MemoryCacheStorage);
+    expect(createCacheStorage('localstorage')).toBeInstanceOf(LocalStorageCacheStorage);
+  });
+
+  it('should use IndexedDB when available', () => {
+    vi.spyOn(IndexedDBCacheStorage, 'isAvailable').mockReturnValue(true);
+
+    expect(createCacheStorage()).toBeInstanceOf(IndexedDBCacheStorage);
+
+    vi.restoreAllMocks();
+  });
+
+  it('should fall back to localStorage without IndexedDB', () => {
+    vi.spyOn(IndexedDBCacheStorage, 'isAvailable').mockReturnValue(false);
+
+    expect(createCacheStorage('auto')).toBeInstanceOf(LocalStorageCacheStorage);
+    expect(createCacheStorage('indexeddb')).toBeInstanceOf(LocalStorageCacheStorage);
+
+    vi.restoreAllMocks();
+  });
+
+  it('should fall back to memory without persistent storage', () => {
+    vi.spyOn(IndexedDBCacheStorage, 'isAvailable').mockReturnValue(false);
+    vi.spyOn(LocalStorageCacheStorage, 'isAvailable').mockReturnValue(false);
+
+    expect(createCacheStorage()).toBeInstanceOf(MemoryCacheStorage);
+
+    vi.restoreAllMocks();
+  });
+});
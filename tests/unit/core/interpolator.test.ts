@@ -110,6 +110,15 @@ describe('Interpolator', () => {
       });
       expect(result).toBe('<b>bold</b>');
     });
+
+    it('should let a call override escapeValue', () => {
+      const noEscapeInterpolator = new Interpolator({ escapeValue: false });
+      expect(noEscapeInterpolator.interpolate('{{content}}', { content: '<b>' }, 'en', true)).toBe('&lt;b&gt;');
+
+      const icuInterpolator = new Interpolator({ syntax: 'icu', escapeValue: false });
+      expect(icuInterpolator.interpolate('{content}', { content: '<b>' }, 'en', true)).toBe('&lt;b&gt;');
+      expect(icuInterpolator.interpolate('{content}', { content: '<b>' }, 'en')).toBe('<b>');
+    });
   });
 
   describe('missing variable handling', () => {
@@ -185,4 +194,97 @@ describe('Interpolator', () => {
       expect(result).toBe('{{user.name}}');
     });
   });
+
+  describe('formatter pipes', () => {
+    const date = new Date(Date.UTC(2024, 0, 15, 12, 0, 0));
+
+    it('should format numbers', () => {
+      expect(interpolator.interpolate('{{n, number}}', { n: 1234.5 }, 'en')).toBe('1,234.5');
+      expect(interpolator.interpolate('{{n, number(2)}}', { n: 3 }, 'de')).toBe('3,00');
+      expect(interpolator.interpolate('{{n, number(compact)}}', { n: 1500 }, 'en')).toBe('1.5K');
+    });
+
+    it('should format currencies', () => {
+      expect(interpolator.interpolate('{{price, currency(EUR)}}', { price: 12.5 }, 'en')).toBe('€12.50');
+      expect(interpolator.interpolate('{{price, currency(usd)}}', { price: 12.5 }, 'en')).toBe('$12.50');
+    });
+
+    it('should format percentages and units', () => {
+      expect(interpolator.interpolate('{{p, percent}}', { p: 0.25 }, 'en')).toBe('25%');
+      expect(interpolator.interpolate('{{d, unit(kilometer)}}', { d: 5 }, 'en')).toBe('5 km');
+    });
+
+    it('should format dates', () => {
+      const result = interpolator.interpolate('{{when, date(long)}}', { when: date }, 'en');
+      expect(result).toContain('January');
+      expect(result).toContain('2024');
+    });
+
+    it('should format lists', () => {
+      expect(interpolator.interpolate('{{items, list}}', { items: ['a', 'b', 'c'] }, 'en')).toBe('a, b, and c');
+      expect(interpolator.interpolate('{{items, list(disjunction)}}', { items: ['a', 'b'] }, 'en')).toBe('a or b');
+    });
+
+    it('should change case', () => {
+      expect(interpolator.interpolate('{{name, uppercase}}', { name: 'istanbul' }, 'tr')).toBe('İSTANBUL');
+      expect(interpolator.interpolate('{{name, capitalize}}', { name: 'ada' }, 'en')).toBe('Ada');
+    });
+
+    it('should chain formatters', () => {
+      expect(interpolator.interpolate('{{n, number(1), lowercase}}', { n: 2 }, 'en')).toBe('2.0');
+    });
+
+    it('should escape formatted values', () => {
+      interpolator.registerFormatter('tag', (value) => `<${value}>`);
+      expect(interpolator.interpolate('{{name, tag}}', { name: 'b' }, 'en')).toBe('&lt;b&gt;');
+    });
+
+    it('should use custom formatters from the config', () => {
+      interpolator = new Interpolator({
+        formatters: {
+          reverse: (value) => String(value).split('').reverse().join(''),
+          wrap: (value, [left = '', right = '']) => `${left}${value}${right}`,
+        },
+      });
+
+      expect(interpolator.interpolate('{{name, reverse}}', { name: 'abc' })).toBe('cba');
+      expect(interpolator.interpolate('{{name, wrap("[", "]")}}', { name: 'x' })).toBe('[x]');
+    });
+
+    it('should pass the locale and format service to formatters', () => {
+      const formatter = vi.fn(() => 'ok');
+      interpolator.registerFormatter('custom', formatter);
+
+      interpolator.interpolate('{{value, custom(a, b)}}', { value: 1 }, 'fr');
+
+      expect(formatter).toHaveBeenCalledWith(1, ['a', 'b'], {
+        locale: 'fr',
+        format: expect.objectContaining({ currency: expect.any(Function) }),
+      });
+    });
+
+    it('should warn about unknown formatters and keep the value', () => {
+      const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(interpolator.interpolate('{{n, nope}}', { n: 5 })).toBe('5');
+      expect(consoleSpy).toHaveBeenCalledWith('[i18n] Unknown interpolation formatter: nope');
+      consoleSpy.mockRestore();
+    });
+
+    it('should warn when a formatter fails and keep the value', () => {
+      const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(interpolator.interpolate('{{n, currency(invalid currency)}}', { n: 5 })).toBe('5');
+      expect(consoleSpy).toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+
+    it('should report missing values by variable name', () => {
+      const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(interpolator.interpolate('{{price, currency(EUR)}}', {})).toBe('{{price, currency(EUR)}}');
+      expect(consoleSpy).toHaveBeenCalledWith('[i18n] Missing interpolation values: price');
+      consoleSpy.mockRestore();
+    });
+  });
 });
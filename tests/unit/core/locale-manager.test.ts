@@ -6,7 +6,7 @@
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { LocaleManager } from '../../../src/core/locale-manager';
-import type { I18nConfig } from '../../../src/types';
+import { InvalidLocaleError, type I18nConfig } from '../../../src/types';
 
 describe('LocaleManager', () => {
   const mockConfig: I18nConfig = {
@@ -263,6 +263,47 @@ describe('LocaleManager', () => {
     });
   });
 
+  describe('regional locales', () => {
+    const regionalConfig: I18nConfig = {
+      defaultLocale: 'en-US',
+      supportedLocales: ['en-US', 'en-GB', 'pt-PT', 'pt-BR'],
+    };
+
+    it('should hold regional locales', async () => {
+      const manager = new LocaleManager(regionalConfig);
+      await manager.setLocale('pt-br');
+      expect(manager.getCurrentLocale()).toBe('pt-BR');
+    });
+
+    it('should resolve requested locales to canonical supported tags', () => {
+      const manager = new LocaleManager(regionalConfig);
+      expect(manager.resolveLocale('en_gb')).toBe('en-GB');
+      expect(() => manager.resolveLocale('pt')).toThrow(InvalidLocaleError);
+    });
+
+    it('should restore a persisted regional locale', () => {
+      localStorage.setItem('i18n_locale', 'en-GB');
+      const manager = new LocaleManager(regionalConfig);
+      expect(manager.getCurrentLocale()).toBe('en-GB');
+    });
+
+    it('should persist the canonical tag', async () => {
+      const manager = new LocaleManager(regionalConfig);
+      await manager.setLocale('PT-pt');
+      expect(localStorage.getItem('i18n_locale')).toBe('pt-PT');
+    });
+
+    it('should describe regional locales using base language metadata', () => {
+      const manager = new LocaleManager(regionalConfig);
+      const info = manager.getLocaleInfo('en-GB');
+
+      expect(info.code).toBe('en-GB');
+      expect(info.name).toBe('British English');
+      expect(info.direction).toBe('ltr');
+      expect(manager.getLocaleInfo('ar-EG').direction).toBe('rtl');
+    });
+  });
+
   describe('reset functionality', () => {
     it('should reset to default locale', async () => {
       const configWithFallback: I18nConfig = {
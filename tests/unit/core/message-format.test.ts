@@ -0,0 +1,220 @@
+/**
+ * MessageFormat Tests
+ *
+ * Tests for ICU MessageFormat parsing and formatting
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MessageFormatter, parseMessage } from '../../../src/core/message-format';
+import { Interpolator } from '../../../src/core/interpolator';
+import { MessageFormatError } from '../../../src/types';
+
+describe('parseMessage', () => {
+  it('should parse plain text', () => {
+    expect(parseMessage('Hello world')).toEqual([{ type: 'text', value: 'Hello world' }]);
+  });
+
+  it('should parse simple arguments', () => {
+    expect(parseMessage('Hello {name}!')).toEqual([
+      { type: 'text', value: 'Hello ' },
+      { type: 'argument', name: 'name' },
+      { type: 'text', value: '!' },
+    ]);
+  });
+
+  it('should parse plural arguments with offset and exact matches', () => {
+    const [node] = parseMessage('{n, plural, offset:1 =0 {none} one {# other} other {# others}}');
+
+    expect(node).toMatchObject({ type: 'plural', name: 'n', ordinal: false, offset: 1 });
+    expect(Object.keys((node as any).options)).toEqual(['=0', 'one', 'other']);
+  });
+
+  it('should parse selectordinal as an ordinal plural', () => {
+    const [node] = parseMessage('{n, selectordinal, one {#st} other {#th}}');
+    expect(node).toMatchObject({ type: 'plural', ordinal: true });
+  });
+
+  it('should throw MessageFormatError for unterminated arguments', () => {
+    expect(() => parseMessage('Hello {name')).toThrow(MessageFormatError);
+  });
+
+  it('should throw when the other option is missing', () => {
+    expect(() => parseMessage('{n, plural, one {item}}')).toThrow(/Missing "other"/);
+  });
+
+  it('should throw for unknown argument types', () => {
+    expect(() => parseMessage('{n, money}')).toThrow(/Unknown argument type/);
+  });
+
+  it('should throw for invalid plural selectors', () => {
+    expect(() => parseMessage('{n, plural, lots {x} other {y}}')).toThrow(/Invalid selector/);
+  });
+});
+
+describe('MessageFormatter', () => {
+  let formatter: MessageFormatter;
+
+  beforeEach(() => {
+    formatter = new MessageFormatter();
+  });
+
+  describe('plural', () => {
+    const message = '{count, plural, =0 {No items} one {# item} other {# items}}';
+
+    it('should select exact matches first', () => {
+      expect(formatter.format('en', message, { count: 0 })).toBe('No items');
+    });
+
+    it('should select CLDR categories', () => {
+      expect(formatter.format('en', message, { count: 1 })).toBe('1 item');
+      expect(formatter.format('en', message, { count: 5 })).toBe('5 items');
+    });
+
+    it('should format # with locale number formatting', () => {
+      expect(formatter.format('en', message, { count: 1234 })).toBe('1,234 items');
+      expect(formatter.format('de', message, { count: 1234 })).toBe('1.234 items');
+    });
+
+    it('should use locale plural rules', () => {
+      const fr = '{count, plural, one {# article} other {# articles}}';
+      expect(formatter.format('fr', fr, { count: 0 })).toBe('0 article');
+    });
+
+    it('should apply offset to category and #', () => {
+      const msg = '{n, plural, offset:1 =0 {Nobody} =1 {Only you} one {You and # other} other {You and # others}}';
+      expect(formatter.format('en', msg, { n: 1 })).toBe('Only you');
+      expect(formatter.format('en', msg, { n: 2 })).toBe('You and 1 other');
+      expect(formatter.format('en', msg, { n: 4 })).toBe('You and 3 others');
+    });
+  });
+
+  describe('selectordinal', () => {
+    it('should use ordinal rules', () => {
+      const msg = '{n, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}';
+      expect(formatter.format('en', msg, { n: 1 })).toBe('1st');
+      expect(formatter.format('en', msg, { n: 22 })).toBe('22nd');
+      expect(formatter.format('en', msg, { n: 13 })).toBe('13th');
+    });
+  });
+
+  describe('select', () => {
+    const message = '{gender, select, male {He} female {She} other {They}} liked this';
+
+    it('should select the matching option', () => {
+      expect(formatter.format('en', message, { gender: 'female' })).toBe('She liked this');
+    });
+
+    it('should fall back to other', () => {
+      expect(formatter.format('en', message, { gender: 'unknown' })).toBe('They liked this');
+    });
+  });
+
+  describe('nesting', () => {
+    it('should evaluate nested arguments and # inside nested select', () => {
+      const msg =
+        '{count, plural, one {{name} has # {kind, select, cat {cat} other {pet}}} other {{name} has # {kind, select, cat {cats} other {pets}}}}';
+
+      expect(formatter.format('en', msg, { count: 1, name: 'Ana', kind: 'cat' })).toBe('Ana has 1 cat');
+      expect(formatter.format('en', msg, { count: 3, name: 'Ana', kind: 'dog' })).toBe('Ana has 3 pets');
+    });
+  });
+
+  describe('apostrophe escaping', () => {
+    it('should treat double apostrophes as a literal apostrophe', () => {
+      expect(formatter.format('en', "It''s {name}''s turn", { name: 'Bo' })).toBe("It's Bo's turn");
+    });
+
+    it('should keep a lone apostrophe literal', () => {
+      expect(formatter.format('en', "It's fine", {})).toBe("It's fine");
+    });
+
+    it('should quote syntax characters', () => {
+      expect(formatter.format('en', "Use '{braces}' literally", {})).toBe('Use {braces} literally');
+    });
+
+    it('should quote # inside plural branches', () => {
+      const msg = "{n, plural, other {'#' is #}}";
+      expect(formatter.format('en', msg, { n: 2 })).toBe('# is 2');
+    });
+  });
+
+  describe('typed arguments', () => {
+    it('should format numbers', () => {
+      expect(formatter.format('en', '{n, number}', { n: 1234.5 })).toBe('1,234.5');
+      expect(formatter.format('en', '{n, number, integer}', { n: 1234.5 })).toBe('1,235');
+      expect(formatter.format('en', '{n, number, percent}', { n: 0.25 })).toBe('25%');
+    });
+
+    it('should format dates with a style', () => {
+      const date = new Date(2024, 0, 15);
+      expect(formatter.format('en-US', '{d, date, long}', { d: date })).toBe('January 15, 2024');
+    });
+  });
+
+  describe('missing values', () => {
+    it('should keep the placeholder and warn', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(formatter.format('en', 'Hello {name}', {})).toBe('Hello {name}');
+      expect(warnSpy).toHaveBeenCalledWith('[i18n] Missing interpolation values: name');
+
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('caching', () => {
+    it('should parse each message only once', () => {
+      const message = 'Hello {name}';
+      const first = formatter.getAst(message);
+      formatter.format('en', message, { name: 'A' });
+
+      expect(formatter.getAst(message)).toBe(first);
+    });
+
+    it('should drop the oldest message when the cache is full', () => {
+      const small = new MessageFormatter({ cacheSize: 2 });
+      const first = small.getAst('a {x}');
+      const second = small.getAst('b {x}');
+      small.getAst('c {x}');
+
+      expect(small.getAst('b {x}')).toBe(second);
+      expect(small.getAst('a {x}')).not.toBe(first);
+    });
+  });
+
+  describe('escaping', () => {
+    it('should apply the escape passed to format instead of the default', () => {
+      const escaping = new MessageFormatter({ escape: (value) => value.toUpperCase() });
+
+      expect(escaping.format('en', 'Hi {name}', { name: 'ann' })).toBe('Hi ANN');
+      expect(escaping.format('en', 'Hi {name}', { name: 'ann' }, (value) => `[${value}]`)).toBe('Hi [ann]');
+    });
+  });
+});
+
+describe('Interpolator with ICU syntax', () => {
+  it('should evaluate ICU messages', () => {
+    const interpolator = new Interpolator({ syntax: 'icu' });
+    const result = interpolator.interpolate(
+      '{count, plural, one {# file} other {# files}}',
+      { count: 2 },
+      'en'
+    );
+    expect(result).toBe('2 files');
+  });
+
+  it('should escape argument values but not literal text', () => {
+    const interpolator = new Interpolator({ syntax: 'icu' });
+    expect(interpolator.interpolate('<b>{name}</b>', { name: '<i>' }, 'en')).toBe('<b>&lt;i&gt;</b>');
+  });
+
+  it('should return malformed messages unchanged', () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const interpolator = new Interpolator({ syntax: 'icu' });
+
+    expect(interpolator.interpolate('Hello {name', { name: 'A' }, 'en')).toBe('Hello {name');
+    expect(warnSpy).toHaveBeenCalled();
+
+    warnSpy.mockRestore();
+  });
+});
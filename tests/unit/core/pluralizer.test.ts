@@ -260,9 +260,10 @@ describe('Pluralizer', () => {
     });
 
     it('should handle negative numbers', () => {
+      // CLDR plural operands use the absolute value
       const translations = { one: 'one item', other: '{{count}} items' };
-      const result = pluralizer.pluralize('en', -1, translations);
-      expect(result).toBe('{{count}} items');
+      expect(pluralizer.pluralize('en', -1, translations)).toBe('one item');
+      expect(pluralizer.pluralize('en', -2, translations)).toBe('{{count}} items');
     });
 
     it('should handle decimal numbers', () => {
@@ -271,4 +272,62 @@ describe('Pluralizer', () => {
       expect(result).toBe('{{count}} items');
     });
   });
+
+  describe('decimal-aware pluralization', () => {
+    const translations = { one: '{{count}} star', other: '{{count}} stars' };
+
+    it('should select using visible fraction digits of formatted strings', () => {
+      expect(pluralizer.pluralize('en', '1', translations)).toBe('{{count}} star');
+      expect(pluralizer.pluralize('en', '1.0', translations)).toBe('{{count}} stars');
+      expect(pluralizer.pluralize('en', '1.0 stars', translations)).toBe('{{count}} stars');
+    });
+
+    it('should parse formatted strings with locale separators', () => {
+      expect(pluralizer.getCountOperands('de', '1.000,50')).toEqual({ n: 1000.5, i: 1000, v: 2, w: 1, f: 50, t: 5 });
+      expect(pluralizer.getCountOperands('en', '1,000.5')).toMatchObject({ i: 1000, v: 1 });
+    });
+
+    it('should select using the count as displayed with a number format', () => {
+      const format = { minimumFractionDigits: 1 };
+      expect(pluralizer.pluralize('en', 1, translations, false, undefined, format)).toBe('{{count}} stars');
+      expect(pluralizer.getCountOperands('en', 1.04, { maximumFractionDigits: 1 })).toMatchObject({ n: 1, v: 0 });
+    });
+
+    it('should apply the format before matching intervals', () => {
+      const intervals = { '1': 'exactly one', other: 'several' };
+      expect(pluralizer.pluralize('en', 0.96, intervals, false, undefined, { maximumFractionDigits: 0 })).toBe('exactly one');
+    });
+
+    it('should format counts only when a format is given', () => {
+      expect(pluralizer.formatCount('en', 3)).toBe(3);
+      expect(pluralizer.formatCount('en', '3.0')).toBe('3.0');
+      expect(pluralizer.formatCount('de', 1.5, { minimumFractionDigits: 2 })).toBe('1,50');
+    });
+  });
+
+  describe('plural ranges', () => {
+    it('should select the translation for a range', () => {
+      const translations = { one: '{{count}} jour', other: '{{count}} jours' };
+      expect(pluralizer.pluralizeRange('fr', [0, 1], translations)).toBe('{{count}} jour');
+      expect(pluralizer.pluralizeRange('fr', [1, 3], translations)).toBe('{{count}} jours');
+    });
+
+    it('should support contextual range translations', () => {
+      const translations = {
+        other: '{{count}} items',
+        male: { one: 'he has {{count}}', other: 'he has {{count}} items' },
+      };
+      expect(pluralizer.pluralizeRange('en', [3, 5], translations, 'male')).toBe('he has {{count}} items');
+    });
+
+    it('should fall back to the other form', () => {
+      const translations = { other: '{{count}} days' };
+      expect(pluralizer.pluralizeRange('ru', [1, 2], translations)).toBe('{{count}} days');
+    });
+
+    it('should format ranges', () => {
+      expect(pluralizer.formatCountRange('en', [3, 5])).toBe('3–5');
+      expect(pluralizer.formatCountRange('de', [1, 2], { minimumFractionDigits: 1 })).toBe('1,0–2,0');
+    });
+  });
 });
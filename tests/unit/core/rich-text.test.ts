@@ -0,0 +1,77 @@
+/**
+ * Rich Text Parser Tests
+ * 
+ * Tests for parsing tag placeholders in translations
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseRichText, unescapeHtml } from '../../../src/core/rich-text';
+
+describe('parseRichText', () => {
+  it('should return plain text as a single node', () => {
+    expect(parseRichText('Hello world')).toEqual(['Hello world']);
+  });
+
+  it('should parse paired tags', () => {
+    expect(parseRichText('Read the <link>terms</link> now')).toEqual([
+      'Read the ',
+      { tag: 'link', children: ['terms'] },
+      ' now',
+    ]);
+  });
+
+  it('should parse self-closing tags', () => {
+    expect(parseRichText('One<br/>Two<br />Three')).toEqual([
+      'One',
+      { tag: 'br', children: [] },
+      'Two',
+      { tag: 'br', children: [] },
+      'Three',
+    ]);
+  });
+
+  it('should parse nested tags', () => {
+    expect(parseRichText('<bold>Very <italic>important</italic></bold>')).toEqual([
+      {
+        tag: 'bold',
+        children: ['Very ', { tag: 'italic', children: ['important'] }],
+      },
+    ]);
+  });
+
+  it('should support numbered tags', () => {
+    expect(parseRichText('<0>zero</0> and <1>one</1>')).toEqual([
+      { tag: '0', children: ['zero'] },
+      ' and ',
+      { tag: '1', children: ['one'] },
+    ]);
+  });
+
+  it('should keep unmatched closing tags as text', () => {
+    expect(parseRichText('Hello</bold> world')).toEqual(['Hello</bold> world']);
+  });
+
+  it('should keep unclosed tags as text but parse their children', () => {
+    expect(parseRichText('Hello <bold>world <br/>!')).toEqual([
+      'Hello <bold>world ',
+      { tag: 'br', children: [] },
+      '!',
+    ]);
+  });
+
+  it('should not treat escaped entities as tags', () => {
+    expect(parseRichText('&lt;bold&gt;x&lt;/bold&gt;')).toEqual(['&lt;bold&gt;x&lt;/bold&gt;']);
+  });
+});
+
+describe('unescapeHtml', () => {
+  it('should reverse interpolator escaping', () => {
+    expect(unescapeHtml('&lt;b&gt; &amp; &quot;q&quot; &#39;s&#39; a&#x2F;b')).toBe(
+      `<b> & "q" 's' a/b`
+    );
+  });
+
+  it('should leave other entities untouched', () => {
+    expect(unescapeHtml('&nbsp;&copy;')).toBe('&nbsp;&copy;');
+  });
+});
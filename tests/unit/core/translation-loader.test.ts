@@ -6,6 +6,8 @@
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { TranslationLoader } from '../../../src/core/translation-loader';
+import { MemoryBackend } from '../../../src/backends/memory-backend';
+import { TranslationLoadError } from '../../../src/types';
 import type { I18nConfig } from '../../../src/types';
 
 describe('TranslationLoader', () => {
@@ -14,6 +16,7 @@ describe('TranslationLoader', () => {
     supportedLocales: ['en', 'es', 'fr'],
     defaultNamespace: 'common',
     namespaces: ['common'],
+    loading: { retries: 0 },
   };
 
   beforeEach(() => {
@@ -79,7 +82,7 @@ describe('TranslationLoader', () => {
       const result = await loader.loadTranslation('en', 'common');
 
       expect(result).toEqual(mockData);
-      expect(global.fetch).toHaveBeenCalledWith('/locales/en/common.json');
+      expect(global.fetch).toHaveBeenCalledWith('/locales/en/common.json', { signal: expect.any(AbortSignal) });
     });
 
     it('should load different namespaces', async () => {
@@ -93,12 +96,12 @@ describe('TranslationLoader', () => {
       const result = await loader.loadTranslation('en', 'auth');
 
       expect(result).toEqual(mockData);
-      expect(global.fetch).toHaveBeenCalledWith('/locales/en/auth.json');
+      expect(global.fetch).toHaveBeenCalledWith('/locales/en/auth.json', { signal: expect.any(AbortSignal) });
     });
   });
 
   describe('error handling with missing files', () => {
-    it('should return empty object when file is not found', async () => {
+    it('should reject with TranslationLoadError when file is not found', async () => {
       global.fetch = vi.fn().mockResolvedValue({
         ok: false,
         status: 404,
@@ -106,18 +109,16 @@ describe('TranslationLoader', () => {
       });
 
       const loader = new TranslationLoader(mockConfig);
-      const result = await loader.loadTranslation('en', 'missing');
 
-      expect(result).toEqual({});
+      await expect(loader.loadTranslation('en', 'missing')).rejects.toBeInstanceOf(TranslationLoadError);
     });
 
     it('should handle network errors gracefully', async () => {
       global.fetch = vi.fn().mockRejectedValue(new Error('Network error'));
 
       const loader = new TranslationLoader(mockConfig);
-      const result = await loader.loadTranslation('en', 'common');
 
-      expect(result).toEqual({});
+      await expect(loader.loadTranslation('en', 'common')).rejects.toBeInstanceOf(TranslationLoadError);
     });
 
     it('should handle 500 errors', async () => {
@@ -128,14 +129,13 @@ describe('TranslationLoader', () => {
       });
 
       const loader = new TranslationLoader(mockConfig);
-      const result = await loader.loadTranslation('en', 'common');
 
-      expect(result).toEqual({});
+      await expect(loader.loadTranslation('en', 'common')).rejects.toBeInstanceOf(TranslationLoadError);
     });
   });
 
   describe('error handling with malformed JSON', () => {
-    it('should return empty object for invalid JSON', async () => {
+    it('should reject for invalid JSON', async () => {
       global.fetch = vi.fn().mockResolvedValue({
         ok: true,
         json: async () => {
@@ -144,9 +144,8 @@ describe('TranslationLoader', () => {
       });
 
       const loader = new TranslationLoader(mockConfig);
-      const result = await loader.loadTranslation('en', 'common');
 
-      expect(result).toEqual({});
+      await expect(loader.loadTranslation('en', 'common')).rejects.toBeInstanceOf(TranslationLoadError);
     });
 
     it('should handle JSON parse errors', async () => {
@@ -158,9 +157,8 @@ describe('TranslationLoader', () => {
       });
 
       const loader = new TranslationLoader(mockConfig);
-      const result = await loader.loadTranslation('en', 'common');
 
-      expect(result).toEqual({});
+      await expect(loader.loadTranslation('en', 'common')).rejects.toBeInstanceOf(TranslationLoadError);
     });
   });
 
@@ -199,7 +197,7 @@ describe('TranslationLoader', () => {
         debug: true,
       };
       const loader = new TranslationLoader(debugConfig);
-      await loader.loadTranslation('en', 'common');
+      await expect(loader.loadTranslation('en', 'common')).rejects.toThrow();
 
       expect(consoleSpy).toHaveBeenCalledWith(
         expect.stringContaining('Failed to load translation'),
@@ -267,13 +265,178 @@ describe('TranslationLoader', () => {
 
       const loader = new TranslationLoader(mockConfig);
       
-      const [result1, result2] = await Promise.all([
+      const [result1, result2] = await Promise.allSettled([
         loader.loadTranslation('en', 'common'),
         loader.loadTranslation('en', 'missing'),
       ]);
 
-      expect(result1).toEqual({ hello: 'Hello' });
-      expect(result2).toEqual({});
+      expect(result1).toEqual({ status: 'fulfilled', value: { hello: 'Hello' } });
+      expect(result2.status).toBe('rejected');
+    });
+  });
+
+  describe('backends', () => {
+    it('should read translations through a configured backend', async () => {
+      const backend = { read: vi.fn().mockResolvedValue({ hello: 'Hallo' }) };
+      const loader = new TranslationLoader({ ...mockConfig, backend });
+
+      const result = await loader.loadTranslation('de', 'common');
+
+      expect(result).toEqual({ hello: 'Hallo' });
+      expect(backend.read).toHaveBeenCalledWith('de', 'common', expect.any(AbortSignal));
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should pass the caller signal to the backend when timeouts are disabled', async () => {
+      const backend = { read: vi.fn().mockResolvedValue({}) };
+      const loader = new TranslationLoader({ ...mockConfig, backend, loading: { retries: 0, timeout: 0 } });
+      const controller = new AbortController();
+
+      await loader.loadTranslation('en', 'common', controller.signal);
+
+      expect(backend.read).toHaveBeenCalledWith('en', 'common', controller.signal);
+    });
+
+    it('should wrap backend errors in TranslationLoadError', async () => {
+      const backend = { read: vi.fn().mockRejectedValue(new Error('Unavailable')) };
+      const loader = new TranslationLoader({ ...mockConfig, backend });
+
+      const error = await loader.loadTranslation('en', 'common').catch((e) => e);
+
+      expect(error).toBeInstanceOf(TranslationLoadError);
+      expect(error.cause.message).toBe('Unavailable');
+    });
+  });
+
+  describe('retries, timeouts and cancellation', () => {
+    it('should retry failed loads', async () => {
+      const backend = {
+        read: vi.fn()
+          .mockRejectedValueOnce(new Error('Network error'))
+          .mockRejectedValueOnce(new Error('Network error'))
+          .mockResolvedValue({ hello: 'Hello' }),
+      };
+      const loader = new TranslationLoader({ ...mockConfig, backend, loading: { retries: 2, retryDelay: 1 } });
+
+      const result = await loader.loadTranslation('en', 'common');
+
+      expect(result).toEqual({ hello: 'Hello' });
+      expect(backend.read).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry client errors such as 404', async () => {
+      global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' });
+      const loader = new TranslationLoader({ ...mockConfig, loading: { retries: 2, retryDelay: 1 } });
+
+      const error = await loader.loadTranslation('en', 'missing').catch((e) => e);
+
+      expect(error).toBeInstanceOf(TranslationLoadError);
+      expect(error.status).toBe(404);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry namespaces missing from a backend', async () => {
+      const backend = new MemoryBackend({ en: { common: {} } });
+      const read = vi.spyOn(backend, 'read');
+      const loader = new TranslationLoader({ ...mockConfig, backend, loading: { retries: 2, retryDelay: 1 } });
+
+      await expect(loader.loadTranslation('en', 'missing')).rejects.toMatchObject({ status: 404 });
+      expect(read).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry server errors and rate limiting', async () => {
+      global.fetch = vi.fn()
+        .mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Service Unavailable' })
+        .mockResolvedValueOnce({ ok: false, status: 429, statusText: 'Too Many Requests' })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ hello: 'Hello' }) });
+      const loader = new TranslationLoader({ ...mockConfig, loading: { retries: 2, retryDelay: 1 } });
+
+      expect(await loader.loadTranslation('en', 'common')).toEqual({ hello: 'Hello' });
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should give up after the configured number of retries', async () => {
+      const backend = { read: vi.fn().mockRejectedValue(new Error('Network error')) };
+      const loader = new TranslationLoader({ ...mockConfig, backend, loading: { retries: 2, retryDelay: 1 } });
+
+      await expect(loader.loadTranslation('en', 'common')).rejects.toBeInstanceOf(TranslationLoadError);
+      expect(backend.read).toHaveBeenCalledTimes(3);
+    });
+
+    it('should back off exponentially up to the maximum delay', async () => {
+      vi.useFakeTimers();
+      try {
+        const backend = { read: vi.fn().mockRejectedValue(new Error('Network error')) };
+        const loader = new TranslationLoader({
+          ...mockConfig,
+          backend,
+          loading: { retries: 3, retryDelay: 100, maxRetryDelay: 150, timeout: 0 },
+        });
+
+        const result = loader.loadTranslation('en', 'common').catch((e) => e);
+
+        await vi.advanceTimersByTimeAsync(99);
+        expect(backend.read).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(backend.read).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(150);
+        expect(backend.read).toHaveBeenCalledTimes(3);
+        await vi.advanceTimersByTimeAsync(150);
+        expect(backend.read).toHaveBeenCalledTimes(4);
+
+        expect(await result).toBeInstanceOf(TranslationLoadError);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should time out slow attempts and abort their signal', async () => {
+      let attemptSignal: AbortSignal | undefined;
+      const backend = {
+        read: vi.fn().mockImplementation((_locale: string, _namespace: string, signal: AbortSignal) => {
+          attemptSignal = signal;
+          return new Promise(() => {});
+        }),
+      };
+      const loader = new TranslationLoader({ ...mockConfig, backend, loading: { retries: 0, timeout: 10 } });
+
+      const error = await loader.loadTranslation('en', 'common').catch((e) => e);
+
+      expect(error).toBeInstanceOf(TranslationLoadError);
+      expect(error.cause.message).toContain('Timed out');
+      expect(attemptSignal?.aborted).toBe(true);
+    });
+
+    it('should abort the backend request when the caller aborts', async () => {
+      const controller = new AbortController();
+      const backend = {
+        read: vi.fn().mockImplementation((_locale: string, _namespace: string, signal: AbortSignal) =>
+          new Promise((_, reject) => {
+            signal.addEventListener('abort', () => reject(new Error('Aborted')));
+          })
+        ),
+      };
+      const loader = new TranslationLoader({ ...mockConfig, backend, loading: { retries: 2, retryDelay: 1 } });
+
+      const result = loader.loadTranslation('en', 'common', controller.signal);
+      controller.abort();
+
+      await expect(result).rejects.toThrow('Aborted');
+      expect(backend.read).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry after the caller aborts during the backoff delay', async () => {
+      const controller = new AbortController();
+      const backend = { read: vi.fn().mockRejectedValue(new Error('Network error')) };
+      const loader = new TranslationLoader({ ...mockConfig, backend, loading: { retries: 2, retryDelay: 1000 } });
+
+      const result = loader.loadTranslation('en', 'common', controller.signal);
+      // Let the first attempt fail so the loader is waiting to retry
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      controller.abort();
+
+      await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+      expect(backend.read).toHaveBeenCalledTimes(1);
     });
   });
 });
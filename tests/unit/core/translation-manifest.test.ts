@@ -0,0 +1,264 @@
+/**
+ * TranslationManifest Tests
+ * 
+ * Tests for manifest loading, URL resolution, locale discovery and refresh
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { TranslationManifest } from '../../../src/core/translation-manifest';
+import { LocaleManager } from '../../../src/core/locale-manager';
+import { TranslationLoader } from '../../../src/core/translation-loader';
+import { TranslationStore } from '../../../src/core/translation-store';
+import { FetchBackend } from '../../../src/backends/fetch-backend';
+import { ManifestLoadError } from '../../../src/types';
+import type { I18nConfig, TranslationManifestData } from '../../../src/types';
+
+const manifestData: TranslationManifestData = {
+  version: '1',
+  locales: {
+    en: {
+      common: { url: 'en/common.abc123.json', completeness: 1, updatedAt: '2025-01-10T00:00:00Z' },
+      auth: { url: 'en/auth.def456.json', completeness: 0.5, updatedAt: '2025-01-12T00:00:00Z' },
+    },
+    'pt-br': {
+      common: 'https://cdn.example.com/pt-BR/common.789.json',
+    },
+  },
+};
+
+const jsonResponse = (body: unknown, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: '',
+  json: async () => body,
+});
+
+describe('TranslationManifest', () => {
+  describe('loading', () => {
+    it('should fetch the manifest once for concurrent loads', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(jsonResponse(manifestData));
+      const manifest = new TranslationManifest({ url: '/locales/manifest.json', fetch: fetchMock });
+
+      await Promise.all([manifest.load(), manifest.load()]);
+      await manifest.load();
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(manifest.isLoaded()).toBe(true);
+    });
+
+    it('should throw ManifestLoadError for failed requests', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(jsonResponse(null, 500));
+      const manifest = new TranslationManifest({ url: '/locales/manifest.json', fetch: fetchMock });
+
+      await expect(manifest.load()).rejects.toMatchObject({ name: 'ManifestLoadError', status: 500 });
+      expect(manifest.isLoaded()).toBe(false);
+    });
+
+    it('should reject manifests without locales', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ version: '1' }));
+      const manifest = new TranslationManifest({ url: '/locales/manifest.json', fetch: fetchMock });
+
+      await expect(manifest.load()).rejects.toBeInstanceOf(ManifestLoadError);
+    });
+
+    it('should use inline data without fetching', async () => {
+      const fetchMock = vi.fn();
+      const manifest = new TranslationManifest({ data: manifestData, fetch: fetchMock });
+
+      await manifest.load();
+
+      expect(manifest.isLoaded()).toBe(true);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('catalog lookup', () => {
+    const manifest = new TranslationManifest({ url: '/locales/manifest.json', data: manifestData });
+
+    it('should resolve relative URLs against the manifest URL', () => {
+      expect(manifest.getUrl('en', 'common')).toBe('/locales/en/common.abc123.json');
+    });
+
+    it('should keep absolute URLs and match canonical locale codes', () => {
+      expect(manifest.getUrl('pt-BR', 'common')).toBe('https://cdn.example.com/pt-BR/common.789.json');
+    });
+
+    it('should return undefined for catalogs missing from the manifest', () => {
+      expect(manifest.getUrl('en', 'dashboard')).toBeUndefined();
+      expect(manifest.getUrl('fr', 'common')).toBeUndefined();
+    });
+
+    it('should list locales and namespaces', () => {
+      expect(manifest.getLocales()).toEqual(['en', 'pt-BR']);
+      expect(manifest.getNamespaces('en')).toEqual(['common', 'auth']);
+    });
+
+    it('should summarize locale metadata', () => {
+      expect(manifest.getLocaleMetadata('en')).toEqual({
+        completeness: 0.75,
+        updatedAt: '2025-01-12T00:00:00Z',
+      });
+      expect(manifest.getLocaleMetadata('pt-BR')).toEqual({ completeness: undefined, updatedAt: undefined });
+    });
+  });
+
+  describe('refresh', () => {
+    it('should bypass the HTTP cache and report changed catalogs', async () => {
+      const updated: TranslationManifestData = {
+        locales: {
+          en: {
+            common: 'en/common.new999.json',
+            auth: { url: 'en/auth.def456.json' },
+          },
+          fr: { common: 'fr/common.111.json' },
+        },
+      };
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce(jsonResponse(manifestData))
+        .mockResolvedValueOnce(jsonResponse(updated));
+      const manifest = new TranslationManifest({ url: '/locales/manifest.json', fetch: fetchMock });
+      const listener = vi.fn();
+
+      await manifest.load();
+      manifest.subscribe(listener);
+      const changes = await manifest.refresh();
+
+      expect(fetchMock).toHaveBeenLastCalledWith('/locales/manifest.json', { cache: 'no-cache' });
+      expect(changes).toEqual([
+        { locale: 'en', namespace: 'common' },
+        { locale: 'pt-BR', namespace: 'common' },
+        { locale: 'fr', namespace: 'common' },
+      ]);
+      expect(listener).toHaveBeenCalledWith(changes);
+      expect(manifest.getUrl('en', 'common')).toBe('/locales/en/common.new999.json');
+    });
+
+    it('should not notify listeners when nothing changed', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(jsonResponse(manifestData));
+      const manifest = new TranslationManifest({ url: '/locales/manifest.json', fetch: fetchMock });
+      await manifest.load();
+      const listener = vi.fn();
+      manifest.subscribe(listener);
+
+      await manifest.refresh();
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('integration', () => {
+    const config: I18nConfig = {
+      defaultLocale: 'en',
+      supportedLocales: ['en'],
+      loading: { retries: 0 },
+    };
+
+    it('should fetch catalogs from manifest URLs', async () => {
+      const fetchMock = vi.fn().mockImplementation(async (url: string) =>
+        url.endsWith('manifest.json') ? jsonResponse(manifestData) : jsonResponse({ hello: url })
+      );
+      const manifest = new TranslationManifest({ url: '/locales/manifest.json', fetch: fetchMock });
+      const backend = new FetchBackend({ fetch: fetchMock, manifest });
+
+      expect(await backend.read('en', 'common')).toEqual({ hello: '/locales/en/common.abc123.json' });
+      expect(await backend.read('en', 'dashboard')).toEqual({ hello: '/locales/en/dashboard.json' });
+    });
+
+    it('should fall back to loadPath when the manifest fails to load', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const fetchMock = vi.fn().mockImplementation(async (url: string) =>
+        url.endsWith('manifest.json') ? jsonResponse(null, 404) : jsonResponse({ hello: url })
+      );
+      const manifest = new TranslationManifest({ url: '/locales/manifest.json', fetch: fetchMock });
+      const backend = new FetchBackend({ fetch: fetchMock, manifest });
+
+      expect(await backend.read('en', 'common')).toEqual({ hello: '/locales/en/common.json' });
+
+      warnSpy.mockRestore();
+    });
+
+    it('should back off after the manifest fails to load', async () => {
+      vi.useFakeTimers();
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const fetchMock = vi.fn().mockImplementation(async (url: string) =>
+        url.endsWith('manifest.json') ? jsonResponse(null, 500) : jsonResponse({ hello: url })
+      );
+      const manifest = new TranslationManifest({ url: '/locales/manifest.json', fetch: fetchMock });
+      const backend = new FetchBackend({ fetch: fetchMock, manifest });
+      const manifestRequests = () => fetchMock.mock.calls.filter(([url]) => url.endsWith('manifest.json')).length;
+
+      await backend.read('en', 'common');
+      await backend.read('en', 'auth');
+      expect(manifestRequests()).toBe(1);
+
+      vi.advanceTimersByTime(1000);
+      await backend.read('en', 'common');
+      expect(manifestRequests()).toBe(2);
+
+      warnSpy.mockRestore();
+      vi.useRealTimers();
+    });
+
+    it('should report manifest URLs as load paths', () => {
+      const manifest = new TranslationManifest({ url: '/locales/manifest.json', data: manifestData });
+      const loader = new TranslationLoader({ ...config, manifest });
+
+      expect(loader.getLoadPath('en', 'common')).toBe('/locales/en/common.abc123.json');
+      expect(loader.getLoadPath('en', 'dashboard')).toBe('locales/en/dashboard.json');
+    });
+
+    it('should add manifest locales to the supported locales', () => {
+      const manifest = new TranslationManifest({ url: '/locales/manifest.json', data: manifestData });
+      const localeManager = new LocaleManager({ ...config, manifest }, 'en');
+
+      const locales = localeManager.getSupportedLocales();
+
+      expect(locales.map((locale) => locale.code)).toEqual(['en', 'pt-BR']);
+      expect(localeManager.getSupportedLocaleCodes()).toEqual(['en', 'pt-BR']);
+      expect(locales[0]).toMatchObject({ completeness: 0.75, updatedAt: '2025-01-12T00:00:00Z' });
+      expect(localeManager.resolveLocale('pt-br')).toBe('pt-BR');
+    });
+
+    it('should reload loaded catalogs whose URL changed on refresh', async () => {
+      const catalogs: Record<string, unknown> = {
+        '/locales/en/common.abc123.json': { hello: 'Hello' },
+        '/locales/en/common.new999.json': { hello: 'Hello v2' },
+      };
+      let manifestBody: TranslationManifestData = manifestData;
+      const fetchMock = vi.fn().mockImplementation(async (url: string) =>
+        url.endsWith('manifest.json') ? jsonResponse(manifestBody) : jsonResponse(catalogs[url])
+      );
+      const manifest = new TranslationManifest({ url: '/locales/manifest.json', fetch: fetchMock });
+      const loader = new TranslationLoader({ ...config, manifest, backend: new FetchBackend({ fetch: fetchMock, manifest }) });
+      const store = new TranslationStore(loader, { ...config, manifest });
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      await store.loadNamespace('en', 'common');
+      manifestBody = { locales: { en: { common: 'en/common.new999.json' } } };
+      await manifest.refresh();
+
+      await vi.waitFor(() => expect(listener).toHaveBeenCalledWith('en', 'common'));
+      expect(store.getTranslation('en', 'common', 'hello')).toBe('Hello v2');
+    });
+
+    it('should stop following the manifest once disposed', async () => {
+      let manifestBody: TranslationManifestData = manifestData;
+      const fetchMock = vi.fn().mockImplementation(async (url: string) =>
+        url.endsWith('manifest.json') ? jsonResponse(manifestBody) : jsonResponse({ hello: url })
+      );
+      const manifest = new TranslationManifest({ url: '/locales/manifest.json', fetch: fetchMock });
+      const loader = new TranslationLoader({ ...config, manifest, backend: new FetchBackend({ fetch: fetchMock, manifest }) });
+      const store = new TranslationStore(loader, { ...config, manifest });
+
+      await store.loadNamespace('en', 'common');
+      store.dispose();
+      const loadTranslation = vi.spyOn(loader, 'loadTranslation');
+      manifestBody = { locales: { en: { common: 'en/common.new999.json' } } };
+      await manifest.refresh();
+
+      expect(loadTranslation).not.toHaveBeenCalled();
+      expect(store.getTranslation('en', 'common', 'hello')).toBe('/locales/en/common.abc123.json');
+    });
+  });
+});
@@ -7,6 +7,10 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { TranslationStore } from '../../../src/core/translation-store';
 import { TranslationLoader } from '../../../src/core/translation-loader';
+import { MemoryCacheStorage } from '../../../src/cache/memory-cache-storage';
+import { MemoryBackend } from '../../../src/backends/memory-backend';
+import { ChainedBackend } from '../../../src/backends/chained-backend';
+import { TranslationLoadError } from '../../../src/types';
 import type { I18nConfig } from '../../../src/types';
 
 describe('TranslationStore', () => {
@@ -33,7 +37,7 @@ describe('TranslationStore', () => {
       await store.loadNamespace('en', 'common');
 
       expect(store.hasNamespace('en', 'common')).toBe(true);
-      expect(mockLoader.loadTranslation).toHaveBeenCalledWith('en', 'common');
+      expect(mockLoader.loadTranslation).toHaveBeenCalledWith('en', 'common', expect.any(AbortSignal));
     });
 
     it('should cache loaded translations', async () => {
@@ -207,6 +211,19 @@ describe('TranslationStore', () => {
     });
   });
 
+  describe('loaded namespaces', () => {
+    it('should list namespaces loaded from the backend', async () => {
+      vi.spyOn(mockLoader, 'loadTranslation').mockResolvedValue({ hello: 'Hello' });
+
+      await store.loadNamespace('en', 'common');
+      await store.loadNamespace('en', 'billing');
+      store.addResourceBundle('en', 'plugins', { title: 'Plugins' });
+
+      expect(store.getLoadedNamespaces('en')).toEqual(['common', 'billing']);
+      expect(store.getLoadedNamespaces('fr')).toEqual([]);
+    });
+  });
+
   describe('preloading multiple namespaces', () => {
     it('should preload multiple namespaces', async () => {
       const commonData = { hello: 'Hello' };
@@ -240,6 +257,33 @@ describe('TranslationStore', () => {
     });
   });
 
+  describe('preloading fallback chains', () => {
+    it('should load every locale in the fallback chain', async () => {
+      const chainConfig: I18nConfig = {
+        ...mockConfig,
+        supportedLocales: ['en', 'de', 'de-CH'],
+        fallbackLocale: 'en',
+      };
+      store = new TranslationStore(mockLoader, chainConfig);
+      const loadSpy = vi.spyOn(mockLoader, 'loadTranslation').mockResolvedValue({});
+
+      await store.preloadLocale('de-CH', ['common', 'auth']);
+
+      expect(loadSpy).toHaveBeenCalledTimes(6);
+      expect(store.hasNamespace('de-CH', 'auth')).toBe(true);
+      expect(store.hasNamespace('de', 'common')).toBe(true);
+      expect(store.hasNamespace('en', 'auth')).toBe(true);
+    });
+
+    it('should only load the requested locale without a config', async () => {
+      const loadSpy = vi.spyOn(mockLoader, 'loadTranslation').mockResolvedValue({});
+
+      await store.preloadLocale('de-CH', ['common']);
+
+      expect(loadSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('raw data retrieval for plural forms', () => {
     beforeEach(async () => {
       const mockData = {
@@ -326,20 +370,24 @@ describe('TranslationStore', () => {
     });
   });
 
-  describe('error recovery and empty object caching', () => {
-    it('should cache empty object on load failure', async () => {
-      const loadSpy = vi.spyOn(mockLoader, 'loadTranslation').mockRejectedValue(
-        new Error('Load failed')
-      );
+  describe('error recovery', () => {
+    it('should not cache failed loads', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const loadSpy = vi.spyOn(mockLoader, 'loadTranslation')
+        .mockRejectedValueOnce(new Error('Load failed'))
+        .mockResolvedValueOnce({ hello: 'Hello' });
 
       await store.loadNamespace('en', 'common');
 
-      expect(store.hasNamespace('en', 'common')).toBe(true);
+      expect(store.hasNamespace('en', 'common')).toBe(false);
       expect(loadSpy).toHaveBeenCalledTimes(1);
 
-      // Second load should not retry
+      // Second load tries again
       await store.loadNamespace('en', 'common');
-      expect(loadSpy).toHaveBeenCalledTimes(1);
+      expect(loadSpy).toHaveBeenCalledTimes(2);
+      expect(store.getTranslation('en', 'common', 'hello')).toBe('Hello');
+
+      consoleSpy.mockRestore();
     });
 
     it('should handle errors gracefully', async () => {
@@ -367,4 +415,695 @@ describe('TranslationStore', () => {
       consoleSpy.mockRestore();
     });
   });
+
+  describe('cancellation', () => {
+    const mockAbortableLoad = () =>
+      vi.spyOn(mockLoader, 'loadTranslation').mockImplementation(
+        (_locale, _namespace, signal) =>
+          new Promise((resolve, reject) => {
+            const timer = setTimeout(() => resolve({ hello: 'Hello' }), 20);
+            signal?.addEventListener('abort', () => {
+              clearTimeout(timer);
+              reject(new Error('Aborted'));
+            });
+          })
+      );
+
+    it('should abort the load when every caller aborts', async () => {
+      const loadSpy = mockAbortableLoad();
+      const controller = new AbortController();
+
+      const load = store.loadNamespace('en', 'common', controller.signal);
+      controller.abort();
+      await load;
+
+      expect(loadSpy.mock.calls[0]![2]!.aborted).toBe(true);
+      expect(store.hasNamespace('en', 'common')).toBe(false);
+    });
+
+    it('should keep a shared load running while another caller waits', async () => {
+      mockAbortableLoad();
+      const controller = new AbortController();
+
+      const aborted = store.loadNamespace('en', 'common', controller.signal);
+      const waiting = store.loadNamespace('en', 'common');
+      controller.abort();
+      await Promise.all([aborted, waiting]);
+
+      expect(store.hasNamespace('en', 'common')).toBe(true);
+    });
+
+    it('should start a new load after an aborted one', async () => {
+      const loadSpy = mockAbortableLoad();
+      const controller = new AbortController();
+
+      const aborted = store.loadNamespace('en', 'common', controller.signal);
+      controller.abort();
+      await store.loadNamespace('en', 'common');
+      await aborted;
+
+      expect(loadSpy).toHaveBeenCalledTimes(2);
+      expect(store.hasNamespace('en', 'common')).toBe(true);
+    });
+
+    it('should pass the signal when preloading a locale', async () => {
+      const loadSpy = mockAbortableLoad();
+      const controller = new AbortController();
+
+      const preload = store.preloadLocale('en', ['common', 'auth'], controller.signal);
+      controller.abort();
+      await preload;
+
+      expect(loadSpy).toHaveBeenCalledTimes(2);
+      expect(store.hasNamespace('en', 'common')).toBe(false);
+      expect(store.hasNamespace('en', 'auth')).toBe(false);
+    });
+  });
+
+  describe('load states and errors', () => {
+    it('should report idle, loading and loaded states', async () => {
+      vi.spyOn(mockLoader, 'loadTranslation').mockResolvedValue({ hello: 'Hello' });
+
+      expect(store.getLoadState('en', 'common')).toBe('idle');
+
+      const load = store.loadNamespace('en', 'common');
+      expect(store.getLoadState('en', 'common')).toBe('loading');
+
+      await load;
+      expect(store.getLoadState('en', 'common')).toBe('loaded');
+    });
+
+    it('should report failed loads with a TranslationLoadError', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const listener = vi.fn();
+      store.onLoadError(listener);
+      vi.spyOn(mockLoader, 'loadTranslation').mockRejectedValue(
+        new TranslationLoadError('en', 'common', new Error('HTTP 500: Internal Server Error'), 500)
+      );
+
+      await store.loadNamespace('en', 'common');
+
+      expect(store.getLoadState('en', 'common')).toBe('failed');
+      expect(store.getLoadError('en', 'common')?.status).toBe(500);
+      expect(listener).toHaveBeenCalledWith(store.getLoadError('en', 'common'));
+
+      consoleSpy.mockRestore();
+    });
+
+    it('should wrap other loader errors in TranslationLoadError', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const listener = vi.fn();
+      store.onLoadError(listener);
+      vi.spyOn(mockLoader, 'loadTranslation').mockRejectedValue(new Error('Network error'));
+
+      await store.loadNamespace('es', 'auth');
+
+      const error = listener.mock.calls[0]![0];
+      expect(error).toBeInstanceOf(TranslationLoadError);
+      expect(error).toMatchObject({ locale: 'es', namespace: 'auth' });
+      expect(error.cause.message).toBe('Network error');
+
+      consoleSpy.mockRestore();
+    });
+
+    it('should clear the failure once the namespace loads', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.spyOn(mockLoader, 'loadTranslation')
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce({ hello: 'Hello' });
+
+      await store.loadNamespace('en', 'common');
+      await store.loadNamespace('en', 'common');
+
+      expect(store.getLoadState('en', 'common')).toBe('loaded');
+      expect(store.getLoadError('en', 'common')).toBeUndefined();
+
+      consoleSpy.mockRestore();
+    });
+
+    it('should not report aborted loads as failures', async () => {
+      const listener = vi.fn();
+      store.onLoadError(listener);
+      vi.spyOn(mockLoader, 'loadTranslation').mockImplementation(
+        (_locale, _namespace, signal) =>
+          new Promise((_, reject) => {
+            signal?.addEventListener('abort', () => reject(new Error('Aborted')));
+          })
+      );
+      const controller = new AbortController();
+
+      const load = store.loadNamespace('en', 'common', controller.signal);
+      controller.abort();
+      await load;
+
+      expect(store.getLoadState('en', 'common')).toBe('idle');
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should stop notifying after unsubscribe', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const listener = vi.fn();
+      const unsubscribe = store.onLoadError(listener);
+      unsubscribe();
+      vi.spyOn(mockLoader, 'loadTranslation').mockRejectedValue(new Error('Network error'));
+
+      await store.loadNamespace('en', 'common');
+
+      expect(listener).not.toHaveBeenCalled();
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('persistent cache', () => {
+    const createCachedStore = (storage: MemoryCacheStorage, version = '1', revalidate?: boolean) =>
+      new TranslationStore(mockLoader, { ...mockConfig, cache: { storage, version, revalidate } });
+
+    it('should write loaded namespaces to the persistent cache', async () => {
+      const storage = new MemoryCacheStorage();
+      vi.spyOn(mockLoader, 'loadTranslation').mockResolvedValue({ hello: 'Hello' });
+
+      await createCachedStore(storage).loadNamespace('en', 'common');
+
+      await vi.waitFor(async () => {
+        expect((await storage.get('en:common'))?.translations).toEqual({ hello: 'Hello' });
+      });
+    });
+
+    it('should serve cached namespaces without waiting for the loader', async () => {
+      const storage = new MemoryCacheStorage();
+      await storage.set('en:common', { translations: { hello: 'Cached' }, version: '1', timestamp: Date.now() });
+      vi.spyOn(mockLoader, 'loadTranslation').mockReturnValue(new Promise(() => {}));
+
+      const cachedStore = createCachedStore(storage);
+      await cachedStore.loadNamespace('en', 'common');
+
+      expect(cachedStore.getTranslation('en', 'common', 'hello')).toBe('Cached');
+    });
+
+    it('should revalidate cached namespaces in the background', async () => {
+      const storage = new MemoryCacheStorage();
+      await storage.set('en:common', { translations: { hello: 'Cached' }, version: '1', timestamp: Date.now() });
+      vi.spyOn(mockLoader, 'loadTranslation').mockResolvedValue({ hello: 'Fresh' });
+
+      const cachedStore = createCachedStore(storage);
+      const listener = vi.fn();
+      cachedStore.subscribe(listener);
+      await cachedStore.loadNamespace('en', 'common');
+
+      await vi.waitFor(() => expect(cachedStore.getTranslation('en', 'common', 'hello')).toBe('Fresh'));
+      expect(listener).toHaveBeenCalledWith('en', 'common');
+      await vi.waitFor(async () => {
+        expect((await storage.get('en:common'))?.translations).toEqual({ hello: 'Fresh' });
+      });
+    });
+
+    it('should not revalidate cached namespaces when revalidate is false', async () => {
+      const storage = new MemoryCacheStorage();
+      await storage.set('en:common', { translations: { hello: 'Cached' }, version: '1', timestamp: Date.now() });
+      const loadSpy = vi.spyOn(mockLoader, 'loadTranslation');
+
+      await createCachedStore(storage, '1', false).loadNamespace('en', 'common');
+
+      expect(loadSpy).not.toHaveBeenCalled();
+    });
+
+    it('should reload namespaces cached for another version', async () => {
+      const storage = new MemoryCacheStorage();
+      await storage.set('en:common', { translations: { hello: 'Old' }, version: '1', timestamp: Date.now() });
+      vi.spyOn(mockLoader, 'loadTranslation').mockResolvedValue({ hello: 'New' });
+
+      const cachedStore = createCachedStore(storage, '2');
+      await cachedStore.loadNamespace('en', 'common');
+
+      expect(cachedStore.getTranslation('en', 'common', 'hello')).toBe('New');
+    });
+
+    it('should clear the persistent cache', async () => {
+      const storage = new MemoryCacheStorage();
+      await storage.set('en:common', { translations: {}, version: '1', timestamp: Date.now() });
+
+      await createCachedStore(storage).clearPersistentCache();
+
+      expect(await storage.get('en:common')).toBeUndefined();
+    });
+  });
+
+  describe('revalidation', () => {
+    it('should apply translations revalidated by a chained backend', async () => {
+      const cache = new MemoryBackend({ en: { common: { hello: 'Cached' } } });
+      const network = { read: vi.fn().mockResolvedValue({ hello: 'Fresh' }) };
+      const config: I18nConfig = {
+        ...mockConfig,
+        backend: new ChainedBackend({ backends: [cache, network], strategy: 'cache-then-revalidate' }),
+        loading: { retries: 0 },
+      };
+      const chainedStore = new TranslationStore(new TranslationLoader(config), config);
+      const listener = vi.fn();
+      chainedStore.subscribe(listener);
+
+      await chainedStore.loadNamespace('en', 'common');
+
+      await vi.waitFor(() => expect(chainedStore.getTranslation('en', 'common', 'hello')).toBe('Fresh'));
+      expect(listener).toHaveBeenCalledWith('en', 'common');
+    });
+
+    it('should stop applying backend revalidations once disposed', async () => {
+      const backend = new ChainedBackend({ backends: [new MemoryBackend({ en: { common: { hello: 'Hello' } } })] });
+      const config: I18nConfig = { ...mockConfig, backend };
+      const chainedStore = new TranslationStore(new TranslationLoader(config), config);
+      const unsubscribe = vi.fn();
+      const onRevalidate = vi.spyOn(backend, 'onRevalidate').mockReturnValue(unsubscribe);
+
+      await chainedStore.loadNamespace('en', 'common');
+      chainedStore.dispose();
+
+      expect(onRevalidate).toHaveBeenCalledTimes(1);
+      expect(unsubscribe).toHaveBeenCalledTimes(1);
+    });
+
+    it('should replace changed translations and notify subscribers', async () => {
+      const loadSpy = vi.spyOn(mockLoader, 'loadTranslation')
+        .mockResolvedValueOnce({ hello: 'Hello' })
+        .mockResolvedValueOnce({ hello: 'Hello again' });
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      await store.loadNamespace('en', 'common');
+      await store.revalidate();
+
+      expect(loadSpy).toHaveBeenCalledTimes(2);
+      expect(store.getTranslation('en', 'common', 'hello')).toBe('Hello again');
+      expect(listener).toHaveBeenCalledWith('en', 'common');
+    });
+
+    it('should not notify subscribers when content is unchanged', async () => {
+      const data = { hello: 'Hello' };
+      vi.spyOn(mockLoader, 'loadTranslation')
+        .mockResolvedValueOnce(data)
+        .mockResolvedValueOnce(data)
+        .mockResolvedValueOnce({ hello: 'Hello' });
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      await store.loadNamespace('en', 'common');
+      await store.revalidate();
+      await store.revalidate();
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should only revalidate the given locale and namespace', async () => {
+      const loadSpy = vi.spyOn(mockLoader, 'loadTranslation').mockResolvedValue({});
+
+      await store.loadNamespace('en', 'common');
+      await store.loadNamespace('en', 'auth');
+      await store.loadNamespace('es', 'common');
+      loadSpy.mockClear();
+
+      await store.revalidate('en', 'auth');
+      expect(loadSpy).toHaveBeenCalledTimes(1);
+      expect(loadSpy).toHaveBeenCalledWith('en', 'auth');
+
+      loadSpy.mockClear();
+      await store.revalidate('en');
+      expect(loadSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep current translations when revalidation fails', async () => {
+      const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const errorListener = vi.fn();
+      store.onLoadError(errorListener);
+      vi.spyOn(mockLoader, 'loadTranslation')
+        .mockResolvedValueOnce({ hello: 'Hello' })
+        .mockRejectedValueOnce(new Error('Network error'));
+
+      await store.loadNamespace('en', 'common');
+      await store.revalidate('en', 'common');
+
+      expect(store.getTranslation('en', 'common', 'hello')).toBe('Hello');
+      expect(store.getLoadState('en', 'common')).toBe('loaded');
+      expect(errorListener).toHaveBeenCalledWith(expect.any(TranslationLoadError));
+
+      consoleSpy.mockRestore();
+    });
+
+    it('should deduplicate concurrent revalidations', async () => {
+      const loadSpy = vi.spyOn(mockLoader, 'loadTranslation').mockResolvedValue({});
+
+      await store.loadNamespace('en', 'common');
+      loadSpy.mockClear();
+      await Promise.all([store.revalidate(), store.revalidate('en', 'common')]);
+
+      expect(loadSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('resource API', () => {
+    it('should add a bundle and mark the namespace as loaded', async () => {
+      const loadSpy = vi.spyOn(mockLoader, 'loadTranslation');
+
+      store.addResourceBundle('en', 'plugins', { title: 'Plugins' });
+      await store.loadNamespace('en', 'plugins');
+
+      expect(loadSpy).not.toHaveBeenCalled();
+      expect(store.getLoadState('en', 'plugins')).toBe('loaded');
+      expect(store.getTranslation('en', 'plugins', 'title')).toBe('Plugins');
+    });
+
+    it('should replace top-level keys by default', () => {
+      store.addResourceBundle('en', 'common', { nav: { home: 'Home', about: 'About' } });
+      store.addResourceBundle('en', 'common', { nav: { home: 'Start' } });
+
+      expect(store.getResourceBundle('en', 'common')).toEqual({ nav: { home: 'Start' } });
+    });
+
+    it('should deep-merge bundles and respect overwrite', () => {
+      store.addResourceBundle('en', 'common', { nav: { home: 'Home' }, title: 'App' });
+      store.addResourceBundle('en', 'common', { nav: { about: 'About' } }, { deep: true });
+      store.addResourceBundle(
+        'en',
+        'common',
+        { nav: { home: 'Start' }, footer: 'Footer' },
+        { deep: true, overwrite: false }
+      );
+
+      expect(store.getResourceBundle('en', 'common')).toEqual({
+        nav: { home: 'Home', about: 'About' },
+        title: 'App',
+        footer: 'Footer',
+      });
+    });
+
+    it('should not mutate the previous bundle', () => {
+      store.addResourceBundle('en', 'common', { nav: { home: 'Home' } });
+      const before = store.getResourceBundle('en', 'common');
+
+      store.addResource('en', 'common', 'nav.about', 'About');
+
+      expect(before).toEqual({ nav: { home: 'Home' } });
+      expect(store.getResourceBundle('en', 'common')).not.toBe(before);
+      expect(store.getTranslation('en', 'common', 'nav.about')).toBe('About');
+    });
+
+    it('should check and remove resources', () => {
+      store.addResourceBundle('en', 'common', { nav: { home: 'Home' } });
+
+      expect(store.hasResource('en', 'common', 'nav')).toBe(true);
+      expect(store.hasResource('en', 'common', 'nav.home')).toBe(true);
+      expect(store.hasResource('en', 'common', 'nav.about')).toBe(false);
+      expect(store.getMissingKeys()).toEqual([]);
+
+      store.removeResourceBundle('en', 'common');
+
+      expect(store.getResourceBundle('en', 'common')).toBeUndefined();
+      expect(store.getLoadState('en', 'common')).toBe('idle');
+    });
+
+    it('should notify subscribers of changes', () => {
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      store.addResourceBundle('en', 'common', { hello: 'Hello' });
+      store.addResource('fr', 'common', 'hello', 'Bonjour');
+      store.removeResourceBundle('en', 'common');
+      store.removeResourceBundle('en', 'common');
+
+      expect(listener).toHaveBeenCalledTimes(3);
+      expect(listener).toHaveBeenNthCalledWith(2, 'fr', 'common');
+    });
+
+    it('should keep added resources when the namespace is revalidated', async () => {
+      vi.spyOn(mockLoader, 'loadTranslation')
+        .mockResolvedValueOnce({ hello: 'Hello' })
+        .mockResolvedValueOnce({ hello: 'Hi' });
+
+      await store.loadNamespace('en', 'common');
+      store.addResource('en', 'common', 'promo', 'Sale!');
+      await store.revalidate();
+
+      expect(store.getResourceBundle('en', 'common')).toEqual({ hello: 'Hi', promo: 'Sale!' });
+    });
+
+    it('should keep resources added while the namespace is loading', async () => {
+      let resolveLoad!: (data: Record<string, string>) => void;
+      vi.spyOn(mockLoader, 'loadTranslation').mockReturnValue(new Promise((resolve) => (resolveLoad = resolve)));
+
+      const loading = store.loadNamespace('en', 'common');
+      store.addResource('en', 'common', 'promo', 'Sale!');
+      resolveLoad({ hello: 'Hello', promo: 'Old' });
+      await loading;
+
+      expect(store.getResourceBundle('en', 'common')).toEqual({ hello: 'Hello', promo: 'Sale!' });
+    });
+
+    it('should re-apply bundles added without overwrite on top of fetched translations', async () => {
+      vi.spyOn(mockLoader, 'loadTranslation')
+        .mockResolvedValueOnce({ hello: 'Hello' })
+        .mockResolvedValueOnce({ hello: 'Hi', title: 'App' });
+
+      await store.loadNamespace('en', 'common');
+      store.addResourceBundle('en', 'common', { hello: 'Ignored', title: 'Fallback' }, { overwrite: false });
+      await store.revalidate();
+
+      expect(store.getResourceBundle('en', 'common')).toEqual({ hello: 'Hi', title: 'App' });
+    });
+  });
+
+  describe('override layers', () => {
+    beforeEach(() => {
+      store.addResourceBundle('en', 'common', {
+        title: 'My App',
+        welcome: 'Welcome',
+        items: { one: '{{count}} item', other: '{{count}} items' },
+      });
+    });
+
+    it('should look up keys in layers before the base catalogs', () => {
+      store.addResourceBundle('fr', 'common', { title: 'Mon App' });
+      store.pushLayer({ name: 'tenant', resources: { en: { common: { title: 'Acme Portal' } } } });
+
+      expect(store.getTranslation('en', 'common', 'title')).toBe('Acme Portal');
+      expect(store.getTranslation('en', 'common', 'welcome')).toBe('Welcome');
+      expect(store.getTranslation('fr', 'common', 'title')).toBe('Mon App');
+    });
+
+    it('should give the last pushed layer the highest priority', () => {
+      store.pushLayer({ name: 'tenant', resources: { en: { common: { title: 'Acme', welcome: 'Hi' } } } });
+      store.pushLayer({ name: 'preview', resources: { en: { common: { title: 'Acme (preview)' } } } });
+
+      expect(store.getLayers()).toEqual(['preview', 'tenant']);
+      expect(store.getTranslation('en', 'common', 'title')).toBe('Acme (preview)');
+      expect(store.getTranslation('en', 'common', 'welcome')).toBe('Hi');
+      expect(store.getLayer('en', 'common', 'welcome')).toBe('tenant');
+      expect(store.getLayer('en', 'common', 'items')).toBe('base');
+      expect(store.getLayer('en', 'common', 'missing')).toBeUndefined();
+    });
+
+    it('should merge plural forms from layers over the base data', () => {
+      store.pushLayer({ name: 'tenant', resources: { en: { common: { items: { other: '{{count}} widgets' } } } } });
+
+      expect(store.getRawData('en', 'common', 'items')).toEqual({
+        one: '{{count}} item',
+        other: '{{count}} widgets',
+      });
+    });
+
+    it('should remove layers and notify subscribers', async () => {
+      await store.pushLayer({ name: 'tenant', resources: { en: { common: { title: 'Acme' } } } });
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      expect(store.removeLayer('tenant')).toBe(true);
+      expect(store.removeLayer('tenant')).toBe(false);
+      expect(store.getTranslation('en', 'common', 'title')).toBe('My App');
+      expect(listener).toHaveBeenCalledWith('en', 'common');
+    });
+
+    it('should replace a layer with the same name', () => {
+      store.pushLayer({ name: 'tenant', resources: { en: { common: { title: 'Acme' } } } });
+      store.pushLayer({ name: 'tenant', resources: { en: { common: { title: 'Globex' } } } });
+
+      expect(store.getLayers()).toEqual(['tenant']);
+      expect(store.getTranslation('en', 'common', 'title')).toBe('Globex');
+    });
+
+    it('should reject the reserved base layer name', async () => {
+      await expect(store.pushLayer({ name: 'base' })).rejects.toThrow('reserved');
+    });
+
+    it('should load layer namespaces from their backend', async () => {
+      const backend = new MemoryBackend({ en: { common: { title: 'Acme Portal' } } });
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      await store.pushLayer({ name: 'tenant', backend });
+
+      expect(store.getTranslation('en', 'common', 'title')).toBe('Acme Portal');
+      expect(listener).toHaveBeenCalledWith('en', 'common');
+    });
+
+    it('should load layers together with base namespaces and ignore missing layer files', async () => {
+      const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const backend = new MemoryBackend({ es: { common: { title: 'Acme Portal' } } });
+      store = new TranslationStore(mockLoader, {
+        ...mockConfig,
+        loading: { retries: 0 },
+        layers: [{ name: 'tenant', backend }],
+      });
+      vi.spyOn(mockLoader, 'loadTranslation').mockResolvedValue({ title: 'Mi App', welcome: 'Bienvenido' });
+
+      await store.loadNamespace('es', 'common');
+      await store.loadNamespace('es', 'auth');
+
+      expect(store.getTranslation('es', 'common', 'title')).toBe('Acme Portal');
+      expect(store.getTranslation('es', 'common', 'welcome')).toBe('Bienvenido');
+      expect(store.getTranslation('es', 'auth', 'title')).toBe('Mi App');
+      expect(store.getLoadState('es', 'auth')).toBe('loaded');
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('memory limits', () => {
+    const createStore = (memory: I18nConfig['memory']) => {
+      vi.spyOn(mockLoader, 'loadTranslation').mockImplementation(async (locale, namespace) => ({
+        title: `${locale}:${namespace}`,
+      }));
+      return new TranslationStore(mockLoader, { ...mockConfig, fallbackLocale: 'en', memory });
+    };
+
+    it('should evict the least recently used namespaces', async () => {
+      store = createStore({ maxNamespaces: 2 });
+      store.setActiveLocale('en');
+
+      await store.loadNamespace('es', 'a');
+      await store.loadNamespace('es', 'b');
+      store.getTranslation('es', 'a', 'title');
+      await store.loadNamespace('es', 'c');
+
+      expect(store.hasNamespace('es', 'a')).toBe(true);
+      expect(store.hasNamespace('es', 'b')).toBe(false);
+      expect(store.hasNamespace('es', 'c')).toBe(true);
+      expect(store.getCacheStats()).toMatchObject({ evictions: 1, namespaces: 2, locales: 1 });
+    });
+
+    it('should never evict the active locale or its fallback chain', async () => {
+      store = createStore({ maxNamespaces: 1 });
+      store.setActiveLocale('es');
+
+      await store.loadNamespace('es', 'common');
+      await store.loadNamespace('en', 'common');
+      await store.loadNamespace('es', 'auth');
+
+      expect(store.hasNamespace('es', 'common')).toBe(true);
+      expect(store.hasNamespace('en', 'common')).toBe(true);
+      expect(store.hasNamespace('es', 'auth')).toBe(true);
+
+      await store.loadNamespace('fr', 'common');
+      store.setActiveLocale('fr');
+
+      expect(store.hasNamespace('es', 'common')).toBe(false);
+      expect(store.hasNamespace('es', 'auth')).toBe(false);
+      expect(store.hasNamespace('fr', 'common')).toBe(true);
+      expect(store.hasNamespace('en', 'common')).toBe(true);
+    });
+
+    it('should not evict a locale while it is preloaded', async () => {
+      store = createStore({ maxNamespaces: 3 });
+      store.setActiveLocale('en');
+      await store.loadNamespace('en', 'common');
+      await store.loadNamespace('en', 'errors');
+
+      await store.preloadLocale('de', ['common', 'errors']);
+
+      expect(store.hasNamespace('de', 'common')).toBe(true);
+      expect(store.hasNamespace('de', 'errors')).toBe(true);
+      expect(store.getCacheStats().evictions).toBe(0);
+
+      // Limits apply again once the locale is no longer being preloaded
+      await store.loadNamespace('fr', 'common');
+      expect(store.hasNamespace('de', 'common')).toBe(false);
+    });
+
+    it('should evict whole locales beyond maxLocales', async () => {
+      store = createStore({ maxLocales: 1 });
+      store.setActiveLocale('en');
+
+      await store.loadNamespace('es', 'common');
+      await store.loadNamespace('es', 'auth');
+      await store.loadNamespace('fr', 'common');
+
+      expect(store.hasNamespace('es', 'common')).toBe(false);
+      expect(store.hasNamespace('es', 'auth')).toBe(false);
+      expect(store.hasNamespace('fr', 'common')).toBe(true);
+      expect(store.getCacheStats().evictions).toBe(2);
+    });
+
+    it('should evict namespaces beyond the byte budget', async () => {
+      // Each namespace is about 32 bytes
+      store = createStore({ maxBytes: 50 });
+      store.setActiveLocale('en');
+
+      await store.loadNamespace('es', 'a');
+      await store.loadNamespace('es', 'b');
+      await store.loadNamespace('es', 'c');
+
+      const stats = store.getCacheStats();
+      expect(stats.bytes).toBeLessThanOrEqual(50);
+      expect(stats.evictions).toBe(2);
+      expect(store.hasNamespace('es', 'c')).toBe(true);
+    });
+
+    it('should keep namespaces added through the resource API', async () => {
+      store = createStore({ maxNamespaces: 1 });
+      store.setActiveLocale('en');
+
+      store.addResourceBundle('es', 'plugins', { title: 'Plugins' });
+      await store.loadNamespace('fr', 'common');
+      store.setActiveLocale('de');
+
+      expect(store.hasNamespace('es', 'plugins')).toBe(true);
+      expect(store.hasNamespace('fr', 'common')).toBe(false);
+    });
+
+    it('should count hits and misses and reload evicted namespaces', async () => {
+      store = createStore({ maxNamespaces: 1 });
+      store.setActiveLocale('en');
+
+      await store.loadNamespace('es', 'common');
+      await store.loadNamespace('es', 'common');
+      await store.loadNamespace('fr', 'common');
+      await store.loadNamespace('es', 'common');
+
+      expect(store.getCacheStats()).toMatchObject({ hits: 1, misses: 3, evictions: 2 });
+      expect(mockLoader.loadTranslation).toHaveBeenCalledTimes(3);
+      expect(store.getTranslation('es', 'common', 'title')).toBe('es:common');
+    });
+
+    it('should not evict retained locales until they are released', async () => {
+      store = createStore({ maxNamespaces: 1 });
+      const release = store.retainLocale('es');
+
+      await store.loadNamespace('es', 'common');
+      await store.loadNamespace('fr', 'common');
+      expect(store.hasNamespace('es', 'common')).toBe(true);
+
+      release();
+      release();
+      await store.loadNamespace('de', 'common');
+      expect(store.hasNamespace('es', 'common')).toBe(false);
+    });
+
+    it('should not measure namespaces without memory limits', async () => {
+      const stringifySpy = vi.spyOn(JSON, 'stringify');
+
+      store.addResourceBundle('en', 'plugins', { title: 'Plugins' });
+      store.addResource('en', 'plugins', 'empty', 'No data');
+      expect(stringifySpy).not.toHaveBeenCalled();
+      stringifySpy.mockRestore();
+
+      expect(store.getCacheStats()).toMatchObject({ locales: 1, namespaces: 1 });
+      expect(store.getCacheStats().bytes).toBeGreaterThan(0);
+    });
+  });
 });
@@ -9,7 +9,7 @@ import { Translator } from '../../../src/core/translator';
 import { TranslationStore } from '../../../src/core/translation-store';
 import { Interpolator } from '../../../src/core/interpolator';
 import { Pluralizer } from '../../../src/core/pluralizer';
-import type { I18nConfig } from '../../../src/types';
+import { TranslationReferenceError, type I18nConfig } from '../../../src/types';
 
 describe('Translator', () => {
   let translator: Translator;
@@ -28,6 +28,7 @@ describe('Translator', () => {
     mockStore = {
       getTranslation: vi.fn(),
       getRawData: vi.fn(),
+      getLayer: vi.fn(),
     } as any;
     
     interpolator = new Interpolator();
@@ -179,6 +180,76 @@ describe('Translator', () => {
     });
   });
 
+  describe('decimal-aware pluralization', () => {
+    beforeEach(() => {
+      vi.mocked(mockStore.getRawData).mockReturnValue({
+        one: '{{count}} star',
+        other: '{{count}} stars',
+      });
+    });
+
+    it('should select the form for a pre-formatted count', () => {
+      expect(translator.translate('en', 'rating', { count: '1' })).toBe('1 star');
+      expect(translator.translate('en', 'rating', { count: '1.0' })).toBe('1.0 stars');
+    });
+
+    it('should substitute the formatted count', () => {
+      const result = translator.translate('en', 'rating', {
+        count: 1,
+        countFormat: { minimumFractionDigits: 1 },
+      });
+
+      expect(result).toBe('1.0 stars');
+    });
+
+    it('should not treat countFormat as an interpolation variable', () => {
+      vi.mocked(mockStore.getRawData).mockReturnValue('{{count}} {{countFormat}}');
+
+      const result = translator.translate('en', 'rating', {
+        count: 2,
+        countFormat: { minimumFractionDigits: 2 },
+      });
+
+      expect(result).toBe('2.00 {{countFormat}}');
+    });
+  });
+
+  describe('plural ranges', () => {
+    it('should select the plural form for the range', () => {
+      vi.mocked(mockStore.getRawData).mockReturnValue({
+        one: '{{count}} day',
+        other: '{{from}} to {{to}} days',
+      });
+
+      expect(translator.translate('en', 'days', { countRange: [3, 5] })).toBe('3 to 5 days');
+    });
+
+    it('should substitute the formatted range into count', () => {
+      vi.mocked(mockStore.getRawData).mockReturnValue({
+        one: '{{count}} day',
+        other: '{{count}} days',
+      });
+
+      expect(translator.translate('en', 'days', { countRange: [3, 5] })).toBe('3–5 days');
+      expect(
+        translator.translate('en', 'days', {
+          countRange: [1, 2],
+          countFormat: { minimumFractionDigits: 1 },
+        })
+      ).toBe('1.0–2.0 days');
+    });
+
+    it('should interpolate other variables', () => {
+      vi.mocked(mockStore.getRawData).mockReturnValue({
+        other: '{{count}} nights in {{city}}',
+      });
+
+      const result = translator.translate('en', 'stay', { countRange: [2, 4], city: 'Rome' });
+
+      expect(result).toBe('2–4 nights in Rome');
+    });
+  });
+
   describe('contextual translation resolution', () => {
     it('should use context for pluralization', () => {
       vi.mocked(mockStore.getRawData).mockReturnValue({
@@ -193,6 +264,59 @@ describe('Translator', () => {
 
       expect(result).toBe('one male friend');
     });
+
+    describe('plain string context variants', () => {
+      const data: Record<string, unknown> = {
+        greeting: 'Hallo {{name}}',
+        greeting_formal: 'Guten Tag {{name}}',
+        farewell: { formal: 'Auf Wiedersehen', informal: 'Tschüss' },
+        friends_female: { one: 'eine Freundin', other: '{{count}} Freundinnen' },
+        friends: { one: 'ein Freund', other: '{{count}} Freunde' },
+      };
+
+      beforeEach(() => {
+        vi.mocked(mockStore.getRawData).mockImplementation(
+          (_locale: string, _ns: string, key: string) => {
+            const [base, nested] = key.split('.');
+            const value = data[base!];
+            return nested ? (value as Record<string, unknown> | undefined)?.[nested] : value;
+          }
+        );
+        vi.mocked(mockStore.getTranslation).mockImplementation(
+          (_locale: string, _ns: string, key: string) =>
+            typeof data[key] === 'string' ? (data[key] as string) : undefined
+        );
+      });
+
+      it('should use suffixed context keys', () => {
+        const result = translator.translate('de', 'greeting', { context: 'formal', name: 'Frau Weber' });
+        expect(result).toBe('Guten Tag Frau Weber');
+      });
+
+      it('should use nested context keys', () => {
+        expect(translator.translate('de', 'farewell', { context: 'informal' })).toBe('Tschüss');
+      });
+
+      it('should fall back to the base key when the variant is missing', () => {
+        const result = translator.translate('de', 'greeting', { context: 'casual', name: 'Max' });
+        expect(result).toBe('Hallo Max');
+      });
+
+      it('should not pass context as an interpolation variable', () => {
+        vi.mocked(mockStore.getTranslation).mockReturnValue('{{context}}');
+        expect(translator.translate('de', 'other', { context: 'formal' })).toBe('{{context}}');
+      });
+
+      it('should use suffixed context keys for plurals', () => {
+        expect(translator.translate('de', 'friends', { count: 2, context: 'female' })).toBe('2 Freundinnen');
+        expect(translator.translate('de', 'friends', { count: 1, context: 'male' })).toBe('ein Freund');
+      });
+
+      it('should use suffixed context keys for plural ranges', () => {
+        const result = translator.translate('de', 'friends', { countRange: [2, 3], context: 'female' });
+        expect(result).toBe('2–3 Freundinnen');
+      });
+    });
   });
 
   describe('fallback locale support', () => {
@@ -248,6 +372,198 @@ describe('Translator', () => {
     });
   });
 
+  describe('fallback locale chains', () => {
+    const chainConfig: I18nConfig = {
+      ...mockConfig,
+      supportedLocales: ['en', 'de', 'de-CH', 'pt-BR', 'pt-PT'],
+      fallbackLocale: { 'pt-BR': ['pt-PT', 'en'], default: 'en' },
+    };
+
+    const translations: Record<string, Record<string, string>> = {
+      'de-CH': { parking: 'Parkieren' },
+      de: { parking: 'Parken', logout: 'Abmelden' },
+      'pt-PT': { greeting: 'Olá' },
+      en: { greeting: 'Hello', logout: 'Log out', help: 'Help' },
+    };
+
+    beforeEach(() => {
+      vi.mocked(mockStore.getTranslation).mockImplementation(
+        (locale: string, _ns: string, key: string) => translations[locale]?.[key]
+      );
+      translator = new Translator(mockStore, interpolator, pluralizer, chainConfig);
+    });
+
+    it('should walk the chain until a locale satisfies the key', () => {
+      expect(translator.translate('de-CH', 'parking')).toBe('Parkieren');
+      expect(translator.translate('de-CH', 'logout')).toBe('Abmelden');
+      expect(translator.translate('de-CH', 'help')).toBe('Help');
+      expect(translator.translate('pt-BR', 'greeting')).toBe('Olá');
+    });
+
+    it('should report the locale that satisfied the key', () => {
+      expect(translator.resolve('de-CH', 'logout')).toEqual({
+        value: 'Abmelden',
+        locale: 'de',
+        chain: ['de-CH', 'de', 'en'],
+        layer: 'base',
+      });
+      expect(translator.resolve('pt-BR', 'help').locale).toBe('en');
+    });
+
+    it('should report a null locale for missing keys', () => {
+      const resolution = translator.resolve('pt-BR', 'missing', { defaultValue: 'Fallback' });
+
+      expect(resolution.value).toBe('Fallback');
+      expect(resolution.locale).toBeNull();
+      expect(resolution.chain).toEqual(['pt-BR', 'pt-PT', 'en']);
+    });
+
+    it('should log the satisfying fallback locale in debug mode', () => {
+      const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      translator = new Translator(mockStore, interpolator, pluralizer, { ...chainConfig, debug: true });
+
+      translator.translate('de-CH', 'help');
+
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('"en"'));
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('override layers', () => {
+    beforeEach(() => {
+      vi.mocked(mockStore.getTranslation).mockReturnValue('Acme Portal');
+      vi.mocked(mockStore.getLayer).mockReturnValue('tenant');
+    });
+
+    it('should report the layer that provided the string', () => {
+      const resolution = translator.resolve('en', 'title');
+
+      expect(resolution.layer).toBe('tenant');
+      expect(mockStore.getLayer).toHaveBeenCalledWith('en', 'common', 'title');
+    });
+
+    it('should not look up the layer when translating', () => {
+      expect(translator.translate('en', 'title')).toBe('Acme Portal');
+      expect(mockStore.getLayer).not.toHaveBeenCalled();
+    });
+
+    it('should report a null layer for missing keys', () => {
+      vi.mocked(mockStore.getTranslation).mockReturnValue(undefined);
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(translator.resolve('en', 'missing').layer).toBeNull();
+      vi.mocked(console.warn).mockRestore();
+    });
+
+    it('should log strings from override layers in debug mode', () => {
+      const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      translator = new Translator(mockStore, interpolator, pluralizer, { ...mockConfig, debug: true });
+
+      translator.translate('en', 'title');
+
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('layer "tenant"'));
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('nested references', () => {
+    const catalog: Record<string, string> = {
+      'common:brand.name': 'Acme',
+      'common:brand.full': '$t(brand.name) Cloud',
+      'common:welcome': 'Welcome to $t(brand.full), {{name}}!',
+      'common:short': 'Try @:brand.name today.',
+      'common:signature': '@:brand.name Team ({{name}})',
+      'common:footer': '$t(common:signature) - $t(legal:copyright)',
+      'legal:copyright': '© {{year}} @:common:brand.name',
+      'common:missingRef': 'See $t(nope)',
+      'common:loopA': 'A then $t(loopB)',
+      'common:loopB': 'B then @:loopA',
+      'common:deep0': '$t(deep1)',
+      'common:deep1': '$t(deep2)',
+      'common:deep2': '$t(deep3)',
+      'common:deep3': 'bottom',
+    };
+
+    beforeEach(() => {
+      vi.mocked(mockStore.getTranslation).mockImplementation(
+        (_locale: string, ns: string, key: string) => catalog[`${ns}:${key}`]
+      );
+    });
+
+    it('should resolve $t() references', () => {
+      expect(translator.translate('en', 'welcome', { name: 'Ada' })).toBe('Welcome to Acme Cloud, Ada!');
+    });
+
+    it('should resolve @: references', () => {
+      expect(translator.translate('en', 'short')).toBe('Try Acme today.');
+    });
+
+    it('should resolve references across namespaces with interpolation values', () => {
+      const result = translator.translate('en', 'footer', { name: 'Ada', year: 2024 });
+      expect(result).toBe('Acme Team (Ada) - © 2024 Acme');
+    });
+
+    it('should resolve references in plural forms', () => {
+      vi.mocked(mockStore.getRawData).mockReturnValue({
+        one: 'One @:brand.name seat',
+        other: '{{count}} @:brand.name seats',
+      });
+
+      expect(translator.translate('en', 'seats', { count: 3 })).toBe('3 Acme seats');
+    });
+
+    it('should keep missing references', () => {
+      const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(translator.translate('en', 'missingRef')).toBe('See $t(nope)');
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('common:nope'));
+      consoleSpy.mockRestore();
+    });
+
+    it('should report circular references and leave them unresolved', () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(translator.translate('en', 'loopA')).toBe('A then $t(loopB)');
+      const error = consoleSpy.mock.calls[0]![1];
+      expect(error).toBeInstanceOf(TranslationReferenceError);
+      expect((error as TranslationReferenceError).message).toContain(
+        'common:loopA -> common:loopB -> common:loopA'
+      );
+      consoleSpy.mockRestore();
+    });
+
+    it('should pass reference errors to nesting.onError', () => {
+      const onError = vi.fn();
+      translator = new Translator(mockStore, interpolator, pluralizer, { ...mockConfig, nesting: { onError } });
+
+      expect(translator.translate('en', 'loopA')).toBe('A then $t(loopB)');
+      expect(onError).toHaveBeenCalledWith(expect.any(TranslationReferenceError));
+    });
+
+    it('should throw reference errors in debug mode', () => {
+      translator = new Translator(mockStore, interpolator, pluralizer, { ...mockConfig, debug: true });
+
+      expect(() => translator.translate('en', 'loopA')).toThrow(TranslationReferenceError);
+    });
+
+    it('should enforce the configured maximum depth', () => {
+      const onError = vi.fn();
+      translator = new Translator(mockStore, interpolator, pluralizer, {
+        ...mockConfig,
+        nesting: { maxDepth: 2, onError },
+      });
+
+      expect(translator.translate('en', 'deep0')).toBe('$t(deep1)');
+      expect(onError.mock.calls[0]![0].message).toContain('maximum nesting depth of 2 exceeded');
+
+      translator = new Translator(mockStore, interpolator, pluralizer, {
+        ...mockConfig,
+        nesting: { maxDepth: 3 },
+      });
+      expect(translator.translate('en', 'deep0')).toBe('bottom');
+    });
+  });
+
   describe('default value fallback', () => {
     it('should use default value when translation missing', () => {
       vi.mocked(mockStore.getTranslation).mockReturnValue(undefined);
@@ -337,6 +653,56 @@ describe('Translator', () => {
     });
   });
 
+  describe('ICU message syntax', () => {
+    beforeEach(() => {
+      const icuConfig: I18nConfig = {
+        ...mockConfig,
+        interpolation: { syntax: 'icu' },
+      };
+      translator = new Translator(
+        mockStore,
+        new Interpolator(icuConfig.interpolation),
+        pluralizer,
+        icuConfig
+      );
+    });
+
+    it('should evaluate plural messages with the count option', () => {
+      vi.mocked(mockStore.getRawData).mockReturnValue(
+        '{count, plural, one {# item} other {# items}}'
+      );
+
+      expect(translator.translate('en', 'items', { count: 1 })).toBe('1 item');
+      expect(translator.translate('en', 'items', { count: 4 })).toBe('4 items');
+    });
+
+    it('should evaluate select messages with interpolation values', () => {
+      vi.mocked(mockStore.getTranslation).mockReturnValue(
+        '{gender, select, female {She} other {They}} replied'
+      );
+
+      const result = translator.translate('en', 'reply', { gender: 'female' });
+
+      expect(result).toBe('She replied');
+    });
+
+    it('should unescape messages without values', () => {
+      vi.mocked(mockStore.getTranslation).mockReturnValue("It''s '{literal}'");
+
+      expect(translator.translate('en', 'quote')).toBe("It's {literal}");
+    });
+
+    it('should use the translation locale for plural rules', () => {
+      vi.mocked(mockStore.getTranslation).mockReturnValue(
+        '{count, plural, one {# article} other {# articles}}'
+      );
+
+      expect(translator.translate('fr', 'articles', { interpolation: { count: 0 } })).toBe(
+        '0 article'
+      );
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle empty keys', () => {
       vi.mocked(mockStore.getTranslation).mockReturnValue(undefined);
@@ -3,9 +3,12 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { render, screen, waitFor } from '@testing-library/react';
+import { render, screen, waitFor, act } from '@testing-library/react';
+import { renderToString } from 'react-dom/server';
 import { I18nProvider } from '../../../src/react/provider';
 import { useTranslation } from '../../../src/react/use-translation';
+import { createI18n } from '../../../src/standalone';
+import { TranslationLoadError } from '../../../src/types';
 import type { I18nConfig } from '../../../src/types';
 
 // Mock translation loader
@@ -249,6 +252,25 @@ describe('I18nProvider', () => {
         expect(screen.getByText('Ready')).toBeTruthy();
       });
     });
+
+    it('should report namespaces that fail to load as TranslationLoadError', async () => {
+      const onError = vi.fn();
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      // The mocked loader has no loadTranslation method, so every load fails
+      render(
+        <I18nProvider config={mockConfig} onError={onError}>
+          <div>Child</div>
+        </I18nProvider>
+      );
+
+      await waitFor(() => {
+        expect(onError).toHaveBeenCalledWith(expect.any(TranslationLoadError));
+      });
+      expect(onError.mock.calls[0]![0]).toMatchObject({ locale: 'en', namespace: 'common' });
+
+      consoleSpy.mockRestore();
+    });
   });
 
   describe('onLocaleChange callback', () => {
@@ -280,6 +302,44 @@ describe('I18nProvider', () => {
         expect(onLocaleChange).toHaveBeenCalledWith('es');
       }, { timeout: 3000 });
     });
+
+    it('should only apply the latest of overlapping locale changes', async () => {
+      const onLocaleChange = vi.fn();
+
+      const TestComponent = () => {
+        const { changeLocale, isReady, locale } = useTranslation();
+
+        return (
+          <div>
+            <span data-testid="locale">{locale}</span>
+            {isReady && (
+              <button
+                onClick={() => {
+                  void changeLocale('es');
+                  void changeLocale('fr');
+                }}
+              >
+                Change Twice
+              </button>
+            )}
+          </div>
+        );
+      };
+
+      render(
+        <I18nProvider config={mockConfig} onLocaleChange={onLocaleChange}>
+          <TestComponent />
+        </I18nProvider>
+      );
+
+      const button = await screen.findByText('Change Twice', {}, { timeout: 3000 });
+      button.click();
+
+      await waitFor(() => {
+        expect(screen.getByTestId('locale').textContent).toBe('fr');
+      }, { timeout: 3000 });
+      expect(onLocaleChange).not.toHaveBeenCalledWith('es');
+    });
   });
 
   describe('multiple namespace loading', () => {
@@ -305,4 +365,130 @@ describe('I18nProvider', () => {
       });
     });
   });
+
+  describe('hydration from initialState', () => {
+    const initialState = {
+      locale: 'fr',
+      resources: { fr: { common: { greeting: 'Bonjour' } }, en: { common: { greeting: 'Hello' } } },
+    };
+
+    const TestComponent = () => {
+      const { t, locale, isReady } = useTranslation();
+      return <p>{isReady ? `${locale}: ${t('greeting')}` : 'Loading'}</p>;
+    };
+
+    it('should render translations on the server', () => {
+      const html = renderToString(
+        <I18nProvider config={mockConfig} initialState={initialState}>
+          <TestComponent />
+        </I18nProvider>
+      );
+
+      expect(html).toContain('fr: Bonjour');
+    });
+
+    it('should be ready on the first client render', () => {
+      const renders: string[] = [];
+      const RecordingComponent = () => {
+        const { t, isReady } = useTranslation();
+        renders.push(isReady ? t('greeting') : 'Loading');
+        return null;
+      };
+
+      render(
+        <I18nProvider config={mockConfig} initialState={initialState}>
+          <RecordingComponent />
+        </I18nProvider>
+      );
+
+      expect(renders[0]).toBe('Bonjour');
+      expect(renders).not.toContain('Loading');
+    });
+
+    it('should let initialLocale take precedence over the state locale', () => {
+      render(
+        <I18nProvider config={mockConfig} initialState={initialState} initialLocale="en">
+          <TestComponent />
+        </I18nProvider>
+      );
+
+      expect(screen.getByText('en: Hello')).toBeTruthy();
+    });
+  });
+
+  describe('instance prop', () => {
+    const LocaleDisplay = ({ testId }: { testId: string }) => {
+      const { locale } = useTranslation();
+      return <span data-testid={testId}>{locale}</span>;
+    };
+
+    it('should share locale changes with the instance', async () => {
+      const instance = createI18n(mockConfig);
+
+      render(
+        <I18nProvider instance={instance}>
+          <LocaleDisplay testId="locale" />
+        </I18nProvider>
+      );
+
+      expect(instance.isInitialized()).toBe(true);
+      expect(instance.getLocale()).toBe('en');
+
+      await act(async () => {
+        await instance.changeLocale('es');
+      });
+
+      expect(screen.getByTestId('locale').textContent).toBe('es');
+    });
+
+    it('should keep providers with separate instances isolated', async () => {
+      const first = createI18n(mockConfig);
+      const second = createI18n(mockConfig);
+
+      render(
+        <>
+          <I18nProvider instance={first}>
+            <LocaleDisplay testId="first" />
+          </I18nProvider>
+          <I18nProvider instance={second}>
+            <LocaleDisplay testId="second" />
+          </I18nProvider>
+        </>
+      );
+
+      await act(async () => {
+        await first.changeLocale('fr');
+      });
+
+      expect(screen.getByTestId('first').textContent).toBe('fr');
+      expect(screen.getByTestId('second').textContent).toBe('en');
+      expect(second.getLocale()).toBe('en');
+    });
+
+    it('should not initialize an instance that was not passed', () => {
+      const instance = createI18n(mockConfig);
+
+      render(
+        <I18nProvider config={mockConfig}>
+          <LocaleDisplay testId="locale" />
+        </I18nProvider>
+      );
+
+      expect(instance.isInitialized()).toBe(false);
+    });
+
+    it('should throw without config or instance', () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(() =>
+        render(
+          <I18nProvider>
+            <LocaleDisplay testId="locale" />
+          </I18nProvider>
+        )
+      ).toThrow('I18nProvider requires a config or an instance');
+
+      consoleError.mockRestore();
+    });
+  });
 });
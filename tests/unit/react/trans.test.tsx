@@ -0,0 +1,156 @@
+/**
+ * Tests for Trans component and t.rich
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import React from 'react';
+import { render as rtlRender, screen, waitFor } from '@testing-library/react';
+import { TestI18nProvider } from '../../utils/g11n-test-provider';
+import { Trans } from '../../../src/react/trans';
+import { useTranslation } from '../../../src/react/use-translation';
+import type { I18nConfig } from '../../../src/types';
+
+const defaultConfig: I18nConfig = {
+  defaultLocale: 'en',
+  supportedLocales: ['en', 'es', 'fr'],
+  namespaces: ['common'],
+  defaultNamespace: 'common',
+};
+
+function render(ui: React.ReactElement, options: { config?: I18nConfig } = {}) {
+  const config = options.config ?? defaultConfig;
+  return rtlRender(ui, {
+    wrapper: ({ children }) => <TestI18nProvider config={config}>{children}</TestI18nProvider>,
+  });
+}
+
+describe('Trans', () => {
+  it('should render elements inside the translation', async () => {
+    const { container } = render(
+      <Trans
+        i18nKey="rich.terms"
+        values={{ name: 'Alice' }}
+        components={{ link: <a href="/terms" /> }}
+      />
+    );
+
+    await waitFor(() => {
+      expect(screen.getByRole('link')).toHaveProperty('textContent', 'terms');
+    });
+
+    expect(screen.getByRole('link').getAttribute('href')).toBe('/terms');
+    expect(container.textContent).toBe('I accept the terms, Alice');
+  });
+
+  it('should support render functions', async () => {
+    render(
+      <Trans
+        i18nKey="rich.terms"
+        values={{ name: 'Bob' }}
+        components={{ link: (children) => <button>{children}</button> }}
+      />
+    );
+
+    await waitFor(() => {
+      expect(screen.getByRole('button').textContent).toBe('terms');
+    });
+  });
+
+  it('should keep pluralization and interpolation', async () => {
+    const { container } = render(
+      <Trans i18nKey="rich.inbox" count={3} components={{ bold: <strong /> }} />
+    );
+
+    await waitFor(() => {
+      expect(container.querySelector('strong')?.textContent).toBe('3');
+    });
+
+    expect(container.textContent).toBe('You have 3 messages');
+  });
+
+  it('should render self-closing tags with element components', async () => {
+    const { container } = render(<Trans i18nKey="rich.lines" components={{ br: <br /> }} />);
+
+    await waitFor(() => {
+      expect(container.querySelectorAll('br')).toHaveLength(1);
+    });
+  });
+
+  it('should not turn interpolated markup into elements', async () => {
+    const { container } = render(
+      <Trans
+        i18nKey="rich.terms"
+        values={{ name: '<link>x</link>' }}
+        components={{ link: <a href="/terms" /> }}
+      />
+    );
+
+    await waitFor(() => {
+      expect(container.textContent).toBe('I accept the terms, <link>x</link>');
+    });
+
+    expect(container.querySelectorAll('a')).toHaveLength(1);
+  });
+
+  it('should render children of tags without a component', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { container } = render(<Trans i18nKey="rich.terms" values={{ name: 'Ana' }} />);
+
+    await waitFor(() => {
+      expect(container.textContent).toBe('I accept the terms, Ana');
+    });
+
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('<link>'));
+    warnSpy.mockRestore();
+  });
+});
+
+describe('t.rich', () => {
+  it('should render rich translations from the hook', async () => {
+    function Inbox() {
+      const { t } = useTranslation();
+      return <p>{t.rich('rich.inbox', { count: 1, components: { bold: <em /> } })}</p>;
+    }
+
+    const { container } = render(<Inbox />);
+
+    await waitFor(() => {
+      expect(container.querySelector('em')?.textContent).toBe('one');
+    });
+  });
+
+  it('should render tag syntax in values as text when escaping is disabled', async () => {
+    function Terms() {
+      const { t } = useTranslation();
+      return <p>{t.rich('rich.terms', { name: '<link>x</link>', components: { link: <a href="/terms" /> } })}</p>;
+    }
+
+    const { container } = render(<Terms />, {
+      config: { ...defaultConfig, interpolation: { escapeValue: false } },
+    });
+
+    await waitFor(() => {
+      expect(container.textContent).toBe('I accept the terms, <link>x</link>');
+    });
+    expect(container.querySelectorAll('a')).toHaveLength(1);
+  });
+
+  it('should inject the hook namespace', async () => {
+    function Login() {
+      const { t } = useTranslation('auth');
+      return <p>{t.rich('login')}</p>;
+    }
+
+    const { container } = render(<Login />, {
+      config: {
+        defaultLocale: 'en',
+        supportedLocales: ['en'],
+        namespaces: ['common', 'auth'],
+      },
+    });
+
+    await waitFor(() => {
+      expect(container.textContent).toBe('Log in');
+    });
+  });
+});
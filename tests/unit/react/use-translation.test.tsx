@@ -3,10 +3,12 @@
  */
 
 import { describe, it, expect, vi } from 'vitest';
-import { renderHook, waitFor } from '@testing-library/react';
-import React from 'react';
-import { useTranslation } from '../../../src/react/use-translation';
+import { render, renderHook, screen, waitFor } from '@testing-library/react';
+import React, { Suspense } from 'react';
+import { useSuspenseTranslation, useTranslation } from '../../../src/react/use-translation';
 import { I18nProvider } from '../../../src/react/provider';
+import { TestI18nProvider } from '../../utils/g11n-test-provider';
+import { MockTranslationLoader } from '../../fixtures/translations';
 import type { I18nConfig } from '../../../src/types';
 
 // Mock translation loader
@@ -230,4 +232,72 @@ describe('useTranslation', () => {
       expect(result.current.locale).not.toBe(initialLocale);
     });
   });
+
+  describe('lazy namespace loading', () => {
+    const lazyWrapper = ({ children }: { children: React.ReactNode }) => (
+      <TestI18nProvider config={mockConfig}>{children}</TestI18nProvider>
+    );
+
+    it('should load namespaces that are not loaded yet', async () => {
+      const loadSpy = vi.spyOn(MockTranslationLoader.prototype, 'loadTranslation');
+      const { result } = renderHook(() => useTranslation(['auth', 'common']), { wrapper: lazyWrapper });
+
+      expect(result.current.isReady).toBe(false);
+
+      await waitFor(() => {
+        expect(result.current.isReady).toBe(true);
+      });
+
+      expect(loadSpy).toHaveBeenCalledWith('en', 'auth', expect.anything());
+      expect(result.current.t('login')).toBe('Log in');
+      expect(result.current.t('farewell', { ns: 'common' })).toBe('Goodbye!');
+      loadSpy.mockRestore();
+    });
+
+    it('should be ready when a namespace fails to load', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const loadSpy = vi.spyOn(MockTranslationLoader.prototype, 'loadTranslation')
+        .mockImplementation(async (_locale, namespace) => {
+          if (namespace === 'broken') {
+            throw new Error('Network error');
+          }
+          return {};
+        });
+      const { result } = renderHook(() => useTranslation('broken'), { wrapper: lazyWrapper });
+
+      await waitFor(() => {
+        expect(result.current.isReady).toBe(true);
+      });
+
+      loadSpy.mockRestore();
+      consoleSpy.mockRestore();
+    });
+
+    it('should suspend until the namespaces are loaded', async () => {
+      function Login() {
+        const { t } = useSuspenseTranslation('auth');
+        return <p>{t('login')}</p>;
+      }
+
+      render(
+        <TestI18nProvider config={mockConfig}>
+          <Suspense fallback={<p>Loading...</p>}>
+            <Login />
+          </Suspense>
+        </TestI18nProvider>
+      );
+
+      expect(screen.getByText('Loading...')).toBeDefined();
+
+      await waitFor(() => {
+        expect(screen.getByText('Log in')).toBeDefined();
+      });
+    });
+
+    it('should throw when useSuspenseTranslation is used outside provider', () => {
+      expect(() => {
+        renderHook(() => useSuspenseTranslation());
+      }).toThrow('useSuspenseTranslation must be used within an I18nProvider');
+    });
+  });
 });
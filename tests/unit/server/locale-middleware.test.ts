@@ -0,0 +1,159 @@
+/**
+ * Locale Middleware Tests
+ *
+ * Tests for request locale negotiation and the HTTP middleware
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { Socket } from 'node:net';
+import { createLocaleMiddleware, negotiateLocale, toExpressMiddleware } from '../../../src/server';
+import type { LocalizedRequest } from '../../../src/server';
+import { createI18n } from '../../../src/standalone';
+import type { StandaloneI18n } from '../../../src/standalone';
+import { MemoryBackend } from '../../../src/backends/memory-backend';
+import type { I18nConfig } from '../../../src/types';
+
+function createRequest(url: string, headers: Record<string, string> = {}): IncomingMessage {
+  const req = new IncomingMessage(new Socket());
+  req.url = url;
+  req.headers = headers;
+  return req;
+}
+
+describe('Locale middleware', () => {
+  const config: I18nConfig = {
+    defaultLocale: 'en',
+    supportedLocales: ['en', 'de', 'fr-CA'],
+    fallbackLocale: 'en',
+    namespaces: ['common'],
+    backend: new MemoryBackend({
+      en: { common: { greeting: 'Hello' } },
+      de: { common: { greeting: 'Hallo' } },
+      'fr-CA': { common: { greeting: 'Bonjour' } },
+    }),
+    loading: { retries: 0 },
+  };
+  const supportedLocales = ['en', 'de', 'fr-CA'];
+
+  describe('negotiateLocale', () => {
+    it('should prefer the cookie, then the query, path and header', () => {
+      const headers = { cookie: 'theme=dark; i18n_locale=de', 'accept-language': 'fr-CA' };
+
+      expect(negotiateLocale(createRequest('/en/page?lang=fr-CA', headers), supportedLocales)).toEqual({
+        locale: 'de',
+        source: 'cookie',
+      });
+      expect(negotiateLocale(createRequest('/en/page?lang=fr-CA', { 'accept-language': 'de' }), supportedLocales)).toEqual({
+        locale: 'fr-CA',
+        source: 'query',
+      });
+      expect(negotiateLocale(createRequest('/de-AT/page', { 'accept-language': 'en' }), supportedLocales)).toEqual({
+        locale: 'de',
+        source: 'path',
+      });
+    });
+
+    it('should match the Accept-Language header with lookup, then filtering', () => {
+      expect(negotiateLocale(createRequest('/', { 'accept-language': 'it, de-CH;q=0.8' }), supportedLocales)?.locale).toBe('de');
+      expect(negotiateLocale(createRequest('/', { 'accept-language': 'fr;q=0.9, it' }), supportedLocales)?.locale).toBe('fr-CA');
+    });
+
+    it('should ignore unsupported values and use the configured names and order', () => {
+      const req = createRequest('/api/items?locale=de&lang=it', { cookie: 'lang=de' });
+
+      expect(negotiateLocale(req, supportedLocales)).toBeNull();
+      expect(negotiateLocale(req, supportedLocales, { order: ['query'], queryParameter: 'locale' })?.locale).toBe('de');
+      expect(negotiateLocale(req, supportedLocales, { order: ['cookie'], cookieName: 'lang' })?.locale).toBe('de');
+    });
+  });
+
+  describe('createLocaleMiddleware', () => {
+    let instance: StandaloneI18n;
+
+    beforeEach(async () => {
+      instance = createI18n(config);
+      await instance.init();
+    });
+
+    it('should run the handler with a scoped translator and set headers', async () => {
+      const middleware = createLocaleMiddleware({ instance });
+      const req = createRequest('/', { 'accept-language': 'de-DE, en;q=0.5' });
+      const res = new ServerResponse(req);
+
+      const result = await middleware(req, res, (scope) => `${scope.t('greeting')} / ${instance.t('greeting')}`);
+
+      expect(result).toBe('Hallo / Hallo');
+      expect((req as LocalizedRequest).locale).toBe('de');
+      expect((req as LocalizedRequest).i18n?.locale).toBe('de');
+      expect(res.getHeader('Content-Language')).toBe('de');
+      expect(res.getHeader('Vary')).toBe('Accept-Language, Cookie');
+      expect(instance.getLocale()).toBe('en');
+    });
+
+    it('should not build locale metadata per request', async () => {
+      const getSupportedLocales = vi.spyOn(instance, 'getSupportedLocales');
+      const middleware = createLocaleMiddleware({ instance });
+      const req = createRequest('/de/page');
+
+      await middleware(req, new ServerResponse(req), () => undefined);
+
+      expect(getSupportedLocales).not.toHaveBeenCalled();
+      expect((req as LocalizedRequest).locale).toBe('de');
+    });
+
+    it('should use the default locale when no source matches', async () => {
+      const middleware = createLocaleMiddleware({ instance, defaultLocale: 'fr-CA' });
+      const req = createRequest('/', { 'accept-language': 'it' });
+      const res = new ServerResponse(req);
+
+      await expect(middleware(req, res, (scope) => scope.t('greeting'))).resolves.toBe('Bonjour');
+    });
+
+    it('should keep existing Vary values and only vary on header sources', async () => {
+      const middleware = createLocaleMiddleware({ instance, order: ['query', 'header'] });
+      const req = createRequest('/?lang=de');
+      const res = new ServerResponse(req);
+      res.setHeader('Vary', 'Origin, accept-language');
+
+      await middleware(req, res, () => undefined);
+
+      expect(res.getHeader('Vary')).toBe('Origin, accept-language');
+    });
+
+    it('should adapt to Express-style middleware', async () => {
+      const expressMiddleware = toExpressMiddleware(createLocaleMiddleware({ instance }));
+      const req = createRequest('/de/page');
+      const res = new ServerResponse(req);
+
+      const greeting = await new Promise<string>((resolve) => {
+        expressMiddleware(req, res, () => resolve(instance.t('greeting')));
+      });
+
+      expect(greeting).toBe('Hallo');
+    });
+
+    it('should pass handler errors to next', async () => {
+      const middleware = createLocaleMiddleware({ instance });
+      const expressMiddleware = toExpressMiddleware((req, res) => middleware(req, res, () => {
+        throw new Error('boom');
+      }));
+      const next = vi.fn();
+
+      expressMiddleware(createRequest('/'), new ServerResponse(createRequest('/')), next);
+
+      await vi.waitFor(() => expect(next).toHaveBeenCalledWith(expect.objectContaining({ message: 'boom' })));
+    });
+
+    it('should pass errors thrown before the handler runs to next', async () => {
+      const expressMiddleware = toExpressMiddleware(createLocaleMiddleware({ instance: createI18n(config) }));
+      const next = vi.fn();
+
+      expect(() => expressMiddleware(createRequest('/'), new ServerResponse(createRequest('/')), next)).not.toThrow();
+
+      await vi.waitFor(() =>
+        expect(next).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringContaining('not initialized') }))
+      );
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Request Scope Tests
+ *
+ * Tests for locale-bound views and AsyncLocalStorage request scopes
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createRequestScope } from '../../../src/server';
+import { createI18n } from '../../../src/standalone';
+import type { StandaloneI18n } from '../../../src/standalone';
+import { MemoryBackend } from '../../../src/backends/memory-backend';
+import type { I18nConfig } from '../../../src/types';
+
+describe('Request scopes', () => {
+  const config: I18nConfig = {
+    defaultLocale: 'en',
+    supportedLocales: ['en', 'de', 'fr'],
+    fallbackLocale: 'en',
+    namespaces: ['common'],
+    backend: new MemoryBackend({
+      en: { common: { greeting: 'Hello', farewell: 'Goodbye' } },
+      de: { common: { greeting: 'Hallo' } },
+      fr: { common: { greeting: 'Bonjour' } },
+    }),
+    loading: { retries: 0 },
+  };
+
+  let instance: StandaloneI18n;
+
+  beforeEach(async () => {
+    instance = createI18n(config);
+    await instance.init();
+  });
+
+  describe('forLocale', () => {
+    it('should translate in its own locale without changing the instance locale', async () => {
+      const scope = instance.forLocale('de');
+      await scope.loadNamespaces();
+
+      expect(scope.locale).toBe('de');
+      expect(scope.t('greeting')).toBe('Hallo');
+      expect(scope.t('farewell')).toBe('Goodbye');
+      expect(instance.getLocale()).toBe('en');
+      expect(instance.t('greeting')).toBe('Hello');
+    });
+
+    it('should share the loaded translations with the instance', async () => {
+      await instance.forLocale('fr').loadNamespaces(['common']);
+
+      expect(instance.getLoadState('common', 'fr')).toBe('loaded');
+      expect(instance.forLocale('fr').getLoadState('common')).toBe('loaded');
+    });
+
+    it('should resolve the locale against the supported locales', () => {
+      expect(instance.forLocale('de-AT').locale).toBe('de');
+    });
+
+    it('should format for its own locale', () => {
+      expect(instance.forLocale('de').format.number(1234.5)).toBe(new Intl.NumberFormat('de').format(1234.5));
+    });
+  });
+
+  describe('createRequestScope', () => {
+    it('should resolve i18n.t to the locale of the current request', async () => {
+      const requestScope = createRequestScope(instance);
+      await instance.forLocale('de').loadNamespaces();
+      await instance.forLocale('fr').loadNamespaces();
+
+      const handle = async (locale: string) =>
+        requestScope.run(locale, async () => {
+          await new Promise((resolve) => setTimeout(resolve, locale === 'de' ? 10 : 0));
+          return `${instance.getLocale()}: ${instance.t('greeting')}`;
+        });
+
+      await expect(Promise.all([handle('de'), handle('fr')])).resolves.toEqual(['de: Hallo', 'fr: Bonjour']);
+    });
+
+    it('should use the instance locale outside of a request', () => {
+      const requestScope = createRequestScope(instance);
+
+      expect(requestScope.current()).toBeUndefined();
+      expect(instance.t('greeting')).toBe('Hello');
+    });
+
+    it('should pass the scope to the callback', () => {
+      const requestScope = createRequestScope(instance);
+
+      requestScope.run('fr', (scope) => {
+        expect(scope.locale).toBe('fr');
+        expect(requestScope.current()).toBe(scope);
+      });
+    });
+
+    it('should share the async context between scopes of the same instance', async () => {
+      const first = createRequestScope(instance);
+      const second = createRequestScope(instance);
+      await instance.forLocale('de').loadNamespaces();
+
+      first.run('de', (scope) => {
+        expect(instance.t('greeting')).toBe('Hallo');
+        expect(second.current()).toBe(scope);
+      });
+    });
+
+    it('should throw if the instance is not initialized', () => {
+      const requestScope = createRequestScope(createI18n(config));
+
+      expect(() => requestScope.run('de', () => undefined)).toThrow('not initialized');
+    });
+  });
+});
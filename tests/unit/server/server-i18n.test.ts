@@ -0,0 +1,134 @@
+/**
+ * Server i18n Tests
+ *
+ * Tests for isolated server instances and state serialization
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createServerI18n, createServerStore, serializeState } from '../../../src/server';
+import { MemoryBackend } from '../../../src/backends/memory-backend';
+import type { I18nConfig } from '../../../src/types';
+
+describe('Server i18n', () => {
+  const config: I18nConfig = {
+    defaultLocale: 'en',
+    supportedLocales: ['en', 'fr', 'pt-BR'],
+    fallbackLocale: 'en',
+    namespaces: ['common'],
+    backend: new MemoryBackend({
+      en: { common: { greeting: 'Hello', farewell: 'Goodbye' }, checkout: { pay: 'Pay' } },
+      fr: { common: { greeting: 'Bonjour' }, checkout: { pay: 'Payer' } },
+    }),
+    loading: { retries: 0 },
+  };
+
+  describe('createServerI18n', () => {
+    it('should preload the locale and its fallback chain', async () => {
+      const serverI18n = await createServerI18n(config, { locale: 'fr' });
+
+      expect(serverI18n.locale).toBe('fr');
+      expect(serverI18n.t('greeting')).toBe('Bonjour');
+      expect(serverI18n.t('farewell')).toBe('Goodbye');
+      expect(serverI18n.getState()).toEqual({
+        locale: 'fr',
+        resources: {
+          fr: { common: { greeting: 'Bonjour' } },
+          en: { common: { greeting: 'Hello', farewell: 'Goodbye' } },
+        },
+      });
+    });
+
+    it('should preload the requested namespaces', async () => {
+      const serverI18n = await createServerI18n(config, { locale: 'fr', namespaces: ['checkout'] });
+
+      expect(serverI18n.t('pay', { ns: 'checkout' })).toBe('Payer');
+      expect(serverI18n.store.hasNamespace('fr', 'common')).toBe(false);
+    });
+
+    it('should resolve the locale against the supported locales', async () => {
+      expect((await createServerI18n(config, { locale: 'FR' })).locale).toBe('fr');
+      expect((await createServerI18n(config, { locale: 'de' })).locale).toBe('en');
+      expect((await createServerI18n(config)).locale).toBe('en');
+    });
+
+    it('should isolate instances', async () => {
+      const [french, english] = await Promise.all([
+        createServerI18n(config, { locale: 'fr' }),
+        createServerI18n(config, { locale: 'en' }),
+      ]);
+
+      expect(french.t('greeting')).toBe('Bonjour');
+      expect(english.t('greeting')).toBe('Hello');
+      expect(english.store).not.toBe(french.store);
+    });
+
+    it('should load catalogs once across requests sharing a store', async () => {
+      const backend = new MemoryBackend({ en: { common: { greeting: 'Hello' } }, fr: { common: { greeting: 'Bonjour' } } });
+      const loadSpy = vi.spyOn(backend, 'read');
+      const shared = { ...config, backend };
+      const store = createServerStore(shared);
+
+      const first = await createServerI18n(shared, { locale: 'fr', store });
+      const second = await createServerI18n(shared, { locale: 'fr', store });
+
+      expect(second.t('greeting')).toBe('Bonjour');
+      expect(second.store).toBe(first.store);
+      expect(loadSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only include its own locale in the state of a shared store', async () => {
+      const store = createServerStore(config);
+
+      await createServerI18n(config, { locale: 'fr', namespaces: ['checkout'], store });
+      const english = await createServerI18n(config, { locale: 'en', store });
+
+      expect(english.getState()).toEqual({
+        locale: 'en',
+        resources: { en: { common: { greeting: 'Hello', farewell: 'Goodbye' } } },
+      });
+    });
+
+    it('should keep the locale of an instance in a shared store until it is disposed', async () => {
+      const limited = { ...config, memory: { maxNamespaces: 1 } };
+      const store = createServerStore(limited);
+
+      const french = await createServerI18n(limited, { locale: 'fr', store });
+      await createServerI18n(limited, { locale: 'en', namespaces: ['checkout'], store });
+
+      expect(french.getState().resources.fr).toEqual({ common: { greeting: 'Bonjour' } });
+
+      french.dispose();
+      store.setActiveLocale('en');
+
+      expect(store.hasNamespace('fr', 'common')).toBe(false);
+    });
+
+    it('should dispose an owned store but not a shared one', async () => {
+      const store = createServerStore(config);
+      const sharedDispose = vi.spyOn(store, 'dispose');
+
+      const owned = await createServerI18n(config);
+      const ownedDispose = vi.spyOn(owned.store, 'dispose');
+      owned.dispose();
+      (await createServerI18n(config, { store })).dispose();
+
+      expect(ownedDispose).toHaveBeenCalledOnce();
+      expect(sharedDispose).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('serializeState', () => {
+    it('should escape characters that could end the script element', () => {
+      const state = {
+        locale: 'en',
+        resources: { en: { common: { xss: '</script><script>alert(1)</script>', separator: 'a\u2028b' } } },
+      };
+
+      const serialized = serializeState(state);
+
+      expect(serialized).not.toContain('</script>');
+      expect(serialized).not.toContain('\u2028');
+      expect(JSON.parse(serialized)).toEqual(state);
+    });
+  });
+});
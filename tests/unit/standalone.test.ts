@@ -0,0 +1,36 @@
+/**
+ * Standalone API Tests
+ *
+ * Tests for instances created with createI18n
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createI18n } from '../../src/standalone';
+import { MemoryBackend } from '../../src/backends/memory-backend';
+import type { I18nConfig } from '../../src/types';
+
+describe('Standalone API', () => {
+  const config: I18nConfig = {
+    defaultLocale: 'en',
+    supportedLocales: ['en', 'de'],
+    namespaces: ['common'],
+    backend: new MemoryBackend({
+      en: { common: { greeting: 'Hello' }, billing: { total: 'Total' } },
+      de: { common: { greeting: 'Hallo' }, billing: { total: 'Summe' } },
+    }),
+    loading: { retries: 0 },
+  };
+
+  describe('changeLocale', () => {
+    it('should load lazily loaded namespaces for the new locale before switching', async () => {
+      const instance = createI18n(config);
+      await instance.init();
+      await instance.loadNamespaces(['billing']);
+
+      await instance.changeLocale('de');
+
+      expect(instance.getLoadState('billing', 'de')).toBe('loaded');
+      expect(instance.t('total', { ns: 'billing' })).toBe('Summe');
+    });
+  });
+});
@@ -4,11 +4,16 @@
  * Tests for CLDR pluralization rules
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach, vi } from 'vitest';
 import {
   getPluralForm,
   hasPluralForm,
   getPluralForms,
+  registerPluralRule,
+  unregisterPluralRule,
+  getPluralOperands,
+  getPluralRangeForm,
+  getPluralRule,
 } from '../../../src/utils/cldr-rules';
 
 describe('CLDR Rules', () => {
@@ -230,4 +235,212 @@ describe('CLDR Rules', () => {
       expect(getPluralForm('ar', 100)).toBe('other');
     });
   });
+
+  describe('Intl.PluralRules backed locales', () => {
+    it('should apply Russian cardinal rules', () => {
+      expect(getPluralForm('ru', 1)).toBe('one');
+      expect(getPluralForm('ru', 3)).toBe('few');
+      expect(getPluralForm('ru', 5)).toBe('many');
+      expect(getPluralForm('ru', 21)).toBe('one');
+      expect(getPluralForm('ru', 1.5)).toBe('other');
+    });
+
+    it('should apply Polish cardinal rules', () => {
+      expect(getPluralForm('pl', 1)).toBe('one');
+      expect(getPluralForm('pl', 22)).toBe('few');
+      expect(getPluralForm('pl', 25)).toBe('many');
+    });
+
+    it('should apply Czech and Welsh cardinal rules', () => {
+      expect(getPluralForm('cs', 3)).toBe('few');
+      expect(getPluralForm('cs', 5)).toBe('other');
+      expect(getPluralForm('cy', 0)).toBe('zero');
+      expect(getPluralForm('cy', 3)).toBe('few');
+      expect(getPluralForm('cy', 6)).toBe('many');
+    });
+
+    it('should apply ordinal rules', () => {
+      expect(getPluralForm('cy', 1, true)).toBe('one');
+      expect(getPluralForm('sv', 2, true)).toBe('one');
+      expect(getPluralForm('sv', 5, true)).toBe('other');
+    });
+
+    it('should report plural categories from Intl.PluralRules', () => {
+      expect(getPluralForms('ru')).toEqual(expect.arrayContaining(['one', 'few', 'many', 'other']));
+      expect(hasPluralForm('pl', 'many')).toBe(true);
+      expect(hasPluralForm('ja', 'one')).toBe(false);
+    });
+
+    it('should check locale support once per locale', () => {
+      const supportedLocalesOf = vi.spyOn(Intl.PluralRules, 'supportedLocalesOf');
+
+      getPluralForm('uk', 1);
+      getPluralForm('uk', 3);
+      getPluralForm('uk', 5);
+
+      expect(supportedLocalesOf.mock.calls.filter(([locale]) => locale === 'uk')).toHaveLength(1);
+      supportedLocalesOf.mockRestore();
+    });
+
+    it('should resolve the rule of a locale once', () => {
+      const getCanonicalLocales = vi.spyOn(Intl, 'getCanonicalLocales');
+
+      getPluralForm('be', 1);
+      const calls = getCanonicalLocales.mock.calls.length;
+      getPluralForm('be', 3);
+      getPluralForm('be', 5);
+
+      expect(getCanonicalLocales).toHaveBeenCalledTimes(calls);
+      getCanonicalLocales.mockRestore();
+    });
+  });
+
+  describe('runtimes without Intl.PluralRules', () => {
+    const originalPluralRules = Intl.PluralRules;
+
+    afterEach(() => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (Intl as any).PluralRules = originalPluralRules;
+    });
+
+    it('should fall back to the hand-written tables', async () => {
+      // Fresh module: rules resolved by earlier tests are cached
+      vi.resetModules();
+      const { getPluralForm, getPluralForms } = await import('../../../src/utils/cldr-rules');
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (Intl as any).PluralRules = undefined;
+
+      expect(getPluralForm('ar', 11)).toBe('many');
+      expect(getPluralForm('fr', 0)).toBe('one');
+      expect(getPluralForms('en', true)).toHaveLength(4);
+      expect(getPluralForm('ru', 5)).toBe('other');
+    });
+  });
+
+  describe('custom plural rules', () => {
+    afterEach(() => {
+      unregisterPluralRule('en');
+      unregisterPluralRule('x-custom');
+    });
+
+    it('should use registered rules instead of Intl.PluralRules', () => {
+      registerPluralRule('x-custom', (count) => (count === 0 ? 'zero' : 'other'));
+
+      expect(getPluralForm('x-custom', 0)).toBe('zero');
+      expect(getPluralForm('x-custom', 1)).toBe('other');
+      expect(getPluralForms('x-custom')).toEqual(['zero', 'other']);
+    });
+
+    it('should apply rules registered for a language to regional locales', () => {
+      registerPluralRule('en', () => 'few');
+
+      expect(getPluralForm('en-GB', 1)).toBe('few');
+    });
+
+    it('should restore default rules when unregistered', () => {
+      registerPluralRule('en', () => 'few');
+      unregisterPluralRule('en');
+
+      expect(getPluralForm('en', 1)).toBe('one');
+    });
+
+    it('should derive the operands when a rule is called without them', () => {
+      const english = getPluralRule('en');
+      registerPluralRule('x-custom', (count, ordinal) => english(count, ordinal));
+
+      expect(getPluralForm('x-custom', 1)).toBe('one');
+      expect(getPluralForm('x-custom', 2)).toBe('other');
+    });
+  });
+
+  describe('plural operands', () => {
+    it('should compute operands of integers', () => {
+      expect(getPluralOperands(5)).toEqual({ n: 5, i: 5, v: 0, w: 0, f: 0, t: 0 });
+      expect(getPluralOperands(-3)).toEqual({ n: 3, i: 3, v: 0, w: 0, f: 0, t: 0 });
+    });
+
+    it('should keep visible trailing zeros of decimal strings', () => {
+      expect(getPluralOperands('1.0')).toEqual({ n: 1, i: 1, v: 1, w: 0, f: 0, t: 0 });
+      expect(getPluralOperands('1.50')).toEqual({ n: 1.5, i: 1, v: 2, w: 1, f: 50, t: 5 });
+      expect(getPluralOperands('1.03')).toEqual({ n: 1.03, i: 1, v: 2, w: 2, f: 3, t: 3 });
+    });
+
+    it('should handle numbers in exponent notation', () => {
+      expect(getPluralOperands(1e21).i).toBe(1e21);
+      expect(getPluralOperands(1e-7).v).toBe(7);
+    });
+
+    it('should return NaN for non-numeric values', () => {
+      expect(getPluralOperands('abc').n).toBeNaN();
+    });
+  });
+
+  describe('decimal-aware plural selection', () => {
+    it('should use visible fraction digits', () => {
+      expect(getPluralForm('en', getPluralOperands('1'))).toBe('one');
+      expect(getPluralForm('en', getPluralOperands('1.0'))).toBe('other');
+      expect(getPluralForm('ru', getPluralOperands('1.0'))).toBe('other');
+      expect(getPluralForm('ru', getPluralOperands('21'))).toBe('one');
+    });
+
+    it('should pass operands to fallback rules', () => {
+      const originalPluralRules = Intl.PluralRules;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (Intl as any).PluralRules = undefined;
+
+      try {
+        expect(getPluralForm('en', getPluralOperands('1.0'))).toBe('other');
+        expect(getPluralForm('fr', getPluralOperands('1.5'))).toBe('one');
+      } finally {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (Intl as any).PluralRules = originalPluralRules;
+      }
+    });
+
+    it('should pass operands to custom rules', () => {
+      registerPluralRule('x-custom', (count, _ordinal, operands = getPluralOperands(count)) =>
+        operands.v > 0 ? 'many' : 'other'
+      );
+
+      expect(getPluralForm('x-custom', getPluralOperands('2.0'))).toBe('many');
+      expect(getPluralForm('x-custom', 2)).toBe('other');
+      unregisterPluralRule('x-custom');
+    });
+  });
+
+  describe('plural ranges', () => {
+    it('should select the form for a range', () => {
+      expect(getPluralRangeForm('en', 1, 5)).toBe('other');
+      expect(getPluralRangeForm('fr', 0, 1)).toBe('one');
+      expect(getPluralRangeForm('ar', 0, 1)).toBe('zero');
+      expect(getPluralRangeForm('ru', 1, 2)).toBe('few');
+    });
+
+    it('should take visible fraction digits into account', () => {
+      expect(getPluralRangeForm('en', getPluralOperands('0.0'), getPluralOperands('1.0'))).toBe('other');
+    });
+
+    it('should fall back to the CLDR range table without Intl.PluralRules', () => {
+      const originalPluralRules = Intl.PluralRules;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (Intl as any).PluralRules = undefined;
+
+      try {
+        expect(getPluralRangeForm('en', 0, 1)).toBe('one');
+        expect(getPluralRangeForm('ar', 0, 2)).toBe('zero');
+        expect(getPluralRangeForm('ar', 1, 2)).toBe('other');
+        expect(getPluralRangeForm('ar', 3, 11)).toBe('many');
+      } finally {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (Intl as any).PluralRules = originalPluralRules;
+      }
+    });
+
+    it('should use the range end form with custom rules', () => {
+      registerPluralRule('x-custom', (count) => (count > 10 ? 'many' : 'other'));
+
+      expect(getPluralRangeForm('x-custom', 1, 20)).toBe('many');
+      unregisterPluralRule('x-custom');
+    });
+  });
 });
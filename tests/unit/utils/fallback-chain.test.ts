@@ -0,0 +1,79 @@
+/**
+ * Fallback Chain Tests
+ * 
+ * Tests for building fallback locale chains from configuration
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getFallbackChain, getPrimaryFallbackLocale } from '../../../src/utils/fallback-chain';
+import type { I18nConfig } from '../../../src/types';
+
+describe('Fallback Chain', () => {
+  const baseConfig: I18nConfig = {
+    defaultLocale: 'en',
+    supportedLocales: ['en', 'de', 'de-CH', 'pt-BR', 'pt-PT'],
+  };
+
+  describe('getFallbackChain', () => {
+    it('should remove subtags automatically when no fallback is configured', () => {
+      expect(getFallbackChain('de-CH', baseConfig)).toEqual(['de-CH', 'de']);
+    });
+
+    it('should skip less specific locales that are not supported', () => {
+      expect(getFallbackChain('pt-BR', baseConfig)).toEqual(['pt-BR']);
+    });
+
+    it('should append a single fallback locale', () => {
+      const config = { ...baseConfig, fallbackLocale: 'en' };
+      expect(getFallbackChain('de-CH', config)).toEqual(['de-CH', 'de', 'en']);
+    });
+
+    it('should append an ordered list of fallback locales', () => {
+      const config = { ...baseConfig, fallbackLocale: ['de', 'en'] };
+      expect(getFallbackChain('de-CH', config)).toEqual(['de-CH', 'de', 'en']);
+      expect(getFallbackChain('pt-PT', config)).toEqual(['pt-PT', 'de', 'en']);
+    });
+
+    it('should use per-locale map entries', () => {
+      const config = {
+        ...baseConfig,
+        fallbackLocale: { 'pt-BR': ['pt-PT', 'en'], default: 'en' },
+      };
+      expect(getFallbackChain('pt-BR', config)).toEqual(['pt-BR', 'pt-PT', 'en']);
+      expect(getFallbackChain('de-CH', config)).toEqual(['de-CH', 'de', 'en']);
+    });
+
+    it('should match map entries by less specific locales', () => {
+      const config = {
+        ...baseConfig,
+        fallbackLocale: { de: 'en', default: 'pt-PT' },
+      };
+      expect(getFallbackChain('de-AT', config)).toEqual(['de-AT', 'de', 'en']);
+    });
+
+    it('should not repeat locales', () => {
+      const config = { ...baseConfig, fallbackLocale: ['en', 'EN', 'en'] };
+      expect(getFallbackChain('en', config)).toEqual(['en']);
+    });
+  });
+
+  describe('getPrimaryFallbackLocale', () => {
+    it('should return the configured fallback locale', () => {
+      expect(getPrimaryFallbackLocale({ ...baseConfig, fallbackLocale: 'de' })).toBe('de');
+    });
+
+    it('should return the first entry of a list', () => {
+      expect(getPrimaryFallbackLocale({ ...baseConfig, fallbackLocale: ['pt-PT', 'en'] })).toBe('pt-PT');
+    });
+
+    it('should return the default entry of a map', () => {
+      const config = { ...baseConfig, fallbackLocale: { 'pt-BR': 'pt-PT', default: ['de'] } };
+      expect(getPrimaryFallbackLocale(config)).toBe('de');
+    });
+
+    it('should return the default locale when no fallback is configured', () => {
+      expect(getPrimaryFallbackLocale(baseConfig)).toBe('en');
+      expect(getPrimaryFallbackLocale({ ...baseConfig, fallbackLocale: { 'pt-BR': 'pt-PT' } })).toBe('en');
+    });
+  });
+});
@@ -11,32 +11,33 @@ import {
   detectBrowserLocale,
   isLocaleSupported,
   findBestMatchingLocale,
+  getLanguageCode,
+  getLocaleLookupChain,
+  resolveSupportedLocale,
+  parseAcceptLanguage,
+  lookupLocale,
+  filterLocales,
 } from '../../../src/utils/locale-detector';
 
 describe('Locale Detector', () => {
   describe('normalizeLocale', () => {
-    it('should normalize en-US to en', () => {
-      const result = normalizeLocale('en-US');
-      expect(result).toBe('en');
-    });
-
-    it('should normalize es-MX to es', () => {
-      const result = normalizeLocale('es-MX');
-      expect(result).toBe('es');
+    it('should preserve region subtags', () => {
+      expect(normalizeLocale('en-US')).toBe('en-US');
+      expect(normalizeLocale('pt-BR')).toBe('pt-BR');
     });
 
-    it('should normalize fr-CA to fr', () => {
-      const result = normalizeLocale('fr-CA');
-      expect(result).toBe('fr');
+    it('should canonicalize casing', () => {
+      expect(normalizeLocale('EN-us')).toBe('en-US');
+      expect(normalizeLocale('zh-hant-tw')).toBe('zh-Hant-TW');
     });
 
     it('should handle underscore separators', () => {
       const result = normalizeLocale('en_US');
-      expect(result).toBe('en');
+      expect(result).toBe('en-US');
     });
 
-    it('should convert to lowercase', () => {
-      const result = normalizeLocale('EN-US');
+    it('should convert language-only codes to lowercase', () => {
+      const result = normalizeLocale('EN');
       expect(result).toBe('en');
     });
 
@@ -51,6 +52,55 @@ describe('Locale Detector', () => {
     });
   });
 
+  describe('getLanguageCode', () => {
+    it('should return the base language subtag', () => {
+      expect(getLanguageCode('en-GB')).toBe('en');
+      expect(getLanguageCode('zh-Hant-TW')).toBe('zh');
+      expect(getLanguageCode('PT_br')).toBe('pt');
+    });
+  });
+
+  describe('getLocaleLookupChain', () => {
+    it('should remove subtags from the end', () => {
+      expect(getLocaleLookupChain('zh-Hant-TW')).toEqual(['zh-Hant-TW', 'zh-Hant', 'zh']);
+    });
+
+    it('should drop extension singletons with their subtag', () => {
+      expect(getLocaleLookupChain('de-CH-u-co-phonebk')).toEqual([
+        'de-CH-u-co-phonebk',
+        'de-CH-u-co',
+        'de-CH',
+        'de',
+      ]);
+    });
+
+    it('should return a single entry for language-only codes', () => {
+      expect(getLocaleLookupChain('en')).toEqual(['en']);
+    });
+
+    it('should return an empty chain for empty input', () => {
+      expect(getLocaleLookupChain('')).toEqual([]);
+    });
+  });
+
+  describe('resolveSupportedLocale', () => {
+    it('should prefer the exact regional locale', () => {
+      expect(resolveSupportedLocale('pt-br', ['pt-PT', 'pt-BR', 'pt'])).toBe('pt-BR');
+    });
+
+    it('should fall back to less specific locales', () => {
+      expect(resolveSupportedLocale('en-AU', ['en', 'en-GB'])).toBe('en');
+    });
+
+    it('should canonicalize supported locales', () => {
+      expect(resolveSupportedLocale('zh-Hant-TW', ['zh-hant'])).toBe('zh-Hant');
+    });
+
+    it('should return null when nothing matches', () => {
+      expect(resolveSupportedLocale('de-DE', ['en', 'fr'])).toBeNull();
+    });
+  });
+
   describe('getBrowserLocales', () => {
     let originalNavigator: Navigator;
 
@@ -186,6 +236,11 @@ describe('Locale Detector', () => {
       const result = isLocaleSupported('EN-US', supportedLocales);
       expect(result).toBe(true);
     });
+
+    it('should not treat a regional locale as supporting its base language', () => {
+      expect(isLocaleSupported('pt', ['pt-BR'])).toBe(false);
+      expect(isLocaleSupported('pt-BR', ['pt-BR'])).toBe(true);
+    });
   });
 
   describe('findBestMatchingLocale', () => {
@@ -215,6 +270,69 @@ describe('Locale Detector', () => {
       const result = findBestMatchingLocale([], supportedLocales, 'en');
       expect(result).toBe('en');
     });
+
+    it('should return regional locales when supported', () => {
+      const regional = ['en-US', 'en-GB', 'pt-PT', 'pt-BR'];
+      expect(findBestMatchingLocale(['en-GB'], regional, 'en-US')).toBe('en-GB');
+      expect(findBestMatchingLocale(['pt-br'], regional, 'en-US')).toBe('pt-BR');
+    });
+
+    it('should match a sibling regional variant of the same language', () => {
+      const result = findBestMatchingLocale(['de-AT', 'en-AU'], ['en-GB', 'de-DE'], 'en-GB');
+      expect(result).toBe('de-DE');
+    });
+
+    it('should prefer a truncated match over a sibling variant', () => {
+      const result = findBestMatchingLocale(['fr-CA', 'en-AU'], ['fr-FR', 'en'], 'fr-FR');
+      expect(result).toBe('en');
+    });
+  });
+
+  describe('parseAcceptLanguage', () => {
+    it('should order ranges by quality', () => {
+      expect(parseAcceptLanguage('en;q=0.8, fr-CH, *;q=0.5, fr;q=0.9')).toEqual(['fr-CH', 'fr', 'en', '*']);
+    });
+
+    it('should keep header order for equal qualities', () => {
+      expect(parseAcceptLanguage('de, en-GB;q=0.7, en;q=0.7')).toEqual(['de', 'en-GB', 'en']);
+    });
+
+    it('should drop ranges with q=0 and malformed entries', () => {
+      expect(parseAcceptLanguage('en;q=0, fr, ;q=1, de_DE, es;q=0.000')).toEqual(['fr']);
+    });
+
+    it('should return an empty array for a missing header', () => {
+      expect(parseAcceptLanguage(undefined)).toEqual([]);
+      expect(parseAcceptLanguage('')).toEqual([]);
+    });
+  });
+
+  describe('lookupLocale', () => {
+    it('should truncate each range before trying the next one', () => {
+      expect(lookupLocale(['de-CH', 'en'], ['en', 'de'])).toBe('de');
+    });
+
+    it('should skip the wildcard', () => {
+      expect(lookupLocale(['*', 'fr'], ['en', 'fr'])).toBe('fr');
+    });
+
+    it('should return null when no range matches', () => {
+      expect(lookupLocale(['it', '*'], ['en', 'fr'])).toBeNull();
+    });
+  });
+
+  describe('filterLocales', () => {
+    it('should match locales that extend a range', () => {
+      expect(filterLocales(['en'], ['en-GB', 'en-US', 'fr'])).toEqual(['en-GB', 'en-US']);
+    });
+
+    it('should not match partial subtags', () => {
+      expect(filterLocales(['en-G'], ['en-GB'])).toEqual([]);
+    });
+
+    it('should order matches by range and include the wildcard last', () => {
+      expect(filterLocales(['FR', '*'], ['en', 'fr-CA'])).toEqual(['fr-CA', 'en']);
+    });
   });
 
   describe('edge cases', () => {
@@ -0,0 +1,51 @@
+/**
+ * Resource Utility Tests
+ *
+ * Tests for merging and updating translation namespaces
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mergeTranslations, setTranslationValue } from '../../../src/utils/resources';
+
+describe('Resource utilities', () => {
+  describe('mergeTranslations', () => {
+    it('should merge nested objects', () => {
+      expect(mergeTranslations({ a: { b: '1' } }, { a: { c: '2' }, d: '3' })).toEqual({
+        a: { b: '1', c: '2' },
+        d: '3',
+      });
+    });
+
+    it('should keep existing values when overwrite is false', () => {
+      expect(mergeTranslations({ a: '1', b: { c: '2' } }, { a: 'x', b: { c: 'y', d: '3' } }, false)).toEqual({
+        a: '1',
+        b: { c: '2', d: '3' },
+      });
+    });
+
+    it('should not mutate its inputs', () => {
+      const target = { a: { b: '1' } };
+      mergeTranslations(target, { a: { b: '2' } });
+
+      expect(target).toEqual({ a: { b: '1' } });
+    });
+  });
+
+  describe('setTranslationValue', () => {
+    it('should set a value at a dot-notation key', () => {
+      expect(setTranslationValue({ a: { b: '1' } }, 'a.c', '2')).toEqual({ a: { b: '1', c: '2' } });
+    });
+
+    it('should replace string values on the path with objects', () => {
+      expect(setTranslationValue({ a: 'text' }, 'a.b', '1')).toEqual({ a: { b: '1' } });
+    });
+
+    it('should not mutate the input', () => {
+      const data = { a: { b: '1' } };
+      const result = setTranslationValue(data, 'a.b', '2');
+
+      expect(data.a.b).toBe('1');
+      expect(result.a).not.toBe(data.a);
+    });
+  });
+});
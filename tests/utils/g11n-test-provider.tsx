@@ -49,7 +49,7 @@ export function TestI18nProvider({ config, children, initialLocale, onError }: T
   if (!servicesRef.current) {
     const localeManager = new LocaleManager(config, initialLocale);
     const translationLoader = new MockTranslationLoader() as any;
-    const translationStore = new TranslationStore(translationLoader);
+    const translationStore = new TranslationStore(translationLoader, config);
     const interpolator = new Interpolator(config.interpolation);
     const pluralizer = new Pluralizer();
     const translator = new Translator(translationStore, interpolator, pluralizer, config);
@@ -154,6 +154,17 @@ export function TestI18nProvider({ config, children, initialLocale, onError }: T
       segmentation: services.segmentationService,
       document: services.documentService,
       config,
+      addResourceBundle: (lng, ns, data, options) =>
+        services.translationStore.addResourceBundle(lng, ns, data, options),
+      addResource: (lng, ns, key, value) => services.translationStore.addResource(lng, ns, key, value),
+      removeResourceBundle: (lng, ns) => services.translationStore.removeResourceBundle(lng, ns),
+      getResourceBundle: (lng, ns) => services.translationStore.getResourceBundle(lng, ns),
+      hasResource: (lng, ns, key) => services.translationStore.hasResource(lng, ns, key),
+      pushLayer: (layer) => services.translationStore.pushLayer(layer),
+      removeLayer: (name) => services.translationStore.removeLayer(name),
+      getLayers: () => services.translationStore.getLayers(),
+      loadNamespaces: (namespaces) => services.translationStore.preloadLocale(locale, namespaces),
+      getLoadState: (ns, lng) => services.translationStore.getLoadState(lng ?? locale, ns),
     };
   }, [locale, isReady, isLoading, t, changeLocale, services, config]);
 
@@ -133,7 +133,7 @@ export function createTestStandaloneI18n(): StandaloneI18n {
       // Initialize services with mock loader
       const loader = new MockTranslationLoader() as any;
       localeManager = new LocaleManager(config);
-      translationStore = new TranslationStore(loader);
+      translationStore = new TranslationStore(loader, config);
       const interpolator = new Interpolator(config.interpolation);
       const pluralizer = new Pluralizer();
       translator = new Translator(translationStore, interpolator, pluralizer, config);